@@ -7,6 +7,11 @@ import { Link } from 'react-router-dom';
 import { AudioEngine } from './engines/AudioEngine';
 import { DAWCore } from './engines/DAWCore';
 import { DrumMachine } from './engines/DrumMachine';
+import { TrackEngines } from './engines/TrackEngines';
+import { Mixer, trackSidechainSource } from './engines/Mixer';
+import { DEFAULT_MOD_MATRIX } from './engines/ModulationMatrix';
+import { DEFAULT_SAMPLER_CONFIG } from './engines/Sampler';
+import { DEFAULT_TUNING } from './engines/tuning';
 import { TransportBar } from './components/TransportBar/TransportBar';
 import { Oscilloscope } from './components/Oscilloscope/Oscilloscope';
 import { DrumOscilloscope } from './components/Oscilloscope/DrumOscilloscope';
@@ -17,28 +22,34 @@ import { StepSequencer } from './components/StepSequencer/StepSequencer';
 import { BindingsModal } from './components/BindingsModal/BindingsModal';
 import { Onboarding } from './components/Onboarding/Onboarding';
 import { TrackSelector } from './components/TrackControls/TrackSelector';
+import { MixerView } from './components/Mixer/MixerView';
 import { useKeyboardController } from './hooks/useKeyboardController';
 import { SequencerScheduler } from './engines/SequencerScheduler';
 import { useTransportStore } from './stores/transportStore';
 import { useMidiStore } from './stores/midiStore';
-import { useAudioStore } from './stores/audioStore';
+import { useAudioStore, defaultParams } from './stores/audioStore';
 import { useTrackStore } from './stores/trackStore';
 import { useSequencerStore } from './stores/sequencerStore';
 import { useProjectStore } from './stores/projectStore';
+import { useKeyboardStore } from './stores/keyboardStore';
 import type { InstrumentConfiguration } from './types/instrument';
+import type { MidiTrack } from './types/track';
 import './App.css';
 
 function App() {
   const audioEngineRef = useRef<AudioEngine | null>(null);
   const dawCoreRef = useRef<DAWCore | null>(null);
   const drumMachineRef = useRef<DrumMachine | null>(null);
+  const trackEnginesRef = useRef<TrackEngines | null>(null);
+  const mixerRef = useRef<Mixer | null>(null);
   const sequencerSchedulerRef = useRef<SequencerScheduler | null>(null);
   const moduleSystemRef = useRef<ModuleSystemRef | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [activeEngine, setActiveEngine] = useState<AudioEngine | null>(null);
   const [isMetronomeEnabled, setIsMetronomeEnabled] = useState(false);
   const [isBindingsOpen, setIsBindingsOpen] = useState(false);
   const [octaveOffset, setOctaveOffset] = useState(4);
-  const [currentView, setCurrentView] = useState<'instrument' | 'piano-roll' | 'sequencer'>('instrument');
+  const [currentView, setCurrentView] = useState<'instrument' | 'piano-roll' | 'sequencer' | 'mixer'>('instrument');
   const [isPercussionMode, setIsPercussionMode] = useState(false);
 
   const transportStore = useTransportStore();
@@ -46,6 +57,19 @@ function App() {
   const audioStore = useAudioStore();
   const trackStore = useTrackStore();
   const sequencerStore = useSequencerStore();
+  const { velocity: keyboardVelocity, setVelocity: setKeyboardVelocity } = useKeyboardStore();
+  const projectTuning = useProjectStore(state => state.tuning);
+  const masterEQ = useProjectStore(state => state.masterEQ);
+  const masterEQEnabled = useProjectStore(state => state.masterEQEnabled);
+  const returnSettings = useProjectStore(state => state.returnSettings);
+
+  // Engine of the active MIDI track, or null while it's being created or a drum track is active
+  // Never the root engine - that's the master bus. Edits made meanwhile reach the track engine
+  // through the instrument config it loads once it's ready
+  const getActiveEngine = (): AudioEngine | null => {
+    const activeTrackId = useTrackStore.getState().activeTrackId;
+    return activeTrackId ? trackEnginesRef.current?.getEngine(activeTrackId) ?? null : null;
+  };
 
   // Initial setup: create default track if none exists (only run once)
   const hasInitializedRef = useRef(false);
@@ -98,12 +122,15 @@ function App() {
     if (activeTrackId) {
       const track = state.tracks.find(t => t.id === activeTrackId);
       if (track && track.type === 'midi') {
-        state.updateTrack(activeTrackId, {
-          instrumentConfig: {
-            ...track.instrumentConfig,
-            modules: modules as any
-          }
-        });
+        const instrumentConfig = {
+          ...track.instrumentConfig,
+          modules: modules as any
+        };
+        state.updateTrack(activeTrackId, { instrumentConfig });
+
+        // Applied live rather than reloading the whole instrument
+        getActiveEngine()?.setModules(instrumentConfig.modules);
+        trackEnginesRef.current?.markLoaded(activeTrackId, instrumentConfig);
       }
     }
   }, []);
@@ -128,12 +155,28 @@ function App() {
         // Initialize Drum Machine
         const masterGain = audioEngine.getMasterGain();
         if (masterGain) {
+          // Channel strips per track feed the root master bus
+          const mixer = new Mixer(context, masterGain);
+          mixerRef.current = mixer;
+
+          // Each MIDI track gets its own engine feeding its channel strip
+          const trackEngines = new TrackEngines(context, mixer);
+          trackEnginesRef.current = trackEngines;
+          dawCore.getPlaybackScheduler()?.setTrackEngines(trackEngines);
+
           const drumMachine = new DrumMachine();
-          await drumMachine.init(context, masterGain);
+          await drumMachine.init(context, mixer.getDrumInput());
           drumMachineRef.current = drumMachine;
 
+          // Drum hits and track notes key sidechain ducking
+          drumMachine.setTriggerListener((sound, time) => mixer.triggerDrumSidechain(sound, time));
+          trackEngines.setNoteListener((trackId) => mixer.triggerSidechain(trackSidechainSource(trackId)));
+
           // Initialize Sequencer Scheduler
           const transport = dawCore.getTransport();
+          // Arpeggiators line their runs up with the transport while it plays
+          trackEngines.setTransport(transport);
+          audioEngine.setTransport(transport);
           if (transport) {
             const sequencerScheduler = new SequencerScheduler(transport, drumMachine);
             sequencerSchedulerRef.current = sequencerScheduler;
@@ -176,8 +219,11 @@ function App() {
           }
         });
 
-        // Sync audio store with audio engine
-        syncAudioStoreToEngine(audioEngine, audioStore);
+        // Notes recorded by frequency (e.g. arpeggiator output) are numbered in the active track's tuning
+        dawCore.setTuningSource(() => getActiveEngine()?.getTuning() ?? DEFAULT_TUNING);
+
+        // Root engine is the master bus - instrument levels live on the track engines
+        audioEngine.setMasterVolume(100);
 
         // Sync lead-in settings (if methods exist)
         // dawCore.setLeadInBeatCount(transportStore.leadInBeatCount);
@@ -217,97 +263,394 @@ function App() {
 
   // Sync audio store changes to audio engine - use individual effects for better performance
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setWaveType(audioStore.params.waveType);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setWaveType(audioStore.params.waveType);
   }, [audioStore.params.waveType, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setMasterVolume(audioStore.params.masterVolume * 100);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setMasterVolume(audioStore.params.masterVolume * 100);
   }, [audioStore.params.masterVolume, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setAttackTime(audioStore.params.attackTime);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setAttackTime(audioStore.params.attackTime);
   }, [audioStore.params.attackTime, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setDecayTime(audioStore.params.decayTime);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setDecayTime(audioStore.params.decayTime);
   }, [audioStore.params.decayTime, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setSustainLevel(audioStore.params.sustainLevel * 100);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setSustainLevel(audioStore.params.sustainLevel * 100);
   }, [audioStore.params.sustainLevel, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setReleaseTime(audioStore.params.releaseTime);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setReleaseTime(audioStore.params.releaseTime);
   }, [audioStore.params.releaseTime, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setFilterCutoff(audioStore.params.filterCutoff);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setFilterCutoff(audioStore.params.filterCutoff);
   }, [audioStore.params.filterCutoff, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setFilterResonance(audioStore.params.filterResonance);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setFilterResonance(audioStore.params.filterResonance);
   }, [audioStore.params.filterResonance, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setFilterType(audioStore.params.filterType);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setFilterType(audioStore.params.filterType);
   }, [audioStore.params.filterType, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setFilterBypass(audioStore.filterBypassed);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setFilterBypass(audioStore.filterBypassed);
   }, [audioStore.filterBypassed, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setDistortionAmount(audioStore.params.distortionAmount);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setDistortionAmount(audioStore.params.distortionAmount);
   }, [audioStore.params.distortionAmount, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setDistortionBypass(audioStore.distortionBypassed);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setDistortionBypass(audioStore.distortionBypassed);
   }, [audioStore.distortionBypassed, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setLFORate(audioStore.params.lfoRate);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setLFORate(audioStore.params.lfoRate);
   }, [audioStore.params.lfoRate, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setLFODepth(audioStore.params.lfoDepth);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setLFODepth(audioStore.params.lfoDepth);
   }, [audioStore.params.lfoDepth, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setLFOWaveType(audioStore.params.lfoWaveType);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setLFOWaveType(audioStore.params.lfoWaveType);
   }, [audioStore.params.lfoWaveType, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setLFOTarget(audioStore.params.lfoTarget);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setLFOTarget(audioStore.params.lfoTarget);
   }, [audioStore.params.lfoTarget, isInitialized]);
 
   useEffect(() => {
-    if (!audioEngineRef.current || !isInitialized) return;
-    audioEngineRef.current.setMasterDetune(audioStore.params.masterDetune);
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setLFOSync(audioStore.params.lfoSync);
+  }, [audioStore.params.lfoSync, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setLFODivision(audioStore.params.lfoDivision, audioStore.params.lfoDivisionModifier);
+  }, [audioStore.params.lfoDivision, audioStore.params.lfoDivisionModifier, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setLFORetrigger(audioStore.params.lfoRetrigger);
+  }, [audioStore.params.lfoRetrigger, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setLFOCustomShape(audioStore.params.lfoCustomShape);
+  }, [audioStore.params.lfoCustomShape, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setMasterDetune(audioStore.params.masterDetune);
   }, [audioStore.params.masterDetune, isInitialized]);
 
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setUnisonMode(audioStore.params.unisonMode);
+  }, [audioStore.params.unisonMode, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setUnisonVoices(audioStore.params.unisonVoices);
+  }, [audioStore.params.unisonVoices, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setUnisonDetune(audioStore.params.unisonDetune);
+  }, [audioStore.params.unisonDetune, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setUnisonWidth(audioStore.params.unisonWidth);
+  }, [audioStore.params.unisonWidth, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setUnisonRandomPhase(audioStore.params.unisonRandomPhase);
+  }, [audioStore.params.unisonRandomPhase, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setNoiseAmount(audioStore.params.noiseAmount);
+  }, [audioStore.params.noiseAmount, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setNoiseColor(audioStore.params.noiseColor);
+  }, [audioStore.params.noiseColor, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setModMatrix(audioStore.modMatrix);
+  }, [audioStore.modMatrix, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setUserWavetable(audioStore.userWavetable);
+  }, [audioStore.userWavetable, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setSampler(audioStore.sampler);
+  }, [audioStore.sampler, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setGranularSample(audioStore.granularSample);
+  }, [audioStore.granularSample, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setTuning(audioStore.tuning);
+  }, [audioStore.tuning, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setReverbImpulse(audioStore.reverbImpulse);
+  }, [audioStore.reverbImpulse, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setEffectChain(audioStore.effectChain);
+  }, [audioStore.effectChain, isInitialized]);
+
+  // Instruments without their own tuning follow the project's
+  useEffect(() => {
+    if (!isInitialized) return;
+    trackEnginesRef.current?.setProjectTuning(projectTuning);
+    audioEngineRef.current?.setProjectTuning(projectTuning);
+  }, [projectTuning, isInitialized]);
+
+  useEffect(() => {
+    if (!isInitialized) return;
+    mixerRef.current?.setMasterEQ(masterEQ, masterEQEnabled);
+  }, [masterEQ, masterEQEnabled, isInitialized]);
+
+  useEffect(() => {
+    if (!isInitialized) return;
+    mixerRef.current?.setReturnSettings(returnSettings);
+  }, [returnSettings, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setFilterKeyTracking(audioStore.params.filterKeyTracking);
+  }, [audioStore.params.filterKeyTracking, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setFilterEnvAttack(audioStore.params.filterEnvAttack);
+  }, [audioStore.params.filterEnvAttack, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setFilterEnvDecay(audioStore.params.filterEnvDecay);
+  }, [audioStore.params.filterEnvDecay, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setFilterEnvSustain(audioStore.params.filterEnvSustain);
+  }, [audioStore.params.filterEnvSustain, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setFilterEnvRelease(audioStore.params.filterEnvRelease);
+  }, [audioStore.params.filterEnvRelease, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setFilterEnvAmount(audioStore.params.filterEnvAmount);
+  }, [audioStore.params.filterEnvAmount, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setFilterEnvVelocity(audioStore.params.filterEnvVelocity);
+  }, [audioStore.params.filterEnvVelocity, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setVelocityCurve(audioStore.params.velocityCurve);
+  }, [audioStore.params.velocityCurve, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setVelocityToAmp(audioStore.params.velocityToAmp);
+  }, [audioStore.params.velocityToAmp, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setVelocityToCutoff(audioStore.params.velocityToCutoff);
+  }, [audioStore.params.velocityToCutoff, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setVelocityToAttack(audioStore.params.velocityToAttack);
+  }, [audioStore.params.velocityToAttack, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setVoiceMode(audioStore.params.voiceMode);
+  }, [audioStore.params.voiceMode, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setNotePriority(audioStore.params.notePriority);
+  }, [audioStore.params.notePriority, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setGlideTime(audioStore.params.glideTime);
+  }, [audioStore.params.glideTime, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setGlideMode(audioStore.params.glideMode);
+  }, [audioStore.params.glideMode, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setPolyphony(audioStore.params.polyphony);
+  }, [audioStore.params.polyphony, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setVoiceStealing(audioStore.params.voiceStealing);
+  }, [audioStore.params.voiceStealing, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setWavetable(audioStore.params.wavetable);
+  }, [audioStore.params.wavetable, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setWavetablePosition(audioStore.params.wavetablePosition);
+  }, [audioStore.params.wavetablePosition, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setHarmonicAmplitudes(audioStore.params.harmonicAmplitudes);
+  }, [audioStore.params.harmonicAmplitudes, isInitialized]);
+
+  useEffect(() => {
+    const engine = getActiveEngine();
+    if (!engine || !isInitialized) return;
+    engine.setHarmonicPhases(audioStore.params.harmonicPhases);
+  }, [audioStore.params.harmonicPhases, isInitialized]);
+
+  // Keep one channel strip and engine per track and route clip playback to them
+  useEffect(() => {
+    const trackEngines = trackEnginesRef.current;
+    if (!trackEngines || !isInitialized) return;
+
+    mixerRef.current?.syncTracks(trackStore.tracks);
+
+    const midiTracks = trackStore.tracks.filter((t): t is MidiTrack => t.type === 'midi');
+    dawCoreRef.current?.getPlaybackScheduler()?.setTracks(midiTracks);
+
+    trackEngines.syncTracks(trackStore.tracks).then(() => {
+      setActiveEngine(getActiveEngine());
+    });
+  }, [trackStore.tracks, trackStore.activeTrackId, isInitialized]);
+
+  // Keep the delay return bus in time with the transport
+  useEffect(() => {
+    if (!isInitialized) return;
+    mixerRef.current?.setBpm(transportStore.bpm);
+    trackEnginesRef.current?.setBpm(transportStore.bpm);
+    audioEngineRef.current?.setBpm(transportStore.bpm);
+  }, [transportStore.bpm, isInitialized]);
+
+  useEffect(() => {
+    if (!isInitialized) return;
+    dawCoreRef.current?.setArpRecordMode(transportStore.arpRecordMode);
+  }, [transportStore.arpRecordMode, isInitialized]);
+
   // Update active note count
   useEffect(() => {
     if (!audioEngineRef.current) return;
 
     const interval = setInterval(() => {
-      if (audioEngineRef.current) {
-        audioStore.setActiveNoteCount(audioEngineRef.current.getActiveNoteCount());
+      const engine = getActiveEngine();
+      if (engine) {
+        audioStore.setActiveNoteCount(engine.getActiveNoteCount());
       }
     }, 100);
 
@@ -319,63 +662,44 @@ function App() {
     const activeTrackId = trackStore.activeTrackId;
     if (!activeTrackId) return;
 
-    // Avoid infinite loop: only update if changed? 
-    // Actually, audioStore is the source of truth for the ACTIVE instrument's params while editing.
-    // We should debounce this or just update.
-
     const currentTrack = trackStore.tracks.find(t => t.id === activeTrackId);
     if (!currentTrack || currentTrack.type !== 'midi') return;
 
-    // We need to merge current audioStore params into the track's instrument config
+    // The audio store holds the active instrument while it's being edited
     const newConfig = {
       ...currentTrack.instrumentConfig,
       audioParams: { ...audioStore.params },
       filterBypassed: audioStore.filterBypassed,
-      distortionBypassed: audioStore.distortionBypassed
+      distortionBypassed: audioStore.distortionBypassed,
+      modMatrix: audioStore.modMatrix,
+      userWavetable: audioStore.userWavetable ?? undefined,
+      sampler: audioStore.sampler,
+      granularSample: audioStore.granularSample ?? undefined,
+      tuning: audioStore.tuning ?? undefined,
+      reverbImpulse: audioStore.reverbImpulse ?? undefined,
+      effectChain: audioStore.effectChain ?? undefined
     };
 
-    // Only update if different to avoid cycles? 
-    // trackStore.updateTrack will cause a re-render.
-    // And we have a useEffect that listens to trackStore.activeTrackId but NOT trackStore.tracks (deeply).
-    // The effect at line 84 listens to `trackStore.activeTrackId` ONLY.
-    // So updating the track content should be safe from reloading the instrument.
-
-    // However, we must be careful not to spam state updates.
-    // For now, let's assume it's fine as user interaction drives audioStore changes.
-
-    // CHECK: Does updateTrack trigger a re-render of App? Yes.
-    // Does that trigger anything else?
-
     trackStore.updateTrack(activeTrackId, { instrumentConfig: newConfig });
-
+    // The engine setters have already applied these values - don't reload the instrument for them
+    trackEnginesRef.current?.markLoaded(activeTrackId, newConfig);
   }, [
     audioStore.params,
     audioStore.filterBypassed,
     audioStore.distortionBypassed,
-    // activeTrackId is needed but we don't want to trigger on track switch (that's handled by loadInstrument)
-    // verify logic: When track switches, loadInstrument is called. AudioParams change. This effect fires.
-    // It writes BACK to the track. That is redundant but harmless if data is same.
-    // BUT: If we switch tracks, `audioStore` is updated. This effect fires. It writes to the NEW active track?
-    // Race condition! 
-    // If `trackStore.activeTrackId` updates, and `audioStore` hasn't yet updated (effect scheduling),
-    // we might overwrite the new track with old audio params!
-
-    // Solution: This effect should NOT depend on activeTrackId directly for triggering,
-    // OR we need to ensure loadInstrument happens strictly before this effect runs.
-    // `handleLoadInstrument` is called in an effect dependent on `activeTrackId` (line 84).
-    // If we put this sync logic here, we need to make sure we aren't overwriting.
-
-    // Better: Don't use useEffect here. Update TrackStore INSIDE the audioStore setters?
-    // No, that couples stores.
-    // 
-    // Let's stick to useEffect but add a ref to track "loading" state?
-    // Or just check if the values are actually different.
+    audioStore.modMatrix,
+    audioStore.userWavetable,
+    audioStore.sampler,
+    audioStore.granularSample,
+    audioStore.tuning,
+    audioStore.reverbImpulse,
+    audioStore.effectChain,
     trackStore.activeTrackId
   ]);
 
   // Keyboard controller
   useKeyboardController(
-    audioEngineRef.current,
+    activeEngine,
     dawCoreRef.current,
     octaveOffset,
     setOctaveOffset,
@@ -412,28 +736,6 @@ function App() {
     }
   }, [sequencerStore.isFrozen, transportStore.isPlaying]);
 
-  // Helper function to sync audio store to engine
-  const syncAudioStoreToEngine = (engine: AudioEngine, store: typeof audioStore) => {
-    const params = store.params;
-    engine.setWaveType(params.waveType);
-    engine.setMasterVolume(params.masterVolume * 100);
-    engine.setAttackTime(params.attackTime);
-    engine.setDecayTime(params.decayTime);
-    engine.setSustainLevel(params.sustainLevel * 100);
-    engine.setReleaseTime(params.releaseTime);
-    engine.setFilterCutoff(params.filterCutoff);
-    engine.setFilterResonance(params.filterResonance);
-    engine.setFilterType(params.filterType);
-    engine.setFilterBypass(store.filterBypassed);
-    engine.setDistortionAmount(params.distortionAmount);
-    engine.setDistortionBypass(store.distortionBypassed);
-    engine.setLFORate(params.lfoRate);
-    engine.setLFODepth(params.lfoDepth);
-    engine.setLFOWaveType(params.lfoWaveType);
-    engine.setLFOTarget(params.lfoTarget);
-    engine.setMasterDetune(params.masterDetune);
-  };
-
   const handlePlay = async () => {
     if (!dawCoreRef.current || !isInitialized) return;
     await dawCoreRef.current.play();
@@ -452,6 +754,7 @@ function App() {
     if (audioEngineRef.current) {
       audioEngineRef.current.stopAllNotes();
     }
+    trackEnginesRef.current?.stopAllNotes();
 
     // Stop sequencer scheduler
     if (sequencerSchedulerRef.current) {
@@ -571,9 +874,17 @@ function App() {
     return `C${octaveOffset}`;
   };
 
+  const handleVelocityUp = () => {
+    setKeyboardVelocity(keyboardVelocity + 10);
+  };
+
+  const handleVelocityDown = () => {
+    setKeyboardVelocity(keyboardVelocity - 10);
+  };
+
   const handleLoadInstrument = (config: InstrumentConfiguration) => {
-    // Load audio parameters
-    const params = config.audioParams;
+    // Load audio parameters, filling in any added since the config was saved
+    const params = { ...defaultParams, ...config.audioParams };
     audioStore.setWaveType(params.waveType);
     audioStore.setMasterVolume(params.masterVolume * 100);
     audioStore.setAttackTime(params.attackTime);
@@ -592,22 +903,55 @@ function App() {
     audioStore.setLFODepth(params.lfoDepth);
     audioStore.setLFOWaveType(params.lfoWaveType);
     audioStore.setLFOTarget(params.lfoTarget);
+    audioStore.setLFOSync(params.lfoSync);
+    audioStore.setLFODivision(params.lfoDivision);
+    audioStore.setLFODivisionModifier(params.lfoDivisionModifier);
+    audioStore.setLFORetrigger(params.lfoRetrigger);
+    audioStore.setLFOCustomShape(params.lfoCustomShape);
     audioStore.setMasterDetune(params.masterDetune);
+    audioStore.setUnisonMode(params.unisonMode);
+    audioStore.setUnisonVoices(params.unisonVoices);
     audioStore.setUnisonDetune(params.unisonDetune);
+    audioStore.setUnisonWidth(params.unisonWidth);
+    audioStore.setUnisonRandomPhase(params.unisonRandomPhase);
     audioStore.setNoiseAmount(params.noiseAmount);
+    audioStore.setNoiseColor(params.noiseColor);
     audioStore.setFilterEnvAttack(params.filterEnvAttack);
     audioStore.setFilterEnvDecay(params.filterEnvDecay);
     audioStore.setFilterEnvAmount(params.filterEnvAmount);
+    audioStore.setFilterEnvSustain(params.filterEnvSustain);
+    audioStore.setFilterEnvRelease(params.filterEnvRelease);
+    audioStore.setFilterEnvVelocity(params.filterEnvVelocity);
+    audioStore.setFilterKeyTracking(params.filterKeyTracking);
+    audioStore.setVelocityCurve(params.velocityCurve);
+    audioStore.setVelocityToAmp(params.velocityToAmp);
+    audioStore.setVelocityToCutoff(params.velocityToCutoff);
+    audioStore.setVelocityToAttack(params.velocityToAttack);
+    audioStore.setVoiceMode(params.voiceMode);
+    audioStore.setNotePriority(params.notePriority);
+    audioStore.setGlideTime(params.glideTime);
+    audioStore.setGlideMode(params.glideMode);
+    audioStore.setPolyphony(params.polyphony);
+    audioStore.setVoiceStealing(params.voiceStealing);
+    audioStore.setWavetable(params.wavetable);
+    audioStore.setWavetablePosition(params.wavetablePosition);
+    audioStore.setHarmonicAmplitudes(params.harmonicAmplitudes);
+    audioStore.setHarmonicPhases(params.harmonicPhases);
+    audioStore.setModMatrix(config.modMatrix ?? DEFAULT_MOD_MATRIX);
+    audioStore.setUserWavetable(config.userWavetable ?? null);
+    audioStore.setSampler(config.sampler ?? DEFAULT_SAMPLER_CONFIG);
+    audioStore.setGranularSample(config.granularSample ?? null);
+    audioStore.setTuning(config.tuning ?? null);
+    audioStore.setReverbImpulse(config.reverbImpulse ?? null);
+    audioStore.setEffectChain(config.effectChain ?? null);
 
     // Load module configuration
     if (moduleSystemRef.current) {
       moduleSystemRef.current.loadInstrument(config);
     }
 
-    // Update audio engine
-    if (audioEngineRef.current) {
-      audioEngineRef.current.updateParams(audioStore.params);
-    }
+    // Update the active track's engine
+    getActiveEngine()?.loadInstrument(config);
   };
 
   const handleExportInstrument = (name: string): InstrumentConfiguration | null => {
@@ -624,6 +968,13 @@ function App() {
       audioParams: { ...audioStore.params },
       filterBypassed: audioStore.filterBypassed,
       distortionBypassed: audioStore.distortionBypassed,
+      modMatrix: audioStore.modMatrix,
+      userWavetable: audioStore.userWavetable ?? undefined,
+      sampler: audioStore.sampler,
+      granularSample: audioStore.granularSample ?? undefined,
+      tuning: audioStore.tuning ?? undefined,
+      reverbImpulse: audioStore.reverbImpulse ?? undefined,
+      effectChain: audioStore.effectChain ?? undefined,
       modules
     };
   };
@@ -666,6 +1017,13 @@ function App() {
           >
             SEQ
           </button>
+          <button
+            className={`view-btn ${currentView === 'mixer' ? 'view-btn-active' : ''}`}
+            onClick={() => setCurrentView('mixer')}
+            title="Mixer"
+          >
+            MIX
+          </button>
         </div>
 
         <button
@@ -695,6 +1053,12 @@ function App() {
           <button className="octave-btn" onClick={handleOctaveUp}>+OCT</button>
         </div>
 
+        <div className="octave-controls" style={{ marginLeft: '10px' }} title="Velocity of notes played from the keyboard">
+          <button className="octave-btn" onClick={handleVelocityDown}>-VEL</button>
+          <div className="octave-value">{keyboardVelocity}</div>
+          <button className="octave-btn" onClick={handleVelocityUp}>+VEL</button>
+        </div>
+
         {isPercussionMode && (
           <div className="kit-controls" style={{ marginLeft: '10px' }}>
             <select
@@ -806,7 +1170,7 @@ function App() {
                   {isPercussionMode ? (
                     <DrumOscilloscope drumMachine={drumMachineRef.current} />
                   ) : (
-                    <Oscilloscope audioEngine={audioEngineRef.current} />
+                    <Oscilloscope audioEngine={activeEngine} />
                   )}
                 </div>
                 <InstrumentLibrary
@@ -818,7 +1182,7 @@ function App() {
                 <ModuleSystem
                   ref={moduleSystemRef}
                   audioContext={audioEngineRef.current?.getContext() || null}
-                  audioEngine={audioEngineRef.current}
+                  audioEngine={activeEngine}
                   onStateChange={handleModuleStateChange}
                 />
               </div>
@@ -827,12 +1191,16 @@ function App() {
             <div style={{ flex: 1, display: 'flex', flexDirection: 'column', height: '100%' }}>
               <PianoRoll
                 transport={dawCoreRef.current?.getTransport() || null}
-                synthEngine={audioEngineRef.current}
+                synthEngine={activeEngine}
                 midiRecorder={dawCoreRef.current?.getMidiRecorder() || null}
                 dawCore={dawCoreRef.current}
                 onSwitchToInstrument={() => setCurrentView('instrument')}
               />
             </div>
+          ) : currentView === 'mixer' ? (
+            <div style={{ flex: 1, display: 'flex', flexDirection: 'column', height: '100%' }}>
+              <MixerView mixer={mixerRef.current} />
+            </div>
           ) : (
             <div style={{ flex: 1, display: 'flex', flexDirection: 'column', height: '100%' }}>
               <StepSequencer
@@ -34,10 +34,18 @@ export const Manual: React.FC = () => {
                         <h3>Sound Modules</h3>
                         <ul>
                             <li><a href="#oscillator" onClick={(e) => handleNavClick(e, 'oscillator')}>Oscillator</a></li>
+                            <li><a href="#wavetable" onClick={(e) => handleNavClick(e, 'wavetable')}>Wavetable</a></li>
+                            <li><a href="#fm" onClick={(e) => handleNavClick(e, 'fm')}>FM</a></li>
+                            <li><a href="#sampler" onClick={(e) => handleNavClick(e, 'sampler')}>Sampler</a></li>
+                            <li><a href="#granular" onClick={(e) => handleNavClick(e, 'granular')}>Granular</a></li>
+                            <li><a href="#arpeggiator" onClick={(e) => handleNavClick(e, 'arpeggiator')}>Arpeggiator</a></li>
+                            <li><a href="#tuning" onClick={(e) => handleNavClick(e, 'tuning')}>Tuning</a></li>
                             <li><a href="#envelope" onClick={(e) => handleNavClick(e, 'envelope')}>ADSR Envelope</a></li>
                             <li><a href="#filter" onClick={(e) => handleNavClick(e, 'filter')}>Filter</a></li>
                             <li><a href="#filter-envelope" onClick={(e) => handleNavClick(e, 'filter-envelope')}>Filter Envelope</a></li>
                             <li><a href="#lfo" onClick={(e) => handleNavClick(e, 'lfo')}>LFO</a></li>
+                            <li><a href="#mod-matrix" onClick={(e) => handleNavClick(e, 'mod-matrix')}>Mod Matrix</a></li>
+                            <li><a href="#velocity" onClick={(e) => handleNavClick(e, 'velocity')}>Velocity</a></li>
                             <li><a href="#voice" onClick={(e) => handleNavClick(e, 'voice')}>Voice Module</a></li>
                         </ul>
                     </div>
@@ -45,7 +53,9 @@ export const Manual: React.FC = () => {
                     <div className="nav-group">
                         <h3>Effects</h3>
                         <ul>
+                            <li><a href="#effect-chain" onClick={(e) => handleNavClick(e, 'effect-chain')}>FX Chain</a></li>
                             <li><a href="#distortion" onClick={(e) => handleNavClick(e, 'distortion')}>Distortion</a></li>
+                            <li><a href="#eq" onClick={(e) => handleNavClick(e, 'eq')}>EQ</a></li>
                             <li><a href="#compressor" onClick={(e) => handleNavClick(e, 'compressor')}>Compressor</a></li>
                             <li><a href="#chorus" onClick={(e) => handleNavClick(e, 'chorus')}>Chorus</a></li>
                             <li><a href="#delay" onClick={(e) => handleNavClick(e, 'delay')}>Delay</a></li>
@@ -136,6 +146,7 @@ export const Manual: React.FC = () => {
                             <li><strong>Mode Controls</strong>: <code>BINDINGS</code> for keyboard shortcuts, <code>DRUMS</code> for percussion mode, <code>?</code> for onboarding tour.</li>
                             <li><strong>Track Selector</strong>: Dropdown menu to switch between multiple tracks.</li>
                             <li><strong>Octave Controls</strong>: <code>-OCT</code> and <code>+OCT</code> buttons adjust the keyboard's octave range.</li>
+                            <li><strong>Velocity Controls</strong>: <code>-VEL</code> and <code>+VEL</code> buttons set how hard keyboard notes are played (1-127).</li>
                             <li><strong>Main Workspace</strong>: Changes based on selected view (modules, piano roll, or sequencer).</li>
                             <li><strong>Left Sidebar</strong>: Contains the Oscilloscope (waveform visualizer) and Instrument Library.</li>
                         </ul>
@@ -151,17 +162,166 @@ export const Manual: React.FC = () => {
                         </p>
                         <h3>Parameters</h3>
                         <ul>
-                            <li><strong>Wave Type</strong>: Choose from Sine, Square, Sawtooth, or Triangle waves.
+                            <li><strong>Wave Type</strong>: Choose from Sine, Square, Sawtooth, Triangle or Custom waves.
                                 <ul>
                                     <li><strong>Sine</strong>: Pure tone, smooth and simple. Great for bass, pads, and smooth leads.</li>
                                     <li><strong>Square</strong>: Hollow, clarinet-like sound. Rich in odd harmonics. Perfect for retro game sounds and aggressive leads.</li>
                                     <li><strong>Sawtooth</strong>: Bright, buzzy sound with all harmonics. Excellent for brass, strings, and classic analog leads.</li>
                                     <li><strong>Triangle</strong>: Similar to sine but with slightly more harmonics. Softer than sawtooth. Good for flutes and mellow tones.</li>
+                                    <li><strong>Custom (CUS)</strong>: Build your own wave from the first 64 harmonics. See Custom Waves below.</li>
                                 </ul>
                             </li>
                             <li><strong>VOL (Master Volume)</strong>: 0-100%. Controls the overall output level of the oscillator.</li>
                             <li><strong>TUNE (Master Detune)</strong>: -100 to +100 cents. Shifts pitch up or down in hundredths of a semitone. Great for creating subtle tuning variations or detuned effects.</li>
                         </ul>
+                        <h3>Custom Waves</h3>
+                        <p>
+                            Pick <strong>CUS</strong> to open the harmonic editor. Each bar is one harmonic, starting with the fundamental on the left. The wave is rebuilt as you edit, even on held notes, and it's saved with the instrument.
+                        </p>
+                        <ul>
+                            <li><strong>Presets</strong>: <strong>SINE</strong>, organ drawbars (<strong>ORGAN</strong> for the first three, <strong>FULL</strong> for all of them), <strong>ODD</strong> for a hollow square-like tone, <strong>HOLLOW</strong> for a softer odd-harmonic tone, and sawtooth approximations with 8, 16 or 64 harmonics.</li>
+                            <li><strong>AMP / PHASE</strong>: Choose whether drawing sets harmonic levels or phases. Phases change the wave's shape on the oscilloscope more than its sound, but they matter once distortion is added.</li>
+                            <li><strong>Typing</strong>: Set <strong>H</strong> to a harmonic number, then type its <strong>AMP</strong> (0-100) and <strong>PH</strong> (0-360 degrees). Drawing on a bar also selects it.</li>
+                        </ul>
+                    </section>
+
+                    <section id="wavetable" className="manual-section">
+                        <h2>Wavetable Module</h2>
+                        <p>
+                            The Wavetable module replaces the oscillator's basic waveform with a wavetable: a series of single-cycle frames that the oscillator morphs through. Add it from <strong>+ MODULES</strong> under SOURCE. While it's on, every note uses the selected table, and unison, glide and tuning work as before. Turn it off or remove it to go back to the Oscillator wave type.
+                        </p>
+                        <h3>Parameters</h3>
+                        <ul>
+                            <li><strong>Table</strong>: Pick a built-in table.
+                                <ul>
+                                    <li><strong>BASIC</strong>: Sine, triangle, saw and square.</li>
+                                    <li><strong>PULSE</strong>: Pulse wave narrowing from 50% to 5% width.</li>
+                                    <li><strong>BRIGHT</strong>: Saw opening up from a pure sine to full brightness.</li>
+                                    <li><strong>VOWEL</strong>: Vocal formants moving through A, E, I, O, U.</li>
+                                </ul>
+                            </li>
+                            <li><strong>POS</strong> (0-100%): Where in the table the oscillator reads. Neighbouring frames are blended, so sweeping POS morphs smoothly. Route <strong>WT POS</strong> in the Mod Matrix to move it with an LFO or envelope.</li>
+                            <li><strong>IMPORT WAV</strong>: Load your own table from WAV files. Each file becomes one frame, in the order selected. A file holding several 2048-sample cycles is split into frames. Up to 64 frames are kept. The imported table is saved with the instrument and appears as <strong>USER</strong>.</li>
+                        </ul>
+                    </section>
+
+                    <section id="fm" className="manual-section">
+                        <h2>FM Module</h2>
+                        <p>
+                            The FM module builds each note from 2 to 4 sine operators that modulate each other's pitch. This makes the bells, electric pianos and metallic basses that filtering a single waveform can't. Add it from <strong>+ MODULES</strong> under SOURCE. While it's on it replaces the oscillator, and it takes priority over the Wavetable module. Its settings are saved with the instrument.
+                        </p>
+                        <h3>Parameters</h3>
+                        <ul>
+                            <li><strong>2 OP / 3 OP / 4 OP</strong>: How many operators play.</li>
+                            <li><strong>Algorithm</strong>: How the operators are connected. Operators beyond the count are left out.
+                                <ul>
+                                    <li><strong>STACK</strong>: Each operator modulates the one before it, ending at OP1.</li>
+                                    <li><strong>PAIRS</strong>: OP2 modulates OP1 and OP4 modulates OP3. Both pairs are heard.</li>
+                                    <li><strong>BRANCH</strong>: Every other operator modulates OP1.</li>
+                                    <li><strong>FAN</strong>: OP4 modulates OP1, OP2 and OP3, which are all heard.</li>
+                                    <li><strong>ADD</strong>: No modulation. Every operator is heard, like drawbars.</li>
+                                </ul>
+                            </li>
+                            <li><strong>OP1-OP4</strong>: Pick the operator the knobs below edit.</li>
+                            <li><strong>RATIO</strong> (0.25-16): Operator pitch as a multiple of the note. Whole numbers sound harmonic, other ratios sound like bells and metal.</li>
+                            <li><strong>FINE</strong> (-100 to 100 cents): Detunes the operator for beating and shimmer.</li>
+                            <li><strong>LEVEL / INDEX</strong> (0-100): Volume for operators that are heard. For modulators this is the modulation amount, and higher values sound brighter and harsher.</li>
+                            <li><strong>ATK / DEC / SUS / REL</strong>: Each operator's own envelope, in milliseconds. A modulator that decays faster than its carrier gives the classic bright-then-mellow FM attack.</li>
+                        </ul>
+                        <h3>Starting Points</h3>
+                        <ul>
+                            <li><strong>Electric piano</strong>: 2 OP, STACK. OP2 ratio 1, index about 40, decay around 800ms with low sustain.</li>
+                            <li><strong>Bell</strong>: 2 OP, STACK. OP2 ratio 3.5, index about 60, with long decays on both operators.</li>
+                            <li><strong>Metallic bass</strong>: 3 OP, BRANCH. OP2 ratio 1, OP3 ratio 7 with a short decay.</li>
+                        </ul>
+                    </section>
+
+                    <section id="sampler" className="manual-section">
+                        <h2>Sampler Module</h2>
+                        <p>
+                            The Sampler module plays your own audio files instead of oscillators. Each sample is mapped to a zone of keys and velocities and repitched from its root note. Create a track with it already set up from <strong>+</strong> &gt; <strong>Sampler Track</strong>, or add it to any MIDI track from <strong>+ MODULES</strong> under SOURCE. While it's on it takes priority over the Granular, FM and Wavetable modules. The ADSR, filter, LFOs and effects shape samples just like oscillators. Samples are saved with the instrument, so each track keeps its own set.
+                        </p>
+                        <h3>Loading Samples</h3>
+                        <p>
+                            Press <strong>IMPORT SAMPLES</strong> and select one or more audio files. A note name in the file name sets the root, so <em>Piano_C4.wav</em> plays unchanged on C4. Files without one are rooted at C4. The keyboard is split halfway between the roots of the imported files, so a folder of multisamples maps itself. Keys no zone covers are silent.
+                        </p>
+                        <h3>Parameters</h3>
+                        <ul>
+                            <li><strong>Zone list</strong>: Click a zone to edit it. ✕ removes it.</li>
+                            <li><strong>ROOT</strong>: The key the sample plays at its original pitch.</li>
+                            <li><strong>LOW / HIGH</strong>: The key range the zone covers.</li>
+                            <li><strong>VEL LO / VEL HI</strong> (1-127): The velocity range the zone covers. Stack zones with different velocity ranges for soft and hard hits.</li>
+                            <li><strong>LOOP</strong>: Repeats part of the sample while the note is held, so short samples can sustain.</li>
+                            <li><strong>START / END</strong> (0-100): Loop start and end as a percentage of the sample's length.</li>
+                            <li><strong>ROUND ROBIN</strong>: When several zones cover the same key and velocity, each note plays the next one in turn. Load a few takes of the same hit to avoid the machine-gun effect of repeated notes.</li>
+                        </ul>
+                    </section>
+
+                    <section id="granular" className="manual-section">
+                        <h2>Granular Module</h2>
+                        <p>
+                            The Granular module plays a stream of short, overlapping grains cut from a piece of audio. Stretched-out pads, frozen textures and shimmering clouds all come from it. Add it from <strong>+ MODULES</strong> under SOURCE. While it's on it replaces the oscillator and takes priority over the FM and Wavetable modules. Notes repitch the grains: C4 plays the audio at its original pitch. The source audio and settings are saved with the instrument.
+                        </p>
+                        <h3>Loading a Source</h3>
+                        <ul>
+                            <li><strong>LOAD FILE</strong>: Use any audio file.</li>
+                            <li><strong>DRUM FREEZE</strong>: Use the drum pattern currently frozen in the sequencer. Press <strong>SET</strong> there to render and freeze it first.</li>
+                        </ul>
+                        <p>
+                            Notes are silent until a source is loaded.
+                        </p>
+                        <h3>Parameters</h3>
+                        <ul>
+                            <li><strong>HANN / TRI / TRAP / PERC</strong>: The volume shape of each grain. HANN is the smoothest. TRAP holds full level between short fades for a denser sound. PERC starts hard and decays, which keeps transients.</li>
+                            <li><strong>POS</strong> (0-100): Where in the source grains are read from. Modulate it by hand for slow scans through the audio.</li>
+                            <li><strong>SPRAY</strong> (0-1000ms): Random variation around the position. Higher values blur the source into a cloud.</li>
+                            <li><strong>SIZE</strong> (10-500ms): Length of each grain. Short grains sound buzzy and pitched, long grains keep more of the original.</li>
+                            <li><strong>DENS</strong> (1-100): Grains started per second. Low values sound like separate blips, high values merge into a continuous tone.</li>
+                            <li><strong>PITCH</strong> (-24 to 24 semitones): Shifts every grain on top of the played note.</li>
+                        </ul>
+                    </section>
+
+                    <section id="arpeggiator" className="manual-section">
+                        <h2>Arpeggiator Module</h2>
+                        <p>
+                            The Arpeggiator plays held notes one at a time in a repeating pattern, locked to the project tempo. Add it from <strong>+ MODULES</strong> under MIDI and hold a chord key or several notes. It arpeggiates everything the instrument plays, including recorded clips, and is saved with the instrument. While the transport plays, a new run waits for the next step of the grid, so recorded arpeggios land on the beat.
+                        </p>
+                        <h3>Parameters</h3>
+                        <ul>
+                            <li><strong>UP / DOWN / U/D</strong>: Play the held notes from lowest to highest, highest to lowest, or up and back down.</li>
+                            <li><strong>RND</strong>: Pick a held note at random on every step.</li>
+                            <li><strong>PLAYED</strong>: Play the notes in the order the keys went down.</li>
+                            <li><strong>1/1-1/32, STR / DOT / TRI</strong>: Step length as a note division at the current BPM, straight, dotted or triplet.</li>
+                            <li><strong>OCT</strong> (1-4): Repeat the pattern over this many octaves.</li>
+                            <li><strong>GATE</strong> (10-100): How long each note is held, as a percentage of a step. Low values are staccato, 100 is legato.</li>
+                            <li><strong>SWING</strong> (0-75): Delays every second step by this percentage of a step for a shuffled feel.</li>
+                            <li><strong>LATCH</strong>: Keeps arpeggiating after you let go. The next key or chord you press replaces the latched notes. Turn latch off or disable the module to stop.</li>
+                        </ul>
+                        <h3>Recording</h3>
+                        <p>
+                            <strong>REC HELD</strong> records the keys you hold, so the clip stays editable as chords and is arpeggiated again on playback. <strong>REC ARP</strong> records the individual notes the arpeggiator plays instead. Turn the arpeggiator off after recording this way, or the recorded notes will be arpeggiated a second time.
+                        </p>
+                    </section>
+
+                    <section id="tuning" className="manual-section">
+                        <h2>Tuning Module</h2>
+                        <p>
+                            Every instrument plays in the project tuning, which is 12-tone equal temperament with A4 at 440 Hz until you change it. Add the Tuning module from <strong>+ MODULES</strong> under MIDI to give an instrument its own tuning. The keyboard, the piano roll and recorded clips all play in the tuning of the track's instrument. The instrument's tuning is saved with the instrument, and the project tuning with the project.
+                        </p>
+                        <h3>Parameters</h3>
+                        <ul>
+                            <li><strong>12-TET / JUST / PYTH / MEAN</strong>: Equal temperament, 5-limit just intonation on C, Pythagorean tuning, or quarter-comma meantone.</li>
+                            <li><strong>19-EDO / 31-EDO</strong>: The octave split into 19 or 31 equal steps. Each key plays the next step, so an octave spans 19 or 31 keys.</li>
+                            <li><strong>IMPORT SCL</strong>: Loads a Scala scale file. Without a keyboard map, degree 0 of the scale sits on middle C and each key plays the next degree.</li>
+                            <li><strong>IMPORT KBM</strong>: Loads a Scala keyboard map onto the current scale. The map decides which degree each key plays, and also sets the reference key and frequency. Keys the map leaves unmapped are silent.</li>
+                            <li><strong>CLEAR KEYBOARD MAP</strong>: Goes back to one degree per key.</li>
+                            <li><strong>REF</strong>: Frequency in Hz of the reference key, A4 unless a keyboard map picks another key. Use it to tune to 432 Hz or 442 Hz.</li>
+                            <li><strong>PROJECT</strong>: Drops the instrument's own tuning so it follows the project again.</li>
+                            <li><strong>SET PROJECT</strong>: Makes the shown tuning the project tuning, for every instrument without its own.</li>
+                        </ul>
+                        <p>
+                            Disabling the module makes the instrument follow the project tuning without forgetting its own.
+                        </p>
                     </section>
 
                     <section id="envelope" className="manual-section">
@@ -200,6 +360,7 @@ export const Manual: React.FC = () => {
                         <ul>
                             <li><strong>CUT (Cutoff Frequency)</strong>: 20Hz-20kHz. The frequency where the filter begins cutting. Lower cutoff = darker sound. Higher cutoff = brighter sound.</li>
                             <li><strong>RES (Resonance)</strong>: 0.1-20. Emphasizes frequencies at the cutoff point, creating a peak. Low resonance (1-5) = subtle filtering. High resonance (15-20) = aggressive, screaming sounds.</li>
+                            <li><strong>KEY (Key Tracking)</strong>: 0-100%. Moves the cutoff with the note played, relative to middle C. At 100% the cutoff follows the keyboard exactly, so high notes stay as bright as low ones.</li>
                             <li><strong>Bypass</strong>: Toggle to completely remove the filter from the signal path (true bypass).</li>
                         </ul>
                         <h3>Tips</h3>
@@ -213,13 +374,16 @@ export const Manual: React.FC = () => {
                     <section id="filter-envelope" className="manual-section">
                         <h2>Filter Envelope</h2>
                         <p>
-                            The Filter Envelope automatically modulates the filter cutoff over time, creating evolving timbres and dynamic sounds.
+                            The Filter Envelope automatically modulates the filter cutoff over time, creating evolving timbres and dynamic sounds. Every note has its own filter, so each key press restarts its own sweep.
                         </p>
                         <h3>Parameters</h3>
                         <ul>
                             <li><strong>Attack</strong> (0-1000ms): Time for the filter to sweep from the base cutoff to the peak. Fast attack = sharp filter opening. Slow attack = gradual brightening.</li>
-                            <li><strong>Decay</strong> (0-1000ms): Time for the filter to return from peak to base cutoff. Controls how quickly the brightness fades.</li>
+                            <li><strong>Decay</strong> (0-1000ms): Time for the filter to fall from peak to the sustain level. Controls how quickly the brightness fades.</li>
+                            <li><strong>Sustain</strong> (0-100%): Share of the amount held while the key is down. 0% returns all the way to the base cutoff.</li>
+                            <li><strong>Release</strong> (0-2000ms): Time for the filter to return to the base cutoff after the key is released.</li>
                             <li><strong>Amount</strong> (0-5000Hz): How much the envelope moves the cutoff frequency. Higher amount = more dramatic filter sweeps.</li>
+                            <li><strong>Velocity</strong> (0-100%): How much note velocity scales the amount. At 0% every note sweeps the same; at 100% soft notes barely open the filter.</li>
                         </ul>
                         <h3>Use Cases</h3>
                         <ul>
@@ -236,21 +400,26 @@ export const Manual: React.FC = () => {
                         </p>
                         <h3>Parameters</h3>
                         <ul>
-                            <li><strong>Wave Type</strong>: Sine, Triangle, Square, Sawtooth. Determines the shape of the modulation.
+                            <li><strong>Wave Type</strong>: Sine, Triangle, Square, Sawtooth, S&amp;H, Random and Custom. Determines the shape of the modulation.
                                 <ul>
                                     <li><strong>Sine</strong>: Smooth, natural modulation. Best for vibrato and tremolo.</li>
                                     <li><strong>Triangle</strong>: Similar to sine but with sharper peaks.</li>
                                     <li><strong>Square</strong>: Abrupt on/off switching. Creates rhythmic gating effects.</li>
                                     <li><strong>Sawtooth</strong>: Gradual ramp then sudden drop. Creates rising/falling filter sweeps.</li>
+                                    <li><strong>S&amp;H (Sample and Hold)</strong>: Jumps to a new random value every cycle. Classic random filter steps.</li>
+                                    <li><strong>RND (Random Smooth)</strong>: Glides smoothly between random values. Good for drifting, organic movement.</li>
+                                    <li><strong>CUS (Custom)</strong>: Draw your own 16-step shape by clicking or dragging across the bars in the editor.</li>
                                 </ul>
                             </li>
                             <li><strong>RATE</strong> (0.1-20Hz): Speed of the LFO. Lower rates (0.1-2Hz) create slow sweeps. Higher rates (10-20Hz) create tremolo/vibrato effects.</li>
+                            <li><strong>SYNC</strong>: Locks the LFO to the project tempo. RATE is replaced by a note division (1/1 to 1/32), one cycle per division, plus STR (straight), DOT (dotted, 1.5x longer) and TRI (triplet, 2/3 as long). Synced LFOs follow tempo changes.</li>
+                            <li><strong>RETRIG / FREE</strong>: RETRIG restarts the cycle on every note so each note gets the same movement. FREE keeps the LFO running across notes.</li>
                             <li><strong>DEPTH</strong> (0-100%): Intensity of the modulation. Higher depth = more dramatic effect.</li>
                             <li><strong>Target</strong>: What parameter the LFO controls.
                                 <ul>
                                     <li><strong>CUT (Cutoff)</strong>: Modulates filter cutoff for wah-wah or sweeping effects.</li>
                                     <li><strong>AMP (Amplitude)</strong>: Modulates volume for tremolo effects.</li>
-                                    <li><strong>PIT (Pitch)</strong>: Modulates pitch for vibrato effects (experimental).</li>
+                                    <li><strong>PIT (Pitch)</strong>: Modulates pitch for vibrato effects. Full depth swings one semitone either way.</li>
                                 </ul>
                             </li>
                         </ul>
@@ -258,30 +427,103 @@ export const Manual: React.FC = () => {
                         <ul>
                             <li><strong>Wah-Wah</strong>: Target Cutoff, Sine wave, Rate 1-3Hz, Depth 50-80%.</li>
                             <li><strong>Tremolo</strong>: Target Amplitude, Sine wave, Rate 4-8Hz, Depth 40-60%.</li>
-                            <li><strong>Rhythmic Gating</strong>: Target Amplitude, Square wave, synced to tempo, Depth 80-100%.</li>
+                            <li><strong>Rhythmic Gating</strong>: Target Amplitude, Square wave, SYNC on at 1/16, Depth 80-100%.</li>
+                            <li><strong>Random Filter</strong>: Target Cutoff, S&amp;H, SYNC on at 1/8, Depth 40-60%.</li>
+                        </ul>
+                    </section>
+
+                    <section id="mod-matrix" className="manual-section">
+                        <h2>Mod Matrix</h2>
+                        <p>
+                            The Mod Matrix routes three LFOs and two modulation envelopes to almost any sound parameter. Each routing is a slot, and a patch can have up to 8 slots. Use it when one LFO target isn't enough.
+                        </p>
+                        <h3>Pages</h3>
+                        <ul>
+                            <li><strong>SLOTS</strong>: One row per routing. Pick a source, a destination and a depth. Press <strong>+ SLOT</strong> to add a row and ✕ to remove one.</li>
+                            <li><strong>LFO</strong>: Shape, rate (0.01-20Hz) or synced division, and retrigger for LFO1-LFO3. These work like the LFO module. Free-running LFOs are shared by all notes, while RETRIG restarts an LFO on every new note.</li>
+                            <li><strong>ENV</strong>: Attack, decay, sustain and release for ENV1 and ENV2. Each note starts its own copy of the envelope.</li>
+                        </ul>
+                        <h3>Slot Parameters</h3>
+                        <ul>
+                            <li><strong>DEPTH</strong> (-100 to 100%): How far the source moves the destination. Negative values invert the modulation.</li>
+                            <li><strong>BI/UNI</strong>: BI swings the destination both up and down. UNI only pushes it one way, which suits envelopes and tremolo.</li>
+                        </ul>
+                        <h3>Destinations</h3>
+                        <ul>
+                            <li><strong>CUTOFF</strong>: Up to 4 octaves. <strong>RES</strong>: Up to 10 Q. Both are ignored while the filter is bypassed.</li>
+                            <li><strong>PITCH</strong>: Up to one octave. <strong>DETUNE</strong>: Up to 50 cents of extra unison spread.</li>
+                            <li><strong>WT POS</strong>: Across the whole wavetable. Only heard while the Wavetable module is on.</li>
+                            <li><strong>AMP</strong>, <strong>PAN</strong> and <strong>NOISE</strong>: Level, stereo position and noise level of each note.</li>
+                            <li><strong>CHORUS</strong>, <strong>DELAY</strong> and <strong>REVERB</strong>: Wet level of the effect. These are shared by all notes, so only LFOs can drive them.</li>
+                        </ul>
+                    </section>
+
+                    <section id="velocity" className="manual-section">
+                        <h2>Velocity</h2>
+                        <p>
+                            Every note carries a velocity from 1 to 127: how hard it was played. The Velocity module decides what that changes. Notes recorded or drawn in the Piano Roll play back with their stored velocity. Turn the module off to play every note at full velocity.
+                        </p>
+                        <h3>Parameters</h3>
+                        <ul>
+                            <li><strong>Curve</strong>: How velocity maps onto the amounts below. <strong>SOFT</strong> reaches full level with lighter playing, <strong>LIN</strong> is a straight line, <strong>HARD</strong> needs high velocities to open up.</li>
+                            <li><strong>AMP</strong> (0-100%): How much velocity sets note volume. At 0% every note plays at full level.</li>
+                            <li><strong>CUT</strong> (0-100%): How much soft notes close the filter. At 100% the softest notes sit 4 octaves below the cutoff.</li>
+                            <li><strong>ENV</strong> (0-100%): How much velocity scales the filter envelope amount. This is the same control as VEL on the Filter Envelope.</li>
+                            <li><strong>ATK</strong> (-100 to 100%): Positive values make harder notes attack faster, negative values make them attack slower.</li>
+                        </ul>
+                        <h3>Setting Velocity</h3>
+                        <ul>
+                            <li><strong>Keyboard</strong>: <code>-VEL</code> and <code>+VEL</code> in the toolbar set the velocity of notes played from the computer keyboard.</li>
+                            <li><strong>Piano Roll</strong>: Select notes and drag the <code>VEL</code> slider in the editor toolbar. Quieter notes are drawn fainter.</li>
                         </ul>
                     </section>
 
                     <section id="voice" className="manual-section">
                         <h2>Voice Module</h2>
                         <p>
-                            The Voice Module controls voice layering and noise generation, adding thickness and texture to your sounds.
+                            The Voice Module sets how many notes play at once, and controls voice layering and noise generation, adding thickness and texture to your sounds.
+                        </p>
+                        <h3>Voice Mode</h3>
+                        <ul>
+                            <li><strong>POLY</strong>: Every note plays. Best for chords and pads.</li>
+                            <li><strong>MONO</strong>: One note at a time. Each new note restarts the envelopes.</li>
+                            <li><strong>LEGATO</strong>: One note at a time. Overlapping notes change pitch without restarting the envelopes, for smooth basslines and leads.</li>
+                            <li><strong>Priority</strong> (LAST/LOW/HIGH): Which held note plays in MONO and LEGATO. Let go of it and the next held note takes over.</li>
+                            <li><strong>GLIDE</strong> (0-2000ms): Time to slide from one note's pitch to the next. 0 jumps straight to the new note.</li>
+                            <li><strong>Glide Mode</strong>: ALWAYS slides on every note. LEGATO only slides between overlapping notes, so play detached notes for jumps and overlap them for slides.</li>
+                            <li><strong>POLY</strong> (1-32): In POLY mode, the most notes this instrument plays at once, release tails included.</li>
+                            <li><strong>Voice Stealing</strong>: Which note makes way when a new note goes over the limit. The old note fades out in a few milliseconds instead of clicking.
+                                <ul>
+                                    <li><strong>REL</strong>: Released notes first (quietest tail first), then the oldest held note. Best for most sounds.</li>
+                                    <li><strong>OLD</strong>: The oldest note.</li>
+                                    <li><strong>QUIET</strong>: The note with the lowest envelope level.</li>
+                                    <li><strong>SAME</strong>: Replaying a note takes over its own voice, so repeated notes never stack. Otherwise the oldest note.</li>
+                                </ul>
+                            </li>
+                        </ul>
+                        <p>
+                            Recorded and Piano Roll notes keep their overlaps, so slides play back as recorded. Notes that end exactly where the next one starts don't count as overlapping.
                         </p>
                         <h3>Parameters</h3>
                         <ul>
                             <li><strong>Unison Mode</strong>: ON/OFF. When enabled, each note plays multiple slightly detuned copies, creating a thicker, wider sound.</li>
+                            <li><strong>Unison Voices</strong> (1-8): Number of oscillators stacked per note. Each one counts against the 32-oscillator polyphony limit, so large stacks leave room for fewer notes.</li>
                             <li><strong>Unison Detune</strong> (0-50 cents): Amount of detuning between unison voices. Higher values create chorus-like effects. Lower values add subtle thickness.</li>
-                            <li><strong>Noise Amount</strong> (0-100%): Mixes white noise into your sound. Great for:
+                            <li><strong>Unison Width</strong> (0-100%): How far the stacked voices spread across the stereo field. 0% keeps them all centered.</li>
+                            <li><strong>Phase</strong>: RANDOM/RESET. RANDOM starts each voice at a different point in its cycle for a looser sound; RESET starts them together for a punchier attack. Phase applies to the oscillator waves and wavetables - FM, sampler and granular voices always start together.</li>
+                            <li><strong>Noise Amount</strong> (0-100%): Crossfades the oscillators with noise. Noise runs through the same envelope and filter as the oscillators; at 100% only noise is heard. Great for:
                                 <ul>
                                     <li>Adding breath to wind instruments</li>
                                     <li>Creating snare/hi-hat sounds</li>
                                     <li>Adding grit and texture</li>
                                 </ul>
                             </li>
+                            <li><strong>Noise Color</strong> (WHT/PNK/BRN): White is bright and hissy, pink is balanced across octaves, brown is dark and rumbling.</li>
                         </ul>
                         <h3>Tips</h3>
                         <ul>
                             <li>Unison + slight detune (5-15 cents) = lush supersaw lead</li>
+                            <li>LEGATO + GLIDE (50-150ms) = 303-style sliding bassline</li>
                             <li>Noise (10-30%) + short envelope = snare drum</li>
                             <li>Noise (5-10%) + filter = realistic wind/breath sounds</li>
                         </ul>
@@ -290,22 +532,71 @@ export const Manual: React.FC = () => {
                     <hr className="section-divider" />
 
                     {/* EFFECTS */}
+                    <section id="effect-chain" className="manual-section">
+                        <h2>FX Chain</h2>
+                        <p>
+                            Effects run one after another once the voices are mixed together. The standard order is distortion, EQ, compressor, chorus, delay, reverb - add the FX CHAIN module from the module browser to change it for an instrument. The order is saved with the instrument, and switching the module off goes back to the standard order. The standard order only includes chorus, delay and reverb once the instrument uses them - chorus or reverb above 0%, or a Delay or Reverb module added.
+                        </p>
+                        <ul>
+                            <li><strong>▲ / ▼</strong>: Move an effect earlier or later - distortion after the delay dirties every echo</li>
+                            <li><strong>⧉</strong>: Duplicate an effect - the copy starts from the same settings and has its own from then on, so a soft distortion can feed a bitcrushed one or a short delay a long one</li>
+                            <li><strong>✎</strong>: Open a slot's settings. Slots follow their effect's module and knobs until you press <strong>OWN SETTINGS</strong>, which gives that slot its own copy to edit. <strong>FOLLOW MODULE</strong> drops it again. The button is lit on slots with their own settings.</li>
+                            <li><strong>✕</strong>: Take an effect out of the chain</li>
+                            <li><strong>+ ADD EFFECT</strong>: Put an effect back at the end of the chain</li>
+                            <li><strong>RESET ORDER</strong>: Back to the standard chain, dropping every slot's own settings</li>
+                        </ul>
+                        <p>
+                            Notes keep playing while you rearrange, and effects that stay in the chain keep their tails. The filter works on each voice before they're mixed, so it always comes before the chain - chorus before the filter isn't possible.
+                        </p>
+                    </section>
+
                     <section id="distortion" className="manual-section">
                         <h2>Distortion Effect</h2>
                         <p>
                             Distortion adds harmonic saturation and grit to your sounds by clipping and waveshaping the signal.
                         </p>
+                        <h3>Modes</h3>
+                        <ul>
+                            <li><strong>SOFT</strong>: Gentle rounded clipping, the original curve.</li>
+                            <li><strong>TUBE</strong>: Slightly biased saturation that adds even harmonics for a warmer tone.</li>
+                            <li><strong>HARD</strong>: Flat clipping at full scale - bright and buzzy.</li>
+                            <li><strong>FOLD</strong>: Peaks past full scale fold back down, adding more harmonics as drive goes up. Sweep DRIVE for metallic, FM-like tones.</li>
+                            <li><strong>ASYM</strong>: The positive half saturates smoothly while the negative half clips hard and early.</li>
+                            <li><strong>CRUSH</strong>: Bitcrusher - <strong>BITS</strong> (1-16) lowers the bit depth and <strong>DOWN</strong> (1-32) holds each sample for that many samples, lowering the sample rate. DRIVE pushes the signal into it.</li>
+                        </ul>
                         <h3>Parameters</h3>
                         <ul>
                             <li><strong>DRIVE</strong> (0-100): Controls the amount of distortion. Higher values create more aggressive, saturated tones.</li>
+                            <li><strong>MIX</strong> (0-100%): Blend of the distorted and dry signal, for parallel distortion.</li>
+                            <li><strong>TONE</strong> (200-20000Hz): Low-pass filter on the distorted signal. <strong>PRE</strong> filters before the shaper, so less of the highs are distorted. <strong>POST</strong> filters after, taming the fizz the shaper adds.</li>
+                            <li><strong>OFF / 2X / 4X</strong>: Oversampling. The shaper runs at a higher rate to cut the aliasing hard curves create, at some CPU cost.</li>
                             <li><strong>Bypass</strong>: True bypass switch - completely removes the effect from the signal path when off.</li>
                         </ul>
                         <h3>Use Cases</h3>
                         <ul>
-                            <li><strong>Subtle Warmth</strong>: Drive 10-30. Adds analog-style saturation.</li>
-                            <li><strong>Overdrive</strong>: Drive 40-60. Great for guitar-like tones.</li>
-                            <li><strong>Heavy Distortion</strong>: Drive 70-100. Aggressive, industrial sounds.</li>
+                            <li><strong>Subtle Warmth</strong>: Tube, drive 10-30. Adds analog-style saturation.</li>
+                            <li><strong>Overdrive</strong>: Drive 40-60, tone post around 5000. Great for guitar-like tones.</li>
+                            <li><strong>Heavy Distortion</strong>: Hard, drive 70-100, 4x. Aggressive, industrial sounds.</li>
+                            <li><strong>Parallel Grit</strong>: Any mode with mix 30-50 keeps the body of the sound under the distortion.</li>
+                            <li><strong>Lo-Fi</strong>: Crush with 6-8 bits and DOWN 4-8.</li>
+                        </ul>
+                    </section>
+
+                    <section id="eq" className="manual-section">
+                        <h2>Parametric EQ</h2>
+                        <p>
+                            The EQ shapes tone across the whole spectrum, after distortion and before the compressor. Add the EQ module from the module browser to insert it on an instrument - instruments without it aren't EQ'd. The mixer has a second one on the master bus, switched on with its EQ button and saved with the project.
+                        </p>
+                        <h3>Bands</h3>
+                        <ul>
+                            <li><strong>HP / LP</strong>: High-pass and low-pass filters to cut rumble or fizz (off until switched on)</li>
+                            <li><strong>LOW / HIGH</strong>: Shelves that lift or cut everything below or above their frequency</li>
+                            <li><strong>P1 / P2 / P3</strong>: Peaking bands that boost or cut around their frequency</li>
                         </ul>
+                        <h3>Curve Display</h3>
+                        <p>
+                            The green line is the combined response, drawn over the live spectrum. Drag a handle left and right to move its frequency and up and down to change its gain, and double-click a handle to switch its band on or off. The selected band's FREQ, GAIN (-24 to +24dB) and Q knobs sit below - a higher Q makes a narrower peak or a sharper corner.
+                        </p>
                     </section>
 
                     <section id="compressor" className="manual-section">
@@ -313,14 +604,22 @@ export const Manual: React.FC = () => {
                         <p>
                             The Compressor reduces the dynamic range of your sound, making loud parts quieter and quiet parts louder. This creates a more consistent, punchy sound.
                         </p>
-                        <h3>Fixed Parameters</h3>
+                        <p>
+                            Add the COMPRESSOR module from the module browser to use it - instruments without it aren't compressed. The module's power button is a true bypass, and its settings are saved with the instrument.
+                        </p>
+                        <h3>Parameters</h3>
                         <ul>
-                            <li><strong>Threshold</strong>: -24dB (signals above this level are compressed)</li>
-                            <li><strong>Ratio</strong>: 12:1 (aggressive compression)</li>
-                            <li><strong>Attack</strong>: 3ms (fast response)</li>
-                            <li><strong>Release</strong>: 250ms (medium release time)</li>
-                            <li><strong>Bypass</strong>: True bypass switch</li>
+                            <li><strong>THRESH</strong>: Level compression starts at (-60 to 0dB)</li>
+                            <li><strong>RATIO</strong>: How hard signals over the threshold are turned down (1:1 to 20:1)</li>
+                            <li><strong>KNEE</strong>: Range over which compression eases in around the threshold (0-40dB, 0 is a hard knee)</li>
+                            <li><strong>ATTACK</strong>: How fast compression kicks in (0-1000ms)</li>
+                            <li><strong>RELEASE</strong>: How fast it lets go (10-1000ms)</li>
+                            <li><strong>MAKEUP</strong>: Gain after compression to bring the level back up (0-24dB)</li>
                         </ul>
+                        <h3>Gain Reduction Meter</h3>
+                        <p>
+                            The GR bar shows how many dB the compressor is taking off right now, up to 24dB. A few dB on the loudest notes is gentle control - a bar that never drops back means the threshold is too low.
+                        </p>
                         <h3>What It Does</h3>
                         <p>
                             The compressor automatically controls volume, making your sounds more consistent and powerful. Great for:
@@ -360,48 +659,50 @@ export const Manual: React.FC = () => {
                     <section id="delay" className="manual-section">
                         <h2>Delay Effect</h2>
                         <p>
-                            Delay creates echoes of your sound, repeating at a set time interval. It adds space, depth, and rhythmic interest.
+                            Delay creates echoes of your sound, repeating at a set time interval. It adds space, depth, and rhythmic interest. Add the Delay module from <strong>+ MODULES</strong> under EFFECT to hear it - instruments without the module have no echoes. Disabling the module bypasses the delay.
                         </p>
                         <h3>Parameters</h3>
                         <ul>
-                            <li><strong>Wet Level</strong> (0-100%): Amount of delayed signal mixed with the dry signal.</li>
-                            <li><strong>Bypass</strong>: True bypass switch</li>
-                        </ul>
-                        <h3>Fixed Settings</h3>
-                        <ul>
-                            <li>Delay Time: ~250ms (eighth note at 120 BPM)</li>
-                            <li>Feedback: 30% (3-4 audible repeats)</li>
+                            <li><strong>STEREO</strong>: Each side echoes on its own, keeping the stereo image of the sound.</li>
+                            <li><strong>PING-PONG</strong>: Echoes bounce between the left and right speakers.</li>
+                            <li><strong>SYNC</strong>: Locks the echo time to a note division at the current BPM, straight, dotted or triplet. It follows tempo changes.</li>
+                            <li><strong>TIME</strong> (1-2000ms): Echo time when sync is off.</li>
+                            <li><strong>MIX</strong> (0-100%): Level of the echoes. The dry signal always plays at full level.</li>
+                            <li><strong>FDBK</strong> (0-95%): How much of each echo is fed back, setting how many repeats you hear.</li>
+                            <li><strong>LO CUT</strong> / <strong>HI CUT</strong> (Hz): Filters in the feedback path. Each repeat loses more lows or highs, so echoes get thinner or darker as they fade.</li>
                         </ul>
                         <h3>Creative Uses</h3>
                         <ul>
-                            <li><strong>Slapback</strong>: Wet 20-40%. Quick single echo, great for vocals and leads.</li>
-                            <li><strong>Rhythmic Delay</strong>: Wet 50-70%. Creates rhythmic patterns.</li>
-                            <li><strong>Ambient Space</strong>: Wet 60-90%. Creates spacious, atmospheric sounds.</li>
+                            <li><strong>Slapback</strong>: Sync off, 80-120ms, feedback 0-10%. Quick single echo, great for leads.</li>
+                            <li><strong>Rhythmic Delay</strong>: 1/8 dotted, feedback 30-50%. Echoes fall between the beats.</li>
+                            <li><strong>Dub Echo</strong>: Ping-pong, 1/4, feedback 70%+, hi cut around 2000. Repeats bounce and darken as they fade.</li>
                         </ul>
                     </section>
 
                     <section id="reverb" className="manual-section">
                         <h2>Reverb Effect</h2>
                         <p>
-                            Reverb simulates acoustic spaces by adding reflections and ambience to your sound. It can make your music sound like it's being played in a room, hall, or cathedral.
+                            Reverb simulates acoustic spaces by adding reflections and ambience to your sound. It can make your music sound like it's being played in a room, hall, or cathedral. Add the Reverb module from <strong>+ MODULES</strong> under EFFECT to shape it. Disabling the module bypasses the reverb, and instruments without the module use the default room while the reverb level is above 0%. For space shared across tracks, use the mixer's reverb return instead.
                         </p>
                         <h3>Parameters</h3>
                         <ul>
-                            <li><strong>Wet Level</strong> (0-100%): Amount of reverb mixed with the dry signal.</li>
-                            <li><strong>Bypass</strong>: True bypass switch</li>
-                        </ul>
-                        <h3>Technical Details</h3>
-                        <ul>
-                            <li>Type: Convolution reverb with algorithmic impulse response</li>
-                            <li>IR Duration: 2 seconds</li>
-                            <li>Character: Medium room/hall ambience</li>
+                            <li><strong>MIX</strong> (0-100%): Amount of reverb mixed with the dry signal.</li>
+                            <li><strong>PRE</strong> (0-200ms): Gap before the reverb starts. A short pre-delay keeps the attack of notes clear in a big room.</li>
+                            <li><strong>SIZE</strong> (0-100): How long the reflections take to build into a dense tail. Small values sound like a close room, large values like a hall.</li>
+                            <li><strong>DECAY</strong> (0.1-10s): Time for the tail to fade by 60 dB.</li>
+                            <li><strong>DAMP</strong> (0-100): How much faster the high frequencies fade than the lows. Higher values give a darker, softer tail.</li>
+                            <li><strong>WIDTH</strong> (0-100): From a mono tail to fully different left and right channels.</li>
                         </ul>
+                        <h3>Impulse Responses</h3>
+                        <p>
+                            <strong>LOAD IR</strong> loads a recorded impulse response (a WAV of a real space or a hardware reverb) in place of the generated room. It's saved with the instrument and with the project. SIZE, DECAY, DAMP and WIDTH are hidden while an impulse response is loaded, but MIX and PRE still apply. <strong>CLEAR IR</strong> goes back to the generated room.
+                        </p>
                         <h3>Settings Guide</h3>
                         <ul>
-                            <li><strong>Dry/Close</strong>: Wet 10-20%. Adds subtle space without drowning the sound.</li>
-                            <li><strong>Room Sound</strong>: Wet 30-50%. Natural room ambience.</li>
-                            <li><strong>Hall/Cathedral</strong>: Wet 60-80%. Large, spacious reverb.</li>
-                            <li><strong>Ambient Wash</strong>: Wet 90-100%. Extremely wet, atmospheric effect.</li>
+                            <li><strong>Dry/Close</strong>: Mix 10-20%, decay under 1s. Adds subtle space without drowning the sound.</li>
+                            <li><strong>Room Sound</strong>: Mix 30-50%, decay 1-2s. Natural room ambience.</li>
+                            <li><strong>Hall/Cathedral</strong>: Mix 60-80%, size above 70, decay 4-8s with 20-40ms pre-delay. Large, spacious reverb.</li>
+                            <li><strong>Ambient Wash</strong>: Mix 90-100%, decay 10s. Extremely wet, atmospheric effect.</li>
                         </ul>
                     </section>
 
@@ -559,6 +860,7 @@ export const Manual: React.FC = () => {
                             <li><strong>Resize Notes</strong>: Drag the right edge of a note to change duration</li>
                             <li><strong>Select Multiple</strong>: Hold Shift and click to select multiple notes</li>
                             <li><strong>Delete Notes</strong>: Select and press Delete key</li>
+                            <li><strong>Velocity</strong>: Select notes and use the <code>VEL</code> slider in the toolbar (1-127). Quieter notes are drawn fainter.</li>
                         </ul>
                         <h3>Note Range</h3>
                         <ul>
@@ -582,7 +884,25 @@ export const Manual: React.FC = () => {
                             <li><strong>Mute</strong>: Silence a track without deleting it</li>
                             <li><strong>Solo</strong>: Play only this track (mutes all others)</li>
                             <li><strong>Instrument</strong>: Each track can have its own synth configuration</li>
+                            <li><strong>Sidechain</strong>: Synth tracks can duck under a drum sound or another track</li>
                         </ul>
+                        <h3>Sidechain Ducking</h3>
+                        <p>
+                            Pick a source from the drop-down on a synth track's mixer strip and its level dips every time the source plays - the classic pumping pad under a kick. Drum sources key from a single sound, track sources from every note on that track (or every hit, for the drum track).
+                        </p>
+                        <ul>
+                            <li><strong>DEPTH</strong>: How much of the level is taken away on each hit (0-100%)</li>
+                            <li><strong>ATK</strong>: How fast the level drops (0-100ms)</li>
+                            <li><strong>REL</strong>: How long it takes to come back (10-1000ms)</li>
+                            <li><strong>Curve</strong>: LIN recovers evenly, EXP comes back quickly then eases in, LOG stays down and swells back at the end</li>
+                        </ul>
+                        <p>
+                            <strong>Tip:</strong> A frozen drum pattern plays as one recording, so it can't key ducking - unfreeze it to pump.
+                        </p>
+                        <h3>Reverb and Delay Returns</h3>
+                        <p>
+                            The <strong>REV</strong> and <strong>DLY</strong> knobs on each mixer strip send the track to a reverb and a delay shared by every track. One shared room is lighter on the CPU than a reverb per instrument and glues the tracks into the same space. Shape them in the <strong>REVERB RETURN</strong> panel (SIZE, DECAY, PRE, DAMP, WIDTH) and the <strong>DELAY RETURN</strong> panel (the Delay module's controls, minus MIX - the sends set how much of each track echoes). Both are saved with the project.
+                        </p>
                         <h3>Working with Tracks</h3>
                         <ul>
                             <li><strong>Add Track</strong>: Create a new track with default instrument</li>
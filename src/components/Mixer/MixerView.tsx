@@ -0,0 +1,260 @@
+/**
+ * Mixer View - Channel strip per track with fader, pan, sends, sidechain ducking, mute and solo,
+ * plus the reverb and delay returns and the master bus EQ
+ */
+
+import React from 'react';
+import { useTrackStore } from '../../stores/trackStore';
+import { useProjectStore } from '../../stores/projectStore';
+import type { Track } from '../../types/track';
+import type { SidechainSettings } from '../../engines/types';
+import type { DrumSound } from '../../engines/DrumMachine';
+import {
+  RETURN_BUSES,
+  SIDECHAIN_CURVES,
+  DEFAULT_SIDECHAIN,
+  drumSidechainSource,
+  trackSidechainSource
+} from '../../engines/Mixer';
+import type { Mixer } from '../../engines/Mixer';
+import { Knob } from '../Knob/Knob';
+import { EQControls } from '../ModuleSystem/EQControls';
+import { DelayModule } from '../ModuleSystem/DelayModule';
+import { ReverbControls } from '../ModuleSystem/ReverbControls';
+import './MixerView.css';
+
+// Drum sounds that can key ducking
+const DRUM_SOURCES: { sound: DrumSound; label: string }[] = [
+  { sound: 'kick', label: 'Kick' },
+  { sound: 'snare', label: 'Snare' },
+  { sound: 'clap', label: 'Clap' },
+  { sound: 'hihat-closed', label: 'Closed Hat' },
+  { sound: 'hihat-open', label: 'Open Hat' },
+  { sound: 'tom-low', label: 'Low Tom' },
+  { sound: 'tom-high', label: 'High Tom' },
+  { sound: 'ride', label: 'Ride' },
+  { sound: 'crash', label: 'Crash' },
+  { sound: 'rim', label: 'Rim' }
+];
+
+interface MixerViewProps {
+  // For drawing the master EQ curve and spectrum
+  mixer: Mixer | null;
+}
+
+export const MixerView: React.FC<MixerViewProps> = ({ mixer }) => {
+  const {
+    tracks,
+    activeTrackId,
+    setActiveTrack,
+    setTrackVolume,
+    setTrackPan,
+    setTrackSend,
+    setTrackSidechain,
+    setTrackMute,
+    setTrackSolo
+  } = useTrackStore();
+  const {
+    masterEQ,
+    masterEQEnabled,
+    setMasterEQ,
+    setMasterEQEnabled,
+    returnSettings,
+    setReturnSettings
+  } = useProjectStore();
+  const anySoloed = tracks.some(t => t.soloed);
+
+  const updateSidechain = (track: Track, changes: Partial<SidechainSettings>) => {
+    setTrackSidechain(track.id, { ...DEFAULT_SIDECHAIN, ...track.sidechain, ...changes });
+  };
+
+  if (tracks.length === 0) {
+    return <div className="mixer-empty">No tracks</div>;
+  }
+
+  return (
+    <div className="mixer-container">
+      {tracks.map(track => {
+        const audible = !track.muted && (!anySoloed || track.soloed);
+
+        return (
+          <div
+            key={track.id}
+            className={`mixer-strip ${track.id === activeTrackId ? 'active' : ''} ${audible ? '' : 'silent'}`}
+          >
+            <div
+              className="mixer-strip-name"
+              style={{ borderTopColor: track.color }}
+              onClick={() => setActiveTrack(track.id)}
+              title={track.name}
+            >
+              {track.name}
+            </div>
+            <div className="mixer-strip-type">{track.type === 'midi' ? 'SYNTH' : 'DRUMS'}</div>
+
+            <Knob
+              label="PAN"
+              min={-1}
+              max={1}
+              step={0.01}
+              value={track.pan}
+              formatValue={(v) => {
+                const val = Math.round(v * 100);
+                return val === 0 ? 'C' : val < 0 ? `L${-val}` : `R${val}`;
+              }}
+              onChange={(v) => setTrackPan(track.id, v)}
+            />
+
+            <div className="mixer-strip-sends">
+              {RETURN_BUSES.map(bus => (
+                <Knob
+                  key={bus.id}
+                  label={bus.name.substring(0, 3).toUpperCase()}
+                  min={0}
+                  max={100}
+                  step={1}
+                  value={(track.sends?.[bus.id] ?? 0) * 100}
+                  formatValue={(v) => Math.round(v).toString()}
+                  onChange={(v) => setTrackSend(track.id, bus.id, v / 100)}
+                />
+              ))}
+            </div>
+
+            {/* Synth tracks can be ducked by a drum sound or another track */}
+            {track.type === 'midi' && (
+              <div className="mixer-strip-duck">
+                <select
+                  className="mixer-select"
+                  value={track.sidechain?.source ?? ''}
+                  onChange={(e) => e.target.value
+                    ? updateSidechain(track, { source: e.target.value })
+                    : setTrackSidechain(track.id, undefined)}
+                  title="Sidechain source"
+                >
+                  <option value="">NO DUCK</option>
+                  <optgroup label="Drums">
+                    {DRUM_SOURCES.map(({ sound, label }) => (
+                      <option key={sound} value={drumSidechainSource(sound)}>{label}</option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="Tracks">
+                    {tracks.filter(t => t.id !== track.id).map(t => (
+                      <option key={t.id} value={trackSidechainSource(t.id)}>{t.name}</option>
+                    ))}
+                  </optgroup>
+                </select>
+                {track.sidechain?.source && (
+                  <>
+                    <Knob
+                      label="DEPTH"
+                      min={0}
+                      max={100}
+                      step={1}
+                      value={track.sidechain.depth}
+                      formatValue={(v) => Math.round(v).toString()}
+                      onChange={(v) => updateSidechain(track, { depth: Math.round(v) })}
+                    />
+                    <Knob
+                      label="ATK"
+                      min={0}
+                      max={100}
+                      step={1}
+                      value={track.sidechain.attack}
+                      formatValue={(v) => Math.round(v).toString()}
+                      onChange={(v) => updateSidechain(track, { attack: Math.round(v) })}
+                    />
+                    <Knob
+                      label="REL"
+                      min={10}
+                      max={1000}
+                      step={1}
+                      value={track.sidechain.release}
+                      formatValue={(v) => Math.round(v).toString()}
+                      onChange={(v) => updateSidechain(track, { release: Math.round(v) })}
+                    />
+                    <select
+                      className="mixer-select"
+                      value={track.sidechain.curve}
+                      onChange={(e) => updateSidechain(track, { curve: e.target.value as SidechainSettings['curve'] })}
+                      title="Release curve"
+                    >
+                      {SIDECHAIN_CURVES.map(curve => (
+                        <option key={curve.id} value={curve.id}>{curve.label}</option>
+                      ))}
+                    </select>
+                  </>
+                )}
+              </div>
+            )}
+
+            <div className="mixer-strip-buttons">
+              <button
+                className={`mixer-btn mute ${track.muted ? 'active' : ''}`}
+                onClick={() => setTrackMute(track.id, !track.muted)}
+                title="Mute"
+              >
+                M
+              </button>
+              <button
+                className={`mixer-btn solo ${track.soloed ? 'active' : ''}`}
+                onClick={() => setTrackSolo(track.id, !track.soloed)}
+                title="Solo"
+              >
+                S
+              </button>
+            </div>
+
+            <div className="mixer-fader-wrapper">
+              <input
+                type="range"
+                className="mixer-fader"
+                min={0}
+                max={1}
+                step={0.01}
+                value={track.volume}
+                onChange={(e) => setTrackVolume(track.id, parseFloat(e.target.value))}
+              />
+            </div>
+            <div className="mixer-strip-value">{Math.round(track.volume * 100)}</div>
+          </div>
+        );
+      })}
+
+      <div className="mixer-master mixer-return">
+        <div className="mixer-strip-name">REVERB RETURN</div>
+        <ReverbControls
+          settings={returnSettings.reverb}
+          onChange={(reverb) => setReturnSettings({ ...returnSettings, reverb })}
+        />
+      </div>
+
+      <div className="mixer-master mixer-return">
+        <div className="mixer-strip-name">DELAY RETURN</div>
+        <DelayModule
+          parameters={returnSettings.delay}
+          onChange={(delay) => setReturnSettings({ ...returnSettings, delay })}
+          showMix={false}
+        />
+      </div>
+
+      <div className="mixer-master">
+        <div className="mixer-strip-name">MASTER EQ</div>
+        <div className="unison-toggle">
+          <button
+            className={`toggle-btn ${masterEQEnabled ? 'active' : ''}`}
+            onClick={() => setMasterEQEnabled(!masterEQEnabled)}
+          >
+            EQ: {masterEQEnabled ? 'ON' : 'OFF'}
+          </button>
+        </div>
+        <EQControls
+          settings={masterEQ}
+          onChange={setMasterEQ}
+          getResponse={mixer && masterEQEnabled ? (frequencies) => mixer.getMasterEQResponse(frequencies) : null}
+          getSpectrum={mixer ? () => mixer.getMasterFrequencyData() : null}
+          sampleRate={mixer?.getSampleRate() ?? 44100}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,119 @@
+/**
+ * Arpeggiator Module - Mode, octave range, synced rate, gate, swing, latch and what gets recorded
+ * Settings live in the module's own parameters, the record mode in the transport store
+ */
+
+import React from 'react';
+import { useTransportStore } from '../../stores/transportStore';
+import type { ArpSettings } from '../../engines/types';
+import { ARP_MODES, MAX_ARP_OCTAVES, normalizeArpSettings } from '../../engines/Arpeggiator';
+import { NOTE_DIVISIONS } from '../../engines/LFOSource';
+import { DIVISION_MODIFIERS } from './LFOShapeControls';
+import { Knob } from '../Knob/Knob';
+import './Module.css';
+
+interface ArpeggiatorModuleProps {
+  parameters: Record<string, any>;
+  onChange: (parameters: ArpSettings) => void;
+}
+
+export const ArpeggiatorModule: React.FC<ArpeggiatorModuleProps> = ({ parameters, onChange }) => {
+  const { arpRecordMode, setArpRecordMode } = useTransportStore();
+  const settings = normalizeArpSettings(parameters);
+
+  const update = (changes: Partial<ArpSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  return (
+    <div className="arpeggiator-module">
+      <div className="filter-type-selector">
+        {ARP_MODES.map(mode => (
+          <button
+            key={mode.id}
+            className={`filter-type-btn ${settings.mode === mode.id ? 'active' : ''}`}
+            onClick={() => update({ mode: mode.id })}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      <div className="lfo-division-selector">
+        {NOTE_DIVISIONS.map(division => (
+          <button
+            key={division}
+            className={`lfo-wave-btn ${settings.division === division ? 'active' : ''}`}
+            onClick={() => update({ division })}
+          >
+            {division}
+          </button>
+        ))}
+      </div>
+      <div className="filter-type-selector">
+        {DIVISION_MODIFIERS.map(modifier => (
+          <button
+            key={modifier.type}
+            className={`filter-type-btn ${settings.modifier === modifier.type ? 'active' : ''}`}
+            onClick={() => update({ modifier: modifier.type })}
+          >
+            {modifier.label}
+          </button>
+        ))}
+      </div>
+      <div className="knobs-row">
+        <Knob
+          label="OCT"
+          min={1}
+          max={MAX_ARP_OCTAVES}
+          step={1}
+          value={settings.octaves}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ octaves: Math.round(v) })}
+        />
+        <Knob
+          label="GATE"
+          min={10}
+          max={100}
+          step={1}
+          value={settings.gate}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ gate: v })}
+        />
+        <Knob
+          label="SWING"
+          min={0}
+          max={75}
+          step={1}
+          value={settings.swing}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ swing: v })}
+        />
+      </div>
+      <div className="unison-toggle">
+        <button
+          className={`toggle-btn ${settings.latch ? 'active' : ''}`}
+          onClick={() => update({ latch: !settings.latch })}
+          title="Keep arpeggiating after the keys are let go, until the next chord"
+        >
+          LATCH: {settings.latch ? 'ON' : 'OFF'}
+        </button>
+      </div>
+      <div className="lfo-sync-row">
+        <button
+          className={`lfo-wave-btn ${arpRecordMode === 'held' ? 'active' : ''}`}
+          onClick={() => setArpRecordMode('held')}
+          title="Record the notes you hold"
+        >
+          REC HELD
+        </button>
+        <button
+          className={`lfo-wave-btn ${arpRecordMode === 'arpeggiated' ? 'active' : ''}`}
+          onClick={() => setArpRecordMode('arpeggiated')}
+          title="Record the notes the arpeggiator plays"
+        >
+          REC ARP
+        </button>
+      </div>
+    </div>
+  );
+};
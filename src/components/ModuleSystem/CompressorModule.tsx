@@ -0,0 +1,120 @@
+/**
+ * Compressor Module - Threshold, ratio, knee, attack, release and makeup gain, with a gain reduction meter
+ * Settings live in the module's own parameters
+ */
+
+import React, { useEffect, useState } from 'react';
+import type { AudioEngine } from '../../engines/AudioEngine';
+import type { CompressorSettings } from '../../engines/types';
+import { normalizeCompressorSettings } from '../../engines/compressor';
+import { Knob } from '../Knob/Knob';
+import './Module.css';
+
+// Deepest reduction the meter shows, in dB
+const METER_RANGE = 24;
+
+interface CompressorModuleProps {
+  parameters: Record<string, any>;
+  onChange: (parameters: CompressorSettings) => void;
+  // For the gain reduction meter - without one, the meter is hidden
+  audioEngine: AudioEngine | null;
+}
+
+export const CompressorModule: React.FC<CompressorModuleProps> = ({ parameters, onChange, audioEngine }) => {
+  const settings = normalizeCompressorSettings(parameters);
+  const [reduction, setReduction] = useState(0);
+
+  const update = (changes: Partial<CompressorSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  // Poll the engine's gain reduction once a frame
+  useEffect(() => {
+    if (!audioEngine) return;
+    let frame = 0;
+    const poll = () => {
+      const value = Math.round(-audioEngine.getCompressorReduction() * 10) / 10;
+      setReduction(prev => prev === value ? prev : value);
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [audioEngine]);
+
+  return (
+    <div className="compressor-module">
+      {audioEngine && (
+        <div className="compressor-meter" title="Gain reduction">
+          <div className="compressor-meter-label">GR</div>
+          <div className="compressor-meter-track">
+            <div
+              className="compressor-meter-fill"
+              style={{ width: `${Math.min(100, (reduction / METER_RANGE) * 100)}%` }}
+            />
+          </div>
+          <div className="compressor-meter-value">-{reduction.toFixed(1)}</div>
+        </div>
+      )}
+      <div className="knobs-row">
+        <Knob
+          label="THRESH"
+          min={-60}
+          max={0}
+          step={1}
+          value={settings.threshold}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ threshold: Math.round(v) })}
+        />
+        <Knob
+          label="RATIO"
+          min={1}
+          max={20}
+          step={0.1}
+          value={settings.ratio}
+          formatValue={(v) => v.toFixed(1)}
+          onChange={(v) => update({ ratio: Math.round(v * 10) / 10 })}
+        />
+      </div>
+      <div className="knobs-row">
+        <Knob
+          label="KNEE"
+          min={0}
+          max={40}
+          step={1}
+          value={settings.knee}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ knee: Math.round(v) })}
+        />
+        <Knob
+          label="MAKEUP"
+          min={0}
+          max={24}
+          step={0.5}
+          value={settings.makeup}
+          formatValue={(v) => v.toFixed(1)}
+          onChange={(v) => update({ makeup: Math.round(v * 2) / 2 })}
+        />
+      </div>
+      <div className="knobs-row">
+        <Knob
+          label="ATTACK"
+          min={0}
+          max={1000}
+          step={1}
+          value={settings.attack}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ attack: Math.round(v) })}
+        />
+        <Knob
+          label="RELEASE"
+          min={10}
+          max={1000}
+          step={1}
+          value={settings.release}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ release: Math.round(v) })}
+        />
+      </div>
+    </div>
+  );
+};
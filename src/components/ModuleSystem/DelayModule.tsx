@@ -0,0 +1,132 @@
+/**
+ * Delay Module - Stereo or ping-pong echoes, synced or free time, feedback, mix and feedback filters
+ * Settings live in the module's own parameters
+ */
+
+import React from 'react';
+import type { DelaySettings } from '../../engines/types';
+import { DELAY_MODES, MAX_DELAY_TIME, normalizeDelaySettings } from '../../engines/StereoDelay';
+import { NOTE_DIVISIONS } from '../../engines/LFOSource';
+import { DIVISION_MODIFIERS } from './LFOShapeControls';
+import { Knob } from '../Knob/Knob';
+import './Module.css';
+
+interface DelayModuleProps {
+  parameters: Record<string, any>;
+  onChange: (parameters: DelaySettings) => void;
+  // Off for the mixer's delay return, where each track's send sets the level
+  showMix?: boolean;
+}
+
+export const DelayModule: React.FC<DelayModuleProps> = ({ parameters, onChange, showMix = true }) => {
+  const settings = normalizeDelaySettings(parameters);
+
+  const update = (changes: Partial<DelaySettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  return (
+    <div className="delay-module">
+      <div className="lfo-sync-row">
+        {DELAY_MODES.map(mode => (
+          <button
+            key={mode.id}
+            className={`lfo-wave-btn ${settings.mode === mode.id ? 'active' : ''}`}
+            onClick={() => update({ mode: mode.id })}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      <div className="unison-toggle">
+        <button
+          className={`toggle-btn ${settings.sync ? 'active' : ''}`}
+          onClick={() => update({ sync: !settings.sync })}
+          title="Lock the echo time to the tempo"
+        >
+          SYNC: {settings.sync ? 'ON' : 'OFF'}
+        </button>
+      </div>
+      {settings.sync ? (
+        <>
+          <div className="lfo-division-selector">
+            {NOTE_DIVISIONS.map(division => (
+              <button
+                key={division}
+                className={`lfo-wave-btn ${settings.division === division ? 'active' : ''}`}
+                onClick={() => update({ division })}
+              >
+                {division}
+              </button>
+            ))}
+          </div>
+          <div className="filter-type-selector">
+            {DIVISION_MODIFIERS.map(modifier => (
+              <button
+                key={modifier.type}
+                className={`filter-type-btn ${settings.modifier === modifier.type ? 'active' : ''}`}
+                onClick={() => update({ modifier: modifier.type })}
+              >
+                {modifier.label}
+              </button>
+            ))}
+          </div>
+        </>
+      ) : (
+        <div className="knobs-row">
+          <Knob
+            label="TIME"
+            min={1}
+            max={MAX_DELAY_TIME}
+            step={1}
+            value={settings.time}
+            formatValue={(v) => Math.round(v).toString()}
+            onChange={(v) => update({ time: Math.round(v) })}
+          />
+        </div>
+      )}
+      <div className="knobs-row">
+        {showMix && (
+          <Knob
+            label="MIX"
+            min={0}
+            max={100}
+            step={1}
+            value={settings.mix}
+            formatValue={(v) => Math.round(v).toString()}
+            onChange={(v) => update({ mix: Math.round(v) })}
+          />
+        )}
+        <Knob
+          label="FDBK"
+          min={0}
+          max={95}
+          step={1}
+          value={settings.feedback}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ feedback: Math.round(v) })}
+        />
+      </div>
+      <div className="knobs-row">
+        <Knob
+          label="LO CUT"
+          min={20}
+          max={2000}
+          step={1}
+          value={settings.lowCut}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ lowCut: Math.round(v) })}
+        />
+        <Knob
+          label="HI CUT"
+          min={1000}
+          max={20000}
+          step={10}
+          value={settings.highCut}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ highCut: Math.round(v) })}
+        />
+      </div>
+    </div>
+  );
+};
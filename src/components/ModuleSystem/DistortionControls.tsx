@@ -0,0 +1,117 @@
+/**
+ * Distortion Controls - Curve, drive, mix, bitcrush, tone and oversampling
+ * Shared by the distortion module and distortion slots with their own settings in the FX chain
+ */
+
+import React from 'react';
+import type { DistortionSettings } from '../../engines/types';
+import { DISTORTION_MODES, DISTORTION_OVERSAMPLING } from '../../engines/Distortion';
+import { Knob } from '../Knob/Knob';
+import './Module.css';
+
+interface DistortionControlsProps {
+  settings: DistortionSettings;
+  onChange: (settings: DistortionSettings) => void;
+  // Drive, 0-100
+  amount: number;
+  onAmountChange: (amount: number) => void;
+}
+
+export const DistortionControls: React.FC<DistortionControlsProps> = ({ settings, onChange, amount, onAmountChange }) => {
+  const update = (changes: Partial<DistortionSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  return (
+    <>
+      <div className="filter-type-selector">
+        {DISTORTION_MODES.map(mode => (
+          <button
+            key={mode.id}
+            className={`filter-type-btn ${settings.mode === mode.id ? 'active' : ''}`}
+            onClick={() => update({ mode: mode.id })}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      <div className="knobs-row">
+        <Knob
+          label="DRIVE"
+          min={0}
+          max={100}
+          step={1}
+          value={amount}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={onAmountChange}
+        />
+        <Knob
+          label="MIX"
+          min={0}
+          max={100}
+          step={1}
+          value={settings.mix}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ mix: Math.round(v) })}
+        />
+      </div>
+      {settings.mode === 'bitcrush' && (
+        <div className="knobs-row">
+          <Knob
+            label="BITS"
+            min={1}
+            max={16}
+            step={1}
+            value={settings.bits}
+            formatValue={(v) => Math.round(v).toString()}
+            onChange={(v) => update({ bits: Math.round(v) })}
+          />
+          <Knob
+            label="DOWN"
+            min={1}
+            max={32}
+            step={1}
+            value={settings.downsample}
+            formatValue={(v) => Math.round(v).toString()}
+            onChange={(v) => update({ downsample: Math.round(v) })}
+          />
+        </div>
+      )}
+      <div className="knobs-row">
+        <Knob
+          label="TONE"
+          min={200}
+          max={20000}
+          step={10}
+          value={settings.tone}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ tone: Math.round(v) })}
+        />
+      </div>
+      <div className="lfo-sync-row">
+        {(['pre', 'post'] as const).map(position => (
+          <button
+            key={position}
+            className={`lfo-wave-btn ${settings.tonePosition === position ? 'active' : ''}`}
+            onClick={() => update({ tonePosition: position })}
+            title={position === 'pre' ? 'Filter before the shaper' : 'Filter after the shaper'}
+          >
+            {position.toUpperCase()}
+          </button>
+        ))}
+      </div>
+      <div className="filter-type-selector">
+        {DISTORTION_OVERSAMPLING.map(option => (
+          <button
+            key={option.id}
+            className={`filter-type-btn ${settings.oversample === option.id ? 'active' : ''}`}
+            onClick={() => update({ oversample: option.id })}
+            title="Oversampling - cuts aliasing from hard curves at some CPU cost"
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </>
+  );
+};
@@ -1,13 +1,21 @@
 /**
  * Distortion Module Component
+ * Drive and bypass live in the audio store, curve, tone, mix, oversampling and bitcrush in the module's parameters
  */
 
 import React from 'react';
 import { useAudioStore } from '../../stores/audioStore';
-import { Knob } from '../Knob/Knob';
+import type { DistortionSettings } from '../../engines/types';
+import { normalizeDistortionSettings } from '../../engines/Distortion';
+import { DistortionControls } from './DistortionControls';
 import './Module.css';
 
-export const DistortionModule: React.FC = () => {
+interface DistortionModuleProps {
+  parameters: Record<string, any>;
+  onChange: (parameters: DistortionSettings) => void;
+}
+
+export const DistortionModule: React.FC<DistortionModuleProps> = ({ parameters, onChange }) => {
   const { params, distortionBypassed, setDistortionAmount, setDistortionBypass } = useAudioStore();
 
   return (
@@ -20,18 +28,12 @@ export const DistortionModule: React.FC = () => {
           DISTORTION: {distortionBypassed ? 'OFF' : 'ON'}
         </button>
       </div>
-      <div className="knobs-row">
-        <Knob
-          label="DRIVE"
-          min={0}
-          max={100}
-          step={1}
-          value={params.distortionAmount}
-          formatValue={(v) => Math.round(v).toString()}
-          onChange={setDistortionAmount}
-        />
-      </div>
+      <DistortionControls
+        settings={normalizeDistortionSettings(parameters)}
+        onChange={onChange}
+        amount={params.distortionAmount}
+        onAmountChange={setDistortionAmount}
+      />
     </>
   );
 };
-
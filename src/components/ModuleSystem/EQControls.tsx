@@ -0,0 +1,245 @@
+/**
+ * EQ Controls - Frequency response curve over the live spectrum, with draggable band handles and band knobs
+ * Shared by the EQ module and the mixer's master EQ
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { EQBand, EQSettings } from '../../engines/types';
+import { EQ_BANDS, EQ_MIN_FREQUENCY, EQ_MAX_FREQUENCY, EQ_MAX_GAIN, eqBandHasGain } from '../../engines/ParametricEQ';
+import { Knob } from '../Knob/Knob';
+import './Module.css';
+
+// Drawing size of the curve display - the canvas is scaled to fit its container
+const WIDTH = 240;
+const HEIGHT = 120;
+const HANDLE_RADIUS = 4;
+const HIT_RADIUS = 10;
+const GRID_FREQUENCIES = [100, 1000, 10000];
+
+const LOG_RANGE = Math.log10(EQ_MAX_FREQUENCY / EQ_MIN_FREQUENCY);
+const frequencyToX = (frequency: number) => (Math.log10(frequency / EQ_MIN_FREQUENCY) / LOG_RANGE) * WIDTH;
+const xToFrequency = (x: number) => EQ_MIN_FREQUENCY * Math.pow(10, (x / WIDTH) * LOG_RANGE);
+const gainToY = (gain: number) => HEIGHT / 2 - (gain / EQ_MAX_GAIN) * (HEIGHT / 2);
+const yToGain = (y: number) => ((HEIGHT / 2 - y) / (HEIGHT / 2)) * EQ_MAX_GAIN;
+
+// One frequency per pixel column, for the response curve
+const CURVE_FREQUENCIES = Float32Array.from({ length: WIDTH }, (_, x) => xToFrequency(x));
+
+const handleY = (band: EQBand) => eqBandHasGain(band.type) ? gainToY(band.gain) : HEIGHT / 2;
+
+interface EQControlsProps {
+  settings: EQSettings;
+  onChange: (settings: EQSettings) => void;
+  // Response of the EQ being edited, in dB at each frequency
+  getResponse: ((frequencies: Float32Array<ArrayBuffer>) => Float32Array | null) | null;
+  // Live spectrum drawn behind the curve, one byte per analyser bin up to half the sample rate
+  getSpectrum: (() => Uint8Array | null) | null;
+  sampleRate: number;
+}
+
+export const EQControls: React.FC<EQControlsProps> = ({ settings, onChange, getResponse, getSpectrum, sampleRate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [selected, setSelected] = useState(2);
+  const draggingRef = useRef<number | null>(null);
+
+  // The draw loop reads the latest props without restarting
+  const propsRef = useRef({ settings, selected, getResponse, getSpectrum, sampleRate });
+  propsRef.current = { settings, selected, getResponse, getSpectrum, sampleRate };
+
+  const updateBand = (index: number, changes: Partial<EQBand>) => {
+    onChange({
+      bands: settings.bands.map((band, i) => i === index ? { ...band, ...changes } : band)
+    });
+  };
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    let frame = 0;
+
+    const draw = () => {
+      const { settings, selected, getResponse, getSpectrum, sampleRate } = propsRef.current;
+
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+      ctx.strokeStyle = '#222';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (const frequency of GRID_FREQUENCIES) {
+        const x = Math.round(frequencyToX(frequency)) + 0.5;
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, HEIGHT);
+      }
+      for (const gain of [-12, 12]) {
+        ctx.moveTo(0, gainToY(gain) + 0.5);
+        ctx.lineTo(WIDTH, gainToY(gain) + 0.5);
+      }
+      ctx.stroke();
+      ctx.strokeStyle = '#444';
+      ctx.beginPath();
+      ctx.moveTo(0, HEIGHT / 2 + 0.5);
+      ctx.lineTo(WIDTH, HEIGHT / 2 + 0.5);
+      ctx.stroke();
+
+      const spectrum = getSpectrum?.();
+      if (spectrum && spectrum.length > 0) {
+        const binWidth = sampleRate / 2 / spectrum.length;
+        ctx.fillStyle = 'rgba(0, 255, 0, 0.15)';
+        ctx.beginPath();
+        ctx.moveTo(0, HEIGHT);
+        for (let x = 0; x < WIDTH; x++) {
+          const bin = Math.min(spectrum.length - 1, Math.round(CURVE_FREQUENCIES[x] / binWidth));
+          ctx.lineTo(x, HEIGHT - (spectrum[bin] / 255) * HEIGHT);
+        }
+        ctx.lineTo(WIDTH, HEIGHT);
+        ctx.closePath();
+        ctx.fill();
+      }
+
+      const response = getResponse?.(CURVE_FREQUENCIES);
+      if (response) {
+        ctx.strokeStyle = '#0f0';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        for (let x = 0; x < WIDTH; x++) {
+          const y = gainToY(Math.max(-EQ_MAX_GAIN * 1.1, Math.min(EQ_MAX_GAIN * 1.1, response[x])));
+          if (x === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      }
+
+      settings.bands.forEach((band, i) => {
+        ctx.beginPath();
+        ctx.arc(frequencyToX(band.frequency), handleY(band), HANDLE_RADIUS, 0, Math.PI * 2);
+        ctx.fillStyle = band.enabled ? '#0f0' : '#000';
+        ctx.fill();
+        ctx.strokeStyle = i === selected ? '#fff' : band.enabled ? '#0f0' : '#666';
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+      });
+
+      frame = requestAnimationFrame(draw);
+    };
+
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  // Mouse position in drawing coordinates
+  const toCanvas = (e: React.MouseEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * HEIGHT
+    };
+  };
+
+  const bandAt = (x: number, y: number): number | null => {
+    let nearest: number | null = null;
+    let nearestDistance = HIT_RADIUS;
+    settings.bands.forEach((band, i) => {
+      const distance = Math.hypot(frequencyToX(band.frequency) - x, handleY(band) - y);
+      if (distance <= nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    const { x, y } = toCanvas(e);
+    const index = bandAt(x, y);
+    if (index === null) return;
+    setSelected(index);
+    draggingRef.current = index;
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const index = draggingRef.current;
+    if (index === null) return;
+    const { x, y } = toCanvas(e);
+    const band = settings.bands[index];
+    const frequency = Math.max(EQ_MIN_FREQUENCY, Math.min(EQ_MAX_FREQUENCY, Math.round(xToFrequency(x))));
+    const gain = Math.max(-EQ_MAX_GAIN, Math.min(EQ_MAX_GAIN, Math.round(yToGain(y) * 10) / 10));
+    updateBand(index, eqBandHasGain(band.type) ? { frequency, gain } : { frequency });
+  };
+
+  // Double-click a handle to switch its band on or off
+  const handleDoubleClick = (e: React.MouseEvent) => {
+    const { x, y } = toCanvas(e);
+    const index = bandAt(x, y);
+    if (index === null) return;
+    updateBand(index, { enabled: !settings.bands[index].enabled });
+  };
+
+  const band = settings.bands[selected];
+
+  return (
+    <div className="eq-controls">
+      <canvas
+        ref={canvasRef}
+        className="eq-curve"
+        width={WIDTH}
+        height={HEIGHT}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={() => { draggingRef.current = null; }}
+        onMouseLeave={() => { draggingRef.current = null; }}
+        onDoubleClick={handleDoubleClick}
+      />
+      <div className="lfo-wave-selector">
+        {EQ_BANDS.map((b, i) => (
+          <button
+            key={i}
+            className={`lfo-wave-btn ${selected === i ? 'active' : ''}`}
+            onClick={() => setSelected(i)}
+          >
+            {b.label}
+          </button>
+        ))}
+      </div>
+      <div className="unison-toggle">
+        <button
+          className={`toggle-btn ${band.enabled ? 'active' : ''}`}
+          onClick={() => updateBand(selected, { enabled: !band.enabled })}
+        >
+          {EQ_BANDS[selected].label}: {band.enabled ? 'ON' : 'OFF'}
+        </button>
+      </div>
+      <div className="knobs-row">
+        <Knob
+          label="FREQ"
+          min={EQ_MIN_FREQUENCY}
+          max={EQ_MAX_FREQUENCY}
+          step={10}
+          value={band.frequency}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => updateBand(selected, { frequency: Math.round(v) })}
+        />
+        {eqBandHasGain(band.type) && (
+          <Knob
+            label="GAIN"
+            min={-EQ_MAX_GAIN}
+            max={EQ_MAX_GAIN}
+            step={0.5}
+            value={band.gain}
+            formatValue={(v) => v.toFixed(1)}
+            onChange={(v) => updateBand(selected, { gain: Math.round(v * 2) / 2 })}
+          />
+        )}
+        <Knob
+          label="Q"
+          min={0.1}
+          max={18}
+          step={0.1}
+          value={band.q}
+          formatValue={(v) => v.toFixed(1)}
+          onChange={(v) => updateBand(selected, { q: Math.round(v * 10) / 10 })}
+        />
+      </div>
+    </div>
+  );
+};
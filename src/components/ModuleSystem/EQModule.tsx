@@ -0,0 +1,30 @@
+/**
+ * EQ Module - Parametric EQ insert with a draggable response curve over the instrument's spectrum
+ * Settings live in the module's own parameters
+ */
+
+import React from 'react';
+import type { AudioEngine } from '../../engines/AudioEngine';
+import type { EQSettings } from '../../engines/types';
+import { normalizeEQSettings } from '../../engines/ParametricEQ';
+import { EQControls } from './EQControls';
+
+interface EQModuleProps {
+  parameters: Record<string, any>;
+  onChange: (parameters: EQSettings) => void;
+  audioEngine: AudioEngine | null;
+}
+
+export const EQModule: React.FC<EQModuleProps> = ({ parameters, onChange, audioEngine }) => {
+  return (
+    <div className="eq-module">
+      <EQControls
+        settings={normalizeEQSettings(parameters)}
+        onChange={onChange}
+        getResponse={audioEngine ? (frequencies) => audioEngine.getEQResponse(frequencies) : null}
+        getSpectrum={audioEngine ? () => audioEngine.getFrequencyData() : null}
+        sampleRate={audioEngine?.getContext()?.sampleRate ?? 44100}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+/**
+ * FX Chain Module - Reorder, duplicate and remove the instrument's effect slots, and give slots their own settings
+ * The chain lives in the audio store and is saved with the instrument
+ */
+
+import React, { useState } from 'react';
+import { useAudioStore } from '../../stores/audioStore';
+import type { AudioEngine } from '../../engines/AudioEngine';
+import type {
+  CompressorSettings,
+  DelaySettings,
+  DistortionSettings,
+  EffectSlot,
+  EffectType,
+  EQSettings,
+  ReverbSettings
+} from '../../engines/types';
+import { EFFECT_TYPES, DEFAULT_EFFECT_CHAIN, createEffectSlot, normalizeSlotSettings } from '../../engines/effectChain';
+import { Knob } from '../Knob/Knob';
+import { DistortionControls } from './DistortionControls';
+import { EQControls } from './EQControls';
+import { CompressorModule } from './CompressorModule';
+import { DelayModule } from './DelayModule';
+import { ReverbControls } from './ReverbControls';
+import './Module.css';
+
+const effectLabel = (type: EffectType) => EFFECT_TYPES.find(e => e.type === type)?.label ?? type;
+
+interface EffectSlotControlsProps {
+  slotId: string;
+  type: EffectType;
+  settings: Record<string, any>;
+  onChange: (settings: Record<string, any>) => void;
+  audioEngine: AudioEngine | null;
+}
+
+// Controls for one slot's own settings - the module's controls, with the wet level alongside
+const EffectSlotControls: React.FC<EffectSlotControlsProps> = ({ slotId, type, settings: raw, onChange, audioEngine }) => {
+  const settings = normalizeSlotSettings(type, raw);
+  const setAmount = (amount: number) => onChange({ ...settings, amount: Math.round(amount) });
+
+  switch (type) {
+    case 'distortion':
+      return (
+        <DistortionControls
+          settings={settings as DistortionSettings}
+          onChange={(changes) => onChange({ ...changes, amount: settings.amount })}
+          amount={settings.amount}
+          onAmountChange={setAmount}
+        />
+      );
+    case 'eq':
+      return (
+        <EQControls
+          settings={settings as EQSettings}
+          onChange={onChange}
+          getResponse={audioEngine ? (frequencies) => audioEngine.getEQResponse(frequencies, slotId) : null}
+          getSpectrum={audioEngine ? () => audioEngine.getFrequencyData() : null}
+          sampleRate={audioEngine?.getContext()?.sampleRate ?? 44100}
+        />
+      );
+    case 'compressor':
+      return (
+        <CompressorModule
+          parameters={settings as CompressorSettings}
+          onChange={onChange}
+          audioEngine={null}
+        />
+      );
+    case 'chorus':
+      return (
+        <div className="knobs-row">
+          <Knob
+            label="MIX"
+            min={0}
+            max={100}
+            step={1}
+            value={settings.amount}
+            formatValue={(v) => Math.round(v).toString()}
+            onChange={setAmount}
+          />
+        </div>
+      );
+    case 'delay':
+      return <DelayModule parameters={settings as DelaySettings} onChange={onChange} />;
+    case 'reverb':
+      return (
+        <ReverbControls
+          settings={settings as ReverbSettings}
+          onChange={(changes) => onChange({ ...changes, amount: settings.amount })}
+          amount={settings.amount}
+          onAmountChange={setAmount}
+        />
+      );
+  }
+};
+
+interface EffectChainModuleProps {
+  // Where a slot's own settings are copied from, and for drawing EQ curves
+  audioEngine: AudioEngine | null;
+}
+
+export const EffectChainModule: React.FC<EffectChainModuleProps> = ({ audioEngine }) => {
+  const { effectChain, setEffectChain } = useAudioStore();
+  const chain = effectChain ?? DEFAULT_EFFECT_CHAIN;
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // A slot's current settings, to start a copy or its own settings from
+  const copySettings = (slot: EffectSlot): Record<string, any> => {
+    if (slot.settings) return JSON.parse(JSON.stringify(slot.settings));
+    return audioEngine?.getEffectSettings(slot.type) ?? normalizeSlotSettings(slot.type, {});
+  };
+
+  const setSlotSettings = (id: string, settings: Record<string, any> | undefined) => {
+    setEffectChain(chain.map(slot => slot.id === id ? { ...slot, settings } : slot));
+  };
+
+  const moveSlot = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= chain.length) return;
+    const next = [...chain];
+    [next[index], next[target]] = [next[target], next[index]];
+    setEffectChain(next);
+  };
+
+  const duplicateSlot = (slot: EffectSlot, index: number) => {
+    const next = [...chain];
+    next.splice(index + 1, 0, createEffectSlot(slot.type, copySettings(slot)));
+    setEffectChain(next);
+  };
+
+  const removeSlot = (id: string) => {
+    setEffectChain(chain.filter(slot => slot.id !== id));
+  };
+
+  return (
+    <div className="effect-chain-module">
+      <div className="effect-chain-label">VOICES + FILTER ↓</div>
+      {chain.length === 0 ? (
+        <div className="sampler-empty">No effects</div>
+      ) : (
+        <div className="effect-chain-list">
+          {chain.map((slot, index) => (
+            <React.Fragment key={slot.id}>
+              <div className="effect-chain-slot">
+                <span className="sampler-zone-name">{index + 1}. {effectLabel(slot.type)}</span>
+                <button
+                  className="mod-slot-remove"
+                  onClick={() => moveSlot(index, -1)}
+                  disabled={index === 0}
+                  title="Move earlier in the chain"
+                >
+                  ▲
+                </button>
+                <button
+                  className="mod-slot-remove"
+                  onClick={() => moveSlot(index, 1)}
+                  disabled={index === chain.length - 1}
+                  title="Move later in the chain"
+                >
+                  ▼
+                </button>
+                <button
+                  className="mod-slot-remove"
+                  onClick={() => duplicateSlot(slot, index)}
+                  title="Duplicate - the copy starts from this slot's settings and is edited on its own"
+                >
+                  ⧉
+                </button>
+                <button
+                  className={`mod-polarity-btn ${slot.settings ? 'active' : ''}`}
+                  onClick={() => setEditingId(editingId === slot.id ? null : slot.id)}
+                  title="Edit this slot's settings"
+                >
+                  ✎
+                </button>
+                <button
+                  className="mod-slot-remove"
+                  onClick={() => removeSlot(slot.id)}
+                  title="Remove from the chain"
+                >
+                  ✕
+                </button>
+              </div>
+              {editingId === slot.id && (
+                <div className="effect-chain-settings">
+                  {slot.settings ? (
+                    <>
+                      <EffectSlotControls
+                        slotId={slot.id}
+                        type={slot.type}
+                        settings={slot.settings}
+                        onChange={(settings) => setSlotSettings(slot.id, settings)}
+                        audioEngine={audioEngine}
+                      />
+                      <div className="unison-toggle">
+                        <button
+                          className="toggle-btn"
+                          onClick={() => setSlotSettings(slot.id, undefined)}
+                          title="Drop this slot's settings and follow the effect's module and knobs again"
+                        >
+                          FOLLOW MODULE
+                        </button>
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div className="effect-chain-label">FOLLOWS THE {effectLabel(slot.type)} CONTROLS</div>
+                      <div className="unison-toggle">
+                        <button
+                          className="toggle-btn"
+                          onClick={() => setSlotSettings(slot.id, copySettings(slot))}
+                          title="Give this slot settings of its own, starting from the current ones"
+                        >
+                          OWN SETTINGS
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+      <div className="effect-chain-label">↓ OUT</div>
+      <select
+        className="mod-select"
+        value=""
+        onChange={(e) => e.target.value && setEffectChain([...chain, createEffectSlot(e.target.value as EffectType)])}
+      >
+        <option value="">+ ADD EFFECT</option>
+        {EFFECT_TYPES.map(({ type, label }) => (
+          <option key={type} value={type}>{label}</option>
+        ))}
+      </select>
+      <div className="unison-toggle">
+        <button
+          className="toggle-btn"
+          onClick={() => setEffectChain(null)}
+          disabled={!effectChain}
+          title="Back to the standard order"
+        >
+          RESET ORDER
+        </button>
+      </div>
+    </div>
+  );
+};
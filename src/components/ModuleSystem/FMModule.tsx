@@ -0,0 +1,141 @@
+/**
+ * FM Module - Operator count, algorithm and per-operator ratio, level and envelope
+ * Settings live in the module's own parameters rather than the audio store
+ */
+
+import React, { useState } from 'react';
+import type { FMOperator, FMSettings } from '../../engines/types';
+import { FM_ALGORITHMS, MIN_FM_OPERATORS, MAX_FM_OPERATORS, normalizeFMSettings } from '../../engines/FMOscillator';
+import { Knob } from '../Knob/Knob';
+import './Module.css';
+
+const OPERATOR_COUNTS = Array.from(
+  { length: MAX_FM_OPERATORS - MIN_FM_OPERATORS + 1 },
+  (_, i) => MIN_FM_OPERATORS + i
+);
+
+interface FMModuleProps {
+  parameters: Record<string, any>;
+  onChange: (parameters: FMSettings) => void;
+}
+
+export const FMModule: React.FC<FMModuleProps> = ({ parameters, onChange }) => {
+  const [selectedOperator, setSelectedOperator] = useState(0);
+  const settings = normalizeFMSettings(parameters);
+  const operatorIndex = Math.min(selectedOperator, settings.operatorCount - 1);
+  const operator = settings.operators[operatorIndex];
+  const algorithm = FM_ALGORITHMS.find(a => a.id === settings.algorithm) ?? FM_ALGORITHMS[0];
+  const isCarrier = algorithm.carriers.includes(operatorIndex);
+
+  const updateOperator = (changes: Partial<FMOperator>) => {
+    onChange({
+      ...settings,
+      operators: settings.operators.map((op, i) => i === operatorIndex ? { ...op, ...changes } : op)
+    });
+  };
+
+  return (
+    <div className="fm-module">
+      <div className="filter-type-selector">
+        {OPERATOR_COUNTS.map(count => (
+          <button
+            key={count}
+            className={`filter-type-btn ${settings.operatorCount === count ? 'active' : ''}`}
+            onClick={() => onChange({ ...settings, operatorCount: count })}
+          >
+            {count} OP
+          </button>
+        ))}
+      </div>
+      <div className="filter-type-selector">
+        {FM_ALGORITHMS.map(a => (
+          <button
+            key={a.id}
+            className={`filter-type-btn ${settings.algorithm === a.id ? 'active' : ''}`}
+            onClick={() => onChange({ ...settings, algorithm: a.id })}
+          >
+            {a.label}
+          </button>
+        ))}
+      </div>
+      <div className="lfo-wave-selector">
+        {settings.operators.slice(0, settings.operatorCount).map((_, i) => (
+          <button
+            key={i}
+            className={`lfo-wave-btn ${operatorIndex === i ? 'active' : ''}`}
+            onClick={() => setSelectedOperator(i)}
+          >
+            OP{i + 1}
+          </button>
+        ))}
+      </div>
+      <div className="knobs-row">
+        <Knob
+          label="RATIO"
+          min={0.25}
+          max={16}
+          step={0.25}
+          value={operator.ratio}
+          formatValue={(v) => v.toFixed(2)}
+          onChange={(v) => updateOperator({ ratio: v })}
+        />
+        <Knob
+          label="FINE"
+          min={-100}
+          max={100}
+          step={1}
+          value={operator.fine}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => updateOperator({ fine: v })}
+        />
+        <Knob
+          label={isCarrier ? 'LEVEL' : 'INDEX'}
+          min={0}
+          max={1}
+          step={0.01}
+          value={operator.level}
+          formatValue={(v) => Math.round(v * 100).toString()}
+          onChange={(v) => updateOperator({ level: v })}
+        />
+      </div>
+      <div className="knobs-row">
+        <Knob
+          label="ATK"
+          min={0}
+          max={5000}
+          step={1}
+          value={operator.attack}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => updateOperator({ attack: v })}
+        />
+        <Knob
+          label="DEC"
+          min={0}
+          max={5000}
+          step={1}
+          value={operator.decay}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => updateOperator({ decay: v })}
+        />
+        <Knob
+          label="SUS"
+          min={0}
+          max={1}
+          step={0.01}
+          value={operator.sustain}
+          formatValue={(v) => Math.round(v * 100).toString()}
+          onChange={(v) => updateOperator({ sustain: v })}
+        />
+        <Knob
+          label="REL"
+          min={0}
+          max={5000}
+          step={1}
+          value={operator.release}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => updateOperator({ release: v })}
+        />
+      </div>
+    </div>
+  );
+};
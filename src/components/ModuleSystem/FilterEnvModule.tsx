@@ -8,7 +8,15 @@ import { Knob } from '../Knob/Knob';
 import './Module.css';
 
 export const FilterEnvModule: React.FC = () => {
-  const { params, setFilterEnvAttack, setFilterEnvDecay, setFilterEnvAmount } = useAudioStore();
+  const {
+    params,
+    setFilterEnvAttack,
+    setFilterEnvDecay,
+    setFilterEnvSustain,
+    setFilterEnvRelease,
+    setFilterEnvAmount,
+    setFilterEnvVelocity
+  } = useAudioStore();
 
   return (
     <div className="filter-env-module">
@@ -31,6 +39,24 @@ export const FilterEnvModule: React.FC = () => {
           formatValue={(v) => Math.round(v).toString()}
           onChange={setFilterEnvDecay}
         />
+        <Knob
+          label="SUS"
+          min={0}
+          max={100}
+          step={1}
+          value={(params.filterEnvSustain ?? 0) * 100}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => setFilterEnvSustain(v / 100)}
+        />
+        <Knob
+          label="REL"
+          min={0}
+          max={2000}
+          step={1}
+          value={params.filterEnvRelease ?? 200}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={setFilterEnvRelease}
+        />
       </div>
       <div className="knobs-row">
         <Knob
@@ -42,6 +68,15 @@ export const FilterEnvModule: React.FC = () => {
           formatValue={(v) => Math.round(v).toString()}
           onChange={setFilterEnvAmount}
         />
+        <Knob
+          label="VEL"
+          min={0}
+          max={100}
+          step={1}
+          value={params.filterEnvVelocity ?? 0}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={setFilterEnvVelocity}
+        />
       </div>
     </div>
   );
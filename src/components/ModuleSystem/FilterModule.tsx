@@ -8,7 +8,7 @@ import { Knob } from '../Knob/Knob';
 import './Module.css';
 
 export const FilterModule: React.FC = () => {
-  const { params, filterBypassed, setFilterCutoff, setFilterResonance, setFilterType, setFilterBypass } = useAudioStore();
+  const { params, filterBypassed, setFilterCutoff, setFilterResonance, setFilterType, setFilterBypass, setFilterKeyTracking } = useAudioStore();
 
   return (
     <>
@@ -59,6 +59,15 @@ export const FilterModule: React.FC = () => {
           formatValue={(v) => v.toFixed(1)}
           onChange={setFilterResonance}
         />
+        <Knob
+          label="KEY"
+          min={0}
+          max={100}
+          step={1}
+          value={params.filterKeyTracking ?? 0}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={setFilterKeyTracking}
+        />
       </div>
     </>
   );
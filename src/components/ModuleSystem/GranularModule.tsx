@@ -0,0 +1,130 @@
+/**
+ * Granular Module - Source loading, grain position, spray, size, density, pitch and envelope shape
+ * Grain settings live in the module's own parameters, the source audio in the audio store
+ */
+
+import React from 'react';
+import { useAudioStore } from '../../stores/audioStore';
+import { useSequencerStore } from '../../stores/sequencerStore';
+import type { GranularSettings } from '../../engines/types';
+import { GRAIN_SHAPES, createGranularSample, normalizeGranularSettings } from '../../engines/Granular';
+import { Knob } from '../Knob/Knob';
+import './Module.css';
+
+interface GranularModuleProps {
+  parameters: Record<string, any>;
+  onChange: (parameters: GranularSettings) => void;
+}
+
+export const GranularModule: React.FC<GranularModuleProps> = ({ parameters, onChange }) => {
+  const { granularSample, setGranularSample } = useAudioStore();
+  const frozenBuffer = useSequencerStore(state => state.frozenBuffer);
+  const settings = normalizeGranularSettings(parameters);
+
+  const update = (changes: Partial<GranularSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  const handleLoadFile = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'audio/*';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        setGranularSample(await createGranularSample(file));
+      } catch (err) {
+        console.error('Failed to load granular source:', err);
+        alert('Could not read that audio file');
+      }
+    };
+    input.click();
+  };
+
+  const handleUseFrozen = async () => {
+    if (!frozenBuffer) return;
+    setGranularSample(await createGranularSample(frozenBuffer, 'Drum freeze'));
+  };
+
+  return (
+    <div className="granular-module">
+      <div className="granular-source">
+        {granularSample ? granularSample.name : 'No source loaded'}
+      </div>
+      <div className="lfo-sync-row">
+        <button className="lfo-wave-btn" onClick={handleLoadFile}>
+          LOAD FILE
+        </button>
+        <button
+          className="lfo-wave-btn"
+          onClick={handleUseFrozen}
+          disabled={!frozenBuffer}
+          title={frozenBuffer ? 'Use the frozen drum pattern' : 'Freeze a pattern in the sequencer first'}
+        >
+          DRUM FREEZE
+        </button>
+      </div>
+      <div className="lfo-wave-selector">
+        {GRAIN_SHAPES.map(shape => (
+          <button
+            key={shape.id}
+            className={`lfo-wave-btn ${settings.shape === shape.id ? 'active' : ''}`}
+            onClick={() => update({ shape: shape.id })}
+          >
+            {shape.label}
+          </button>
+        ))}
+      </div>
+      <div className="knobs-row">
+        <Knob
+          label="POS"
+          min={0}
+          max={1}
+          step={0.01}
+          value={settings.position}
+          formatValue={(v) => Math.round(v * 100).toString()}
+          onChange={(v) => update({ position: v })}
+        />
+        <Knob
+          label="SPRAY"
+          min={0}
+          max={1000}
+          step={1}
+          value={settings.spray}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ spray: v })}
+        />
+        <Knob
+          label="SIZE"
+          min={10}
+          max={500}
+          step={1}
+          value={settings.grainSize}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ grainSize: v })}
+        />
+      </div>
+      <div className="knobs-row">
+        <Knob
+          label="DENS"
+          min={1}
+          max={100}
+          step={1}
+          value={settings.density}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ density: v })}
+        />
+        <Knob
+          label="PITCH"
+          min={-24}
+          max={24}
+          step={1}
+          value={settings.pitch}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ pitch: Math.round(v) })}
+        />
+      </div>
+    </div>
+  );
+};
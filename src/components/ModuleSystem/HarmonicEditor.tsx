@@ -0,0 +1,144 @@
+/**
+ * Harmonic Editor - Draw or type amplitudes and phases for the oscillator's custom wave
+ */
+
+import React, { useRef, useState } from 'react';
+import { HARMONIC_COUNT, HARMONIC_PRESETS, DEFAULT_HARMONIC_PHASES } from '../../engines/harmonics';
+import './Module.css';
+
+type EditMode = 'amplitude' | 'phase';
+
+interface HarmonicEditorProps {
+  amplitudes: number[];
+  phases: number[];
+  onAmplitudesChange: (amplitudes: number[]) => void;
+  onPhasesChange: (phases: number[]) => void;
+}
+
+export const HarmonicEditor: React.FC<HarmonicEditorProps> = ({
+  amplitudes,
+  phases,
+  onAmplitudesChange,
+  onPhasesChange
+}) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const drawingRef = useRef(false);
+  const [mode, setMode] = useState<EditMode>('amplitude');
+  const [selected, setSelected] = useState(0);
+
+  // Bar heights from 0 to 1 - phases span 0 to 360 degrees
+  const values = mode === 'amplitude' ? amplitudes : phases.map(p => p / 360);
+
+  const setHarmonic = (index: number, amplitude: number | null, phase: number | null) => {
+    if (amplitude !== null) {
+      const next = [...amplitudes];
+      next[index] = Math.max(0, Math.min(1, amplitude));
+      onAmplitudesChange(next);
+    }
+    if (phase !== null) {
+      const next = [...phases];
+      next[index] = Math.max(0, Math.min(360, phase));
+      onPhasesChange(next);
+    }
+  };
+
+  const drawAt = (clientX: number, clientY: number) => {
+    const rect = editorRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    const index = Math.floor(((clientX - rect.left) / rect.width) * HARMONIC_COUNT);
+    if (index < 0 || index >= HARMONIC_COUNT) return;
+
+    const value = Math.max(0, Math.min(1, 1 - (clientY - rect.top) / rect.height));
+    setSelected(index);
+    if (mode === 'amplitude') {
+      setHarmonic(index, value, null);
+    } else {
+      setHarmonic(index, null, Math.round(value * 360));
+    }
+  };
+
+  return (
+    <div className="harmonic-editor">
+      <div className="lfo-wave-selector">
+        {HARMONIC_PRESETS.map(preset => (
+          <button
+            key={preset.id}
+            className="lfo-wave-btn"
+            onClick={() => {
+              onAmplitudesChange(preset.amplitudes);
+              onPhasesChange(DEFAULT_HARMONIC_PHASES);
+            }}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      <div className="lfo-sync-row">
+        <button
+          className={`lfo-wave-btn ${mode === 'amplitude' ? 'active' : ''}`}
+          onClick={() => setMode('amplitude')}
+        >
+          AMP
+        </button>
+        <button
+          className={`lfo-wave-btn ${mode === 'phase' ? 'active' : ''}`}
+          onClick={() => setMode('phase')}
+        >
+          PHASE
+        </button>
+      </div>
+      <div
+        ref={editorRef}
+        className="lfo-shape-editor harmonic-bars"
+        onMouseDown={(e) => {
+          drawingRef.current = true;
+          drawAt(e.clientX, e.clientY);
+        }}
+        onMouseMove={(e) => {
+          if (drawingRef.current) drawAt(e.clientX, e.clientY);
+        }}
+        onMouseUp={() => { drawingRef.current = false; }}
+        onMouseLeave={() => { drawingRef.current = false; }}
+      >
+        {values.map((value, i) => (
+          <div key={i} className="lfo-shape-bar-slot">
+            <div
+              className={`lfo-shape-bar ${i === selected ? 'selected' : ''}`}
+              style={{ top: `${100 - value * 100}%`, height: `${value * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="harmonic-input-row">
+        <span className="harmonic-input-label">H</span>
+        <input
+          type="number"
+          className="harmonic-input"
+          min={1}
+          max={HARMONIC_COUNT}
+          value={selected + 1}
+          onChange={(e) => setSelected(Math.max(0, Math.min(HARMONIC_COUNT - 1, Number(e.target.value) - 1)))}
+        />
+        <span className="harmonic-input-label">AMP</span>
+        <input
+          type="number"
+          className="harmonic-input"
+          min={0}
+          max={100}
+          value={Math.round((amplitudes[selected] ?? 0) * 100)}
+          onChange={(e) => setHarmonic(selected, Number(e.target.value) / 100, null)}
+        />
+        <span className="harmonic-input-label">PH</span>
+        <input
+          type="number"
+          className="harmonic-input"
+          min={0}
+          max={360}
+          value={Math.round(phases[selected] ?? 0)}
+          onChange={(e) => setHarmonic(selected, null, Number(e.target.value))}
+        />
+      </div>
+    </div>
+  );
+};
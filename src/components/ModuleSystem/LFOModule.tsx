@@ -5,10 +5,22 @@
 import React from 'react';
 import { useAudioStore } from '../../stores/audioStore';
 import { Knob } from '../Knob/Knob';
+import { LFOShapeControls } from './LFOShapeControls';
 import './Module.css';
 
 export const LFOModule: React.FC = () => {
-  const { params, setLFORate, setLFODepth, setLFOWaveType, setLFOTarget } = useAudioStore();
+  const {
+    params,
+    setLFORate,
+    setLFODepth,
+    setLFOWaveType,
+    setLFOTarget,
+    setLFOSync,
+    setLFODivision,
+    setLFODivisionModifier,
+    setLFORetrigger,
+    setLFOCustomShape
+  } = useAudioStore();
 
   return (
     <>
@@ -32,16 +44,27 @@ export const LFOModule: React.FC = () => {
           PIT
         </button>
       </div>
-      <div className="knobs-row">
-        <Knob
-          label="RATE"
-          min={0.1}
-          max={20}
-          step={0.1}
-          value={params.lfoRate}
-          formatValue={(v) => v.toFixed(1)}
-          onChange={setLFORate}
-        />
+      <LFOShapeControls
+        timing={{
+          shape: params.lfoWaveType,
+          rate: params.lfoRate,
+          sync: params.lfoSync,
+          division: params.lfoDivision,
+          modifier: params.lfoDivisionModifier,
+          retrigger: params.lfoRetrigger,
+          customShape: params.lfoCustomShape
+        }}
+        minRate={0.1}
+        onChange={(changes) => {
+          if (changes.shape !== undefined) setLFOWaveType(changes.shape);
+          if (changes.rate !== undefined) setLFORate(changes.rate);
+          if (changes.sync !== undefined) setLFOSync(changes.sync);
+          if (changes.division !== undefined) setLFODivision(changes.division);
+          if (changes.modifier !== undefined) setLFODivisionModifier(changes.modifier);
+          if (changes.retrigger !== undefined) setLFORetrigger(changes.retrigger);
+          if (changes.customShape !== undefined) setLFOCustomShape(changes.customShape);
+        }}
+      >
         <Knob
           label="DEPTH"
           min={0}
@@ -51,33 +74,7 @@ export const LFOModule: React.FC = () => {
           formatValue={(v) => Math.round(v).toString()}
           onChange={setLFODepth}
         />
-      </div>
-      <div className="lfo-wave-selector">
-        <button
-          className={`lfo-wave-btn ${params.lfoWaveType === 'sine' ? 'active' : ''}`}
-          onClick={() => setLFOWaveType('sine')}
-        >
-          SIN
-        </button>
-        <button
-          className={`lfo-wave-btn ${params.lfoWaveType === 'triangle' ? 'active' : ''}`}
-          onClick={() => setLFOWaveType('triangle')}
-        >
-          TRI
-        </button>
-        <button
-          className={`lfo-wave-btn ${params.lfoWaveType === 'square' ? 'active' : ''}`}
-          onClick={() => setLFOWaveType('square')}
-        >
-          SQR
-        </button>
-        <button
-          className={`lfo-wave-btn ${params.lfoWaveType === 'sawtooth' ? 'active' : ''}`}
-          onClick={() => setLFOWaveType('sawtooth')}
-        >
-          SAW
-        </button>
-      </div>
+      </LFOShapeControls>
     </>
   );
 };
@@ -0,0 +1,168 @@
+/**
+ * LFO Shape Controls - Shape, rate or tempo division, retrigger and the custom shape editor
+ * Shared by the LFO module and the modulation matrix LFO page
+ */
+
+import React, { useRef } from 'react';
+import type { LFOShape, LFOTiming, DivisionModifier } from '../../engines/types';
+import { NOTE_DIVISIONS } from '../../engines/LFOSource';
+import { Knob } from '../Knob/Knob';
+import './Module.css';
+
+const LFO_SHAPES: { type: LFOShape; label: string }[] = [
+  { type: 'sine', label: 'SIN' },
+  { type: 'triangle', label: 'TRI' },
+  { type: 'square', label: 'SQR' },
+  { type: 'sawtooth', label: 'SAW' },
+  { type: 'sampleHold', label: 'S&H' },
+  { type: 'randomSmooth', label: 'RND' },
+  { type: 'custom', label: 'CUS' }
+];
+
+export const DIVISION_MODIFIERS: { type: DivisionModifier; label: string }[] = [
+  { type: 'straight', label: 'STR' },
+  { type: 'dotted', label: 'DOT' },
+  { type: 'triplet', label: 'TRI' }
+];
+
+interface LFOShapeControlsProps {
+  timing: LFOTiming;
+  minRate: number;
+  onChange: (changes: Partial<LFOTiming>) => void;
+  // Extra knobs shown next to RATE
+  children?: React.ReactNode;
+}
+
+interface CustomShapeEditorProps {
+  points: number[];
+  onChange: (points: number[]) => void;
+}
+
+/**
+ * Bar editor for the custom shape - click or drag across the bars to draw
+ */
+const CustomShapeEditor: React.FC<CustomShapeEditorProps> = ({ points, onChange }) => {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const drawingRef = useRef(false);
+
+  const drawAt = (clientX: number, clientY: number) => {
+    const rect = editorRef.current?.getBoundingClientRect();
+    if (!rect) return;
+
+    const index = Math.floor(((clientX - rect.left) / rect.width) * points.length);
+    if (index < 0 || index >= points.length) return;
+
+    const value = 1 - ((clientY - rect.top) / rect.height) * 2;
+    const next = [...points];
+    next[index] = Math.max(-1, Math.min(1, value));
+    onChange(next);
+  };
+
+  return (
+    <div
+      ref={editorRef}
+      className="lfo-shape-editor"
+      onMouseDown={(e) => {
+        drawingRef.current = true;
+        drawAt(e.clientX, e.clientY);
+      }}
+      onMouseMove={(e) => {
+        if (drawingRef.current) drawAt(e.clientX, e.clientY);
+      }}
+      onMouseUp={() => { drawingRef.current = false; }}
+      onMouseLeave={() => { drawingRef.current = false; }}
+    >
+      {points.map((point, i) => (
+        <div key={i} className="lfo-shape-bar-slot">
+          <div
+            className="lfo-shape-bar"
+            style={{
+              top: point >= 0 ? `${50 - point * 50}%` : '50%',
+              height: `${Math.abs(point) * 50}%`
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const LFOShapeControls: React.FC<LFOShapeControlsProps> = ({ timing, minRate, onChange, children }) => {
+  return (
+    <>
+      <div className="lfo-wave-selector">
+        {LFO_SHAPES.map(shape => (
+          <button
+            key={shape.type}
+            className={`lfo-wave-btn ${timing.shape === shape.type ? 'active' : ''}`}
+            onClick={() => onChange({ shape: shape.type })}
+          >
+            {shape.label}
+          </button>
+        ))}
+      </div>
+      {timing.shape === 'custom' && (
+        <CustomShapeEditor
+          points={timing.customShape}
+          onChange={(points) => onChange({ customShape: points })}
+        />
+      )}
+      <div className="lfo-sync-row">
+        <button
+          className={`lfo-wave-btn ${timing.sync ? 'active' : ''}`}
+          onClick={() => onChange({ sync: !timing.sync })}
+          title="Lock the rate to the project tempo"
+        >
+          SYNC
+        </button>
+        <button
+          className={`lfo-wave-btn ${timing.retrigger ? 'active' : ''}`}
+          onClick={() => onChange({ retrigger: !timing.retrigger })}
+          title="Restart the cycle on every note, or keep running freely"
+        >
+          {timing.retrigger ? 'RETRIG' : 'FREE'}
+        </button>
+      </div>
+      {timing.sync ? (
+        <>
+          <div className="lfo-division-selector">
+            {NOTE_DIVISIONS.map(division => (
+              <button
+                key={division}
+                className={`lfo-wave-btn ${timing.division === division ? 'active' : ''}`}
+                onClick={() => onChange({ division })}
+              >
+                {division}
+              </button>
+            ))}
+          </div>
+          <div className="filter-type-selector">
+            {DIVISION_MODIFIERS.map(modifier => (
+              <button
+                key={modifier.type}
+                className={`filter-type-btn ${timing.modifier === modifier.type ? 'active' : ''}`}
+                onClick={() => onChange({ modifier: modifier.type })}
+              >
+                {modifier.label}
+              </button>
+            ))}
+          </div>
+          {children && <div className="knobs-row">{children}</div>}
+        </>
+      ) : (
+        <div className="knobs-row">
+          <Knob
+            label="RATE"
+            min={minRate}
+            max={20}
+            step={minRate}
+            value={timing.rate}
+            formatValue={(v) => v.toFixed(minRate < 0.1 ? 2 : 1)}
+            onChange={(v) => onChange({ rate: v })}
+          />
+          {children}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,172 @@
+/**
+ * Modulation Matrix Module - LFOs, envelopes and routing slots
+ */
+
+import React, { useState } from 'react';
+import { useAudioStore } from '../../stores/audioStore';
+import { MOD_DESTINATIONS, MAX_MOD_SLOTS } from '../../engines/ModulationMatrix';
+import type { ModDestination } from '../../engines/types';
+import { Knob } from '../Knob/Knob';
+import { LFOShapeControls } from './LFOShapeControls';
+import './Module.css';
+
+type MatrixPage = 'slots' | 'lfo' | 'env';
+
+export const ModMatrixModule: React.FC = () => {
+  const {
+    modMatrix,
+    updateModLFO,
+    updateModEnvelope,
+    addModSlot,
+    updateModSlot,
+    removeModSlot
+  } = useAudioStore();
+  const [page, setPage] = useState<MatrixPage>('slots');
+
+  const sources = [...modMatrix.lfos, ...modMatrix.envelopes].map(source => source.id);
+
+  return (
+    <div className="mod-matrix-module">
+      <div className="lfo-target-selector">
+        <button
+          className={`lfo-target-btn ${page === 'slots' ? 'active' : ''}`}
+          onClick={() => setPage('slots')}
+        >
+          SLOTS
+        </button>
+        <button
+          className={`lfo-target-btn ${page === 'lfo' ? 'active' : ''}`}
+          onClick={() => setPage('lfo')}
+        >
+          LFO
+        </button>
+        <button
+          className={`lfo-target-btn ${page === 'env' ? 'active' : ''}`}
+          onClick={() => setPage('env')}
+        >
+          ENV
+        </button>
+      </div>
+
+      {page === 'slots' && (
+        <>
+          {modMatrix.slots.map(slot => (
+            <div key={slot.id} className="mod-slot">
+              <div className="mod-slot-route">
+                <select
+                  className="mod-select"
+                  value={slot.source}
+                  onChange={(e) => updateModSlot(slot.id, { source: e.target.value })}
+                >
+                  {sources.map(id => (
+                    <option key={id} value={id}>{id.toUpperCase()}</option>
+                  ))}
+                </select>
+                <span className="mod-slot-arrow">→</span>
+                <select
+                  className="mod-select"
+                  value={slot.destination}
+                  onChange={(e) => updateModSlot(slot.id, { destination: e.target.value as ModDestination })}
+                >
+                  {MOD_DESTINATIONS.map(destination => (
+                    <option key={destination.id} value={destination.id}>{destination.label}</option>
+                  ))}
+                </select>
+                <button
+                  className="mod-slot-remove"
+                  onClick={() => removeModSlot(slot.id)}
+                  title="Remove slot"
+                >
+                  ✕
+                </button>
+              </div>
+              <div className="knobs-row">
+                <Knob
+                  label="DEPTH"
+                  min={-100}
+                  max={100}
+                  step={1}
+                  value={slot.depth}
+                  formatValue={(v) => Math.round(v).toString()}
+                  onChange={(v) => updateModSlot(slot.id, { depth: v })}
+                />
+                <button
+                  className={`mod-polarity-btn ${slot.bipolar ? 'active' : ''}`}
+                  onClick={() => updateModSlot(slot.id, { bipolar: !slot.bipolar })}
+                  title="Bipolar swings both ways, unipolar only adds"
+                >
+                  {slot.bipolar ? 'BI' : 'UNI'}
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            className="toggle-btn"
+            onClick={addModSlot}
+            disabled={modMatrix.slots.length >= MAX_MOD_SLOTS}
+          >
+            + SLOT ({modMatrix.slots.length}/{MAX_MOD_SLOTS})
+          </button>
+        </>
+      )}
+
+      {page === 'lfo' && modMatrix.lfos.map(lfo => (
+        <div key={lfo.id} className="mod-source">
+          <div className="mod-source-label">{lfo.id.toUpperCase()}</div>
+          <LFOShapeControls
+            timing={lfo}
+            minRate={0.01}
+            onChange={(changes) => updateModLFO(lfo.id, changes)}
+          />
+        </div>
+      ))}
+
+      {page === 'env' && modMatrix.envelopes.map(envelope => (
+        <div key={envelope.id} className="mod-source">
+          <div className="mod-source-label">{envelope.id.toUpperCase()}</div>
+          <div className="knobs-row">
+            <Knob
+              label="ATK"
+              min={0}
+              max={5000}
+              step={1}
+              value={envelope.attack}
+              formatValue={(v) => Math.round(v).toString()}
+              onChange={(v) => updateModEnvelope(envelope.id, { attack: v })}
+              sensitivity={1.5}
+            />
+            <Knob
+              label="DEC"
+              min={0}
+              max={5000}
+              step={1}
+              value={envelope.decay}
+              formatValue={(v) => Math.round(v).toString()}
+              onChange={(v) => updateModEnvelope(envelope.id, { decay: v })}
+              sensitivity={1.5}
+            />
+            <Knob
+              label="SUS"
+              min={0}
+              max={100}
+              step={1}
+              value={envelope.sustain * 100}
+              formatValue={(v) => Math.round(v).toString()}
+              onChange={(v) => updateModEnvelope(envelope.id, { sustain: v / 100 })}
+            />
+            <Knob
+              label="REL"
+              min={0}
+              max={5000}
+              step={1}
+              value={envelope.release}
+              formatValue={(v) => Math.round(v).toString()}
+              onChange={(v) => updateModEnvelope(envelope.id, { release: v })}
+              sensitivity={1.5}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -66,7 +66,20 @@ export const ModuleMenu: React.FC<ModuleMenuProps> = ({
       'filter-env-base': '◆',
       'filter-base': '⚡',
       'distortion-base': '⚠',
-      'lfo-base': '⟿'
+      'lfo-base': '⟿',
+      'mod-matrix-base': '⊞',
+      'velocity-base': '▮',
+      'wavetable': '≋',
+      'fm': '⊛',
+      'sampler': '▤',
+      'granular': '⁂',
+      'arpeggiator': '⋰',
+      'tuning': '♮',
+      'reverb': '◌',
+      'delay': '⋯',
+      'compressor': '⊐',
+      'eq': '∽',
+      'effect-chain': '⇅'
     };
     return icons[type] || '◆';
   };
@@ -11,12 +11,30 @@ import { LFOModule } from './LFOModule';
 import { DistortionModule } from './DistortionModule';
 import { VoiceModule } from './VoiceModule';
 import { FilterEnvModule } from './FilterEnvModule';
+import { ModMatrixModule } from './ModMatrixModule';
+import { VelocityModule } from './VelocityModule';
+import { WavetableModule } from './WavetableModule';
+import { FMModule } from './FMModule';
+import { SamplerModule } from './SamplerModule';
+import { GranularModule } from './GranularModule';
+import { ArpeggiatorModule } from './ArpeggiatorModule';
+import { TuningModule } from './TuningModule';
+import { ReverbModule } from './ReverbModule';
+import { DelayModule } from './DelayModule';
+import { CompressorModule } from './CompressorModule';
+import { EQModule } from './EQModule';
+import { EffectChainModule } from './EffectChainModule';
+import type { AudioEngine } from '../../engines/AudioEngine';
 import './ModulePanel.css';
 
 interface ModulePanelProps {
   module: SynthModule;
   onToggle: (moduleId: string, enabled: boolean) => void;
   onRemove: (moduleId: string) => void;
+  // For modules that keep their settings in their own parameters
+  onParametersChange?: (moduleId: string, parameters: Record<string, any>) => void;
+  // For modules that read back from the engine, like meters
+  audioEngine?: AudioEngine | null;
   onDragStart?: (moduleId: string, e: React.MouseEvent) => void;
   onRef?: (el: HTMLDivElement | null) => void;
   isDragging?: boolean;
@@ -26,6 +44,8 @@ export const ModulePanel: React.FC<ModulePanelProps> = ({
   module,
   onToggle,
   onRemove,
+  onParametersChange,
+  audioEngine = null,
   onDragStart,
   onRef,
   isDragging: isDraggingProp = false
@@ -85,9 +105,77 @@ export const ModulePanel: React.FC<ModulePanelProps> = ({
       case 'filter-base':
         return <FilterModule />;
       case 'distortion-base':
-        return <DistortionModule />;
+        return (
+          <DistortionModule
+            parameters={module.parameters}
+            onChange={(parameters) => onParametersChange?.(module.id, parameters)}
+          />
+        );
       case 'lfo-base':
         return <LFOModule />;
+      case 'mod-matrix-base':
+        return <ModMatrixModule />;
+      case 'velocity-base':
+        return <VelocityModule />;
+      case 'wavetable':
+        return <WavetableModule />;
+      case 'fm':
+        return (
+          <FMModule
+            parameters={module.parameters}
+            onChange={(parameters) => onParametersChange?.(module.id, parameters)}
+          />
+        );
+      case 'sampler':
+        return <SamplerModule />;
+      case 'granular':
+        return (
+          <GranularModule
+            parameters={module.parameters}
+            onChange={(parameters) => onParametersChange?.(module.id, parameters)}
+          />
+        );
+      case 'arpeggiator':
+        return (
+          <ArpeggiatorModule
+            parameters={module.parameters}
+            onChange={(parameters) => onParametersChange?.(module.id, parameters)}
+          />
+        );
+      case 'tuning':
+        return <TuningModule />;
+      case 'reverb':
+        return (
+          <ReverbModule
+            parameters={module.parameters}
+            onChange={(parameters) => onParametersChange?.(module.id, parameters)}
+          />
+        );
+      case 'delay':
+        return (
+          <DelayModule
+            parameters={module.parameters}
+            onChange={(parameters) => onParametersChange?.(module.id, parameters)}
+          />
+        );
+      case 'compressor':
+        return (
+          <CompressorModule
+            parameters={module.parameters}
+            onChange={(parameters) => onParametersChange?.(module.id, parameters)}
+            audioEngine={audioEngine}
+          />
+        );
+      case 'eq':
+        return (
+          <EQModule
+            parameters={module.parameters}
+            onChange={(parameters) => onParametersChange?.(module.id, parameters)}
+            audioEngine={audioEngine}
+          />
+        );
+      case 'effect-chain':
+        return <EffectChainModule audioEngine={audioEngine} />;
       default:
         return <div className="module-placeholder">Module parameters and controls</div>;
     }
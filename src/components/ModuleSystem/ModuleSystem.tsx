@@ -7,6 +7,9 @@ import React, { useEffect, useRef, useState, useImperativeHandle, forwardRef } f
 import { ModuleManager, SynthModule } from '../../systems/ModuleManager';
 import { ModuleLayoutManager, ModulePosition } from '../../systems/ModuleLayoutManager';
 import { baseModuleDefinitions } from '../../systems/baseModules';
+import { sourceModuleDefinitions } from '../../systems/sourceModules';
+import { midiModuleDefinitions } from '../../systems/midiModules';
+import { effectModuleDefinitions } from '../../systems/effectModules';
 import { ModulePanel } from './ModulePanel';
 import { ModuleMenu } from './ModuleMenu';
 import type { InstrumentConfiguration } from '../../types/instrument';
@@ -50,6 +53,21 @@ export const ModuleSystem = forwardRef<ModuleSystemRef, ModuleSystemProps>(({ au
       manager.registerModuleType(type, definition);
     });
 
+    // Register source modules - available from the browser, not added by default
+    Object.entries(sourceModuleDefinitions).forEach(([type, definition]) => {
+      manager.registerModuleType(type, definition);
+    });
+
+    // Register MIDI modules - also only added from the browser
+    Object.entries(midiModuleDefinitions).forEach(([type, definition]) => {
+      manager.registerModuleType(type, definition);
+    });
+
+    // Register effect modules - also only added from the browser
+    Object.entries(effectModuleDefinitions).forEach(([type, definition]) => {
+      manager.registerModuleType(type, definition);
+    });
+
     manager.setAudioContext(audioContext);
 
     moduleManagerRef.current = manager;
@@ -63,7 +81,9 @@ export const ModuleSystem = forwardRef<ModuleSystemRef, ModuleSystemProps>(({ au
       'filter-env-base',
       'filter-base',
       'distortion-base',
-      'lfo-base'
+      'lfo-base',
+      'mod-matrix-base',
+      'velocity-base'
     ];
 
     const initialModules = new Map<string, SynthModule>();
@@ -167,6 +187,22 @@ export const ModuleSystem = forwardRef<ModuleSystemRef, ModuleSystemProps>(({ au
     }
   };
 
+  const handleModuleParametersChange = (moduleId: string, parameters: Record<string, any>) => {
+    const module = moduleManagerRef.current?.getModule(moduleId);
+    if (!module) return;
+    module.parameters = parameters;
+
+    // Synced to the instrument config, which applies it to the track's engine
+    setModules(prev => {
+      const next = new Map(prev);
+      const current = next.get(moduleId);
+      if (current) {
+        next.set(moduleId, { ...current, parameters });
+      }
+      return next;
+    });
+  };
+
   const handleDragStart = (moduleId: string, e: React.MouseEvent) => {
     e.preventDefault();
     const moduleElement = moduleRefsRef.current.get(moduleId);
@@ -353,6 +389,8 @@ export const ModuleSystem = forwardRef<ModuleSystemRef, ModuleSystemProps>(({ au
                   module={module}
                   onToggle={handleModuleToggle}
                   onRemove={handleModuleRemove}
+                  onParametersChange={handleModuleParametersChange}
+                  audioEngine={audioEngine}
                   onDragStart={handleDragStart}
                   onRef={(el) => {
                     if (el) {
@@ -5,12 +5,13 @@
 import React from 'react';
 import { useAudioStore } from '../../stores/audioStore';
 import { Knob } from '../Knob/Knob';
+import { HarmonicEditor } from './HarmonicEditor';
 import './Module.css';
 
 export const OscillatorModule: React.FC = () => {
-  const { params, setWaveType } = useAudioStore();
+  const { params, setWaveType, setHarmonicAmplitudes, setHarmonicPhases } = useAudioStore();
 
-  const waveTypes: OscillatorType[] = ['sine', 'square', 'sawtooth', 'triangle'];
+  const waveTypes: OscillatorType[] = ['sine', 'square', 'sawtooth', 'triangle', 'custom'];
 
   return (
     <>
@@ -21,10 +22,18 @@ export const OscillatorModule: React.FC = () => {
             className={`wave-btn ${params.waveType === wave ? 'active' : ''}`}
             onClick={() => setWaveType(wave)}
           >
-            {wave === 'square' ? 'SQR' : wave === 'sawtooth' ? 'SAW' : wave === 'triangle' ? 'TRI' : 'SINE'}
+            {wave === 'square' ? 'SQR' : wave === 'sawtooth' ? 'SAW' : wave === 'triangle' ? 'TRI' : wave === 'custom' ? 'CUS' : 'SINE'}
           </button>
         ))}
       </div>
+      {params.waveType === 'custom' && (
+        <HarmonicEditor
+          amplitudes={params.harmonicAmplitudes}
+          phases={params.harmonicPhases}
+          onAmplitudesChange={setHarmonicAmplitudes}
+          onPhasesChange={setHarmonicPhases}
+        />
+      )}
       <div className="knobs-row">
         <div className="knob-container">
           <Knob
@@ -0,0 +1,103 @@
+/**
+ * Reverb Controls - Wet level, pre-delay and the generated room's size, decay, damping and width
+ * Shared by the reverb module, reverb slots with their own settings in the FX chain and the mixer's reverb return
+ */
+
+import React from 'react';
+import type { ReverbSettings } from '../../engines/types';
+import { MAX_REVERB_PRE_DELAY } from '../../engines/reverbImpulse';
+import { Knob } from '../Knob/Knob';
+import './Module.css';
+
+interface ReverbControlsProps {
+  settings: ReverbSettings;
+  onChange: (settings: ReverbSettings) => void;
+  // Wet level, 0-100 - left out for the mixer's return, where each track's send sets the level
+  amount?: number;
+  onAmountChange?: (amount: number) => void;
+  // Off while a loaded impulse response replaces the generated room
+  showRoom?: boolean;
+}
+
+export const ReverbControls: React.FC<ReverbControlsProps> = ({
+  settings,
+  onChange,
+  amount,
+  onAmountChange,
+  showRoom = true
+}) => {
+  const update = (changes: Partial<ReverbSettings>) => {
+    onChange({ ...settings, ...changes });
+  };
+
+  return (
+    <>
+      <div className="knobs-row">
+        {onAmountChange && (
+          <Knob
+            label="MIX"
+            min={0}
+            max={100}
+            step={1}
+            value={amount ?? 0}
+            formatValue={(v) => Math.round(v).toString()}
+            onChange={onAmountChange}
+          />
+        )}
+        <Knob
+          label="PRE"
+          min={0}
+          max={MAX_REVERB_PRE_DELAY}
+          step={1}
+          value={settings.preDelay}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => update({ preDelay: v })}
+        />
+      </div>
+      {showRoom && (
+        <>
+          <div className="knobs-row">
+            <Knob
+              label="SIZE"
+              min={0}
+              max={100}
+              step={1}
+              value={settings.size}
+              formatValue={(v) => Math.round(v).toString()}
+              onChange={(v) => update({ size: Math.round(v) })}
+            />
+            <Knob
+              label="DECAY"
+              min={0.1}
+              max={10}
+              step={0.1}
+              value={settings.decay}
+              formatValue={(v) => v.toFixed(1)}
+              onChange={(v) => update({ decay: Math.round(v * 10) / 10 })}
+            />
+          </div>
+          <div className="knobs-row">
+            <Knob
+              label="DAMP"
+              min={0}
+              max={100}
+              step={1}
+              value={settings.damping}
+              formatValue={(v) => Math.round(v).toString()}
+              onChange={(v) => update({ damping: Math.round(v) })}
+            />
+            <Knob
+              label="WIDTH"
+              min={0}
+              max={100}
+              step={1}
+              value={settings.width}
+              formatValue={(v) => Math.round(v).toString()}
+              onChange={(v) => update({ width: Math.round(v) })}
+            />
+          </div>
+        </>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,70 @@
+/**
+ * Reverb Module - Wet level, generated room shape and impulse response loading
+ * Room settings live in the module's own parameters, the wet level and loaded impulse in the audio store
+ */
+
+import React from 'react';
+import { useAudioStore } from '../../stores/audioStore';
+import type { ReverbSettings } from '../../engines/types';
+import { createImpulseResponse, normalizeReverbSettings } from '../../engines/reverbImpulse';
+import { ReverbControls } from './ReverbControls';
+import './Module.css';
+
+interface ReverbModuleProps {
+  parameters: Record<string, any>;
+  onChange: (parameters: ReverbSettings) => void;
+}
+
+export const ReverbModule: React.FC<ReverbModuleProps> = ({ parameters, onChange }) => {
+  const { params, setReverbAmount, reverbImpulse, setReverbImpulse } = useAudioStore();
+  const settings = normalizeReverbSettings(parameters);
+
+  const handleLoadImpulse = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'audio/*';
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        setReverbImpulse(await createImpulseResponse(file));
+      } catch (err) {
+        console.error('Failed to load impulse response:', err);
+        alert('Could not read that audio file');
+      }
+    };
+    input.click();
+  };
+
+  return (
+    <div className="reverb-module">
+      <div className="reverb-impulse">
+        {reverbImpulse ? reverbImpulse.name : 'Generated room'}
+      </div>
+      <div className="lfo-sync-row">
+        <button
+          className="lfo-wave-btn"
+          onClick={handleLoadImpulse}
+          title="Load an impulse response WAV - it's saved with the instrument"
+        >
+          LOAD IR
+        </button>
+        <button
+          className="lfo-wave-btn"
+          onClick={() => setReverbImpulse(null)}
+          disabled={!reverbImpulse}
+        >
+          CLEAR IR
+        </button>
+      </div>
+      {/* A loaded impulse response replaces the generated room */}
+      <ReverbControls
+        settings={settings}
+        onChange={onChange}
+        amount={params.reverbAmount}
+        onAmountChange={setReverbAmount}
+        showRoom={!reverbImpulse}
+      />
+    </div>
+  );
+};
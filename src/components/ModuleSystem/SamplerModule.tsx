@@ -0,0 +1,194 @@
+/**
+ * Sampler Module - Sample import, zone list and per-zone key, velocity and loop settings
+ */
+
+import React, { useState } from 'react';
+import { useAudioStore } from '../../stores/audioStore';
+import type { SampleZone } from '../../engines/types';
+import { createSamplerZones, midiNoteToName } from '../../engines/Sampler';
+import { Knob } from '../Knob/Knob';
+import './Module.css';
+
+export const SamplerModule: React.FC = () => {
+  const { sampler, setSampler } = useAudioStore();
+  const [selectedZoneId, setSelectedZoneId] = useState<string | null>(null);
+
+  const zone = sampler.zones.find(z => z.id === selectedZoneId) ?? sampler.zones[0] ?? null;
+  const getSampleName = (z: SampleZone) => sampler.samples.find(s => s.id === z.sampleId)?.name ?? '?';
+
+  const updateZone = (changes: Partial<Omit<SampleZone, 'id' | 'sampleId'>>) => {
+    if (!zone) return;
+    setSampler({
+      ...sampler,
+      zones: sampler.zones.map(z => z.id === zone.id ? { ...z, ...changes } : z)
+    });
+  };
+
+  const removeZone = (id: string) => {
+    const zones = sampler.zones.filter(z => z.id !== id);
+    // Drop samples no zone plays any more
+    const samples = sampler.samples.filter(s => zones.some(z => z.sampleId === s.id));
+    setSampler({ ...sampler, samples, zones });
+  };
+
+  const handleImport = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = 'audio/*';
+    input.multiple = true;
+    input.onchange = async (e) => {
+      const files = Array.from((e.target as HTMLInputElement).files ?? []);
+      if (files.length === 0) return;
+      try {
+        const { samples, zones } = await createSamplerZones(files);
+        const current = useAudioStore.getState().sampler;
+        setSampler({
+          ...current,
+          samples: [...current.samples, ...samples],
+          zones: [...current.zones, ...zones]
+        });
+        setSelectedZoneId(zones[0].id);
+      } catch (err) {
+        console.error('Failed to import samples:', err);
+        alert('Could not read those audio files');
+      }
+    };
+    input.click();
+  };
+
+  return (
+    <div className="sampler-module">
+      <div className="unison-toggle">
+        <button
+          className="toggle-btn"
+          onClick={handleImport}
+          title="Note names in file names (e.g. Piano_C4.wav) set each sample's root and split the keyboard between them"
+        >
+          IMPORT SAMPLES
+        </button>
+      </div>
+      <div className="unison-toggle">
+        <button
+          className={`toggle-btn ${sampler.roundRobin ? 'active' : ''}`}
+          onClick={() => setSampler({ ...sampler, roundRobin: !sampler.roundRobin })}
+          title="Cycle through zones that cover the same key and velocity"
+        >
+          ROUND ROBIN: {sampler.roundRobin ? 'ON' : 'OFF'}
+        </button>
+      </div>
+
+      {sampler.zones.length === 0 ? (
+        <div className="sampler-empty">No samples loaded</div>
+      ) : (
+        <div className="sampler-zone-list">
+          {sampler.zones.map(z => (
+            <div
+              key={z.id}
+              className={`sampler-zone ${zone?.id === z.id ? 'active' : ''}`}
+              onClick={() => setSelectedZoneId(z.id)}
+            >
+              <span className="sampler-zone-name">{getSampleName(z)}</span>
+              <span className="sampler-zone-range">
+                {midiNoteToName(z.lowNote)}-{midiNoteToName(z.highNote)}
+              </span>
+              <button
+                className="mod-slot-remove"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  removeZone(z.id);
+                }}
+                title="Remove zone"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {zone && (
+        <>
+          <div className="knobs-row">
+            <Knob
+              label="ROOT"
+              min={0}
+              max={127}
+              step={1}
+              value={zone.rootNote}
+              formatValue={(v) => midiNoteToName(Math.round(v))}
+              onChange={(v) => updateZone({ rootNote: Math.round(v) })}
+            />
+            <Knob
+              label="LOW"
+              min={0}
+              max={127}
+              step={1}
+              value={zone.lowNote}
+              formatValue={(v) => midiNoteToName(Math.round(v))}
+              onChange={(v) => updateZone({ lowNote: Math.min(Math.round(v), zone.highNote) })}
+            />
+            <Knob
+              label="HIGH"
+              min={0}
+              max={127}
+              step={1}
+              value={zone.highNote}
+              formatValue={(v) => midiNoteToName(Math.round(v))}
+              onChange={(v) => updateZone({ highNote: Math.max(Math.round(v), zone.lowNote) })}
+            />
+          </div>
+          <div className="knobs-row">
+            <Knob
+              label="VEL LO"
+              min={1}
+              max={127}
+              step={1}
+              value={zone.lowVelocity}
+              formatValue={(v) => Math.round(v).toString()}
+              onChange={(v) => updateZone({ lowVelocity: Math.min(Math.round(v), zone.highVelocity) })}
+            />
+            <Knob
+              label="VEL HI"
+              min={1}
+              max={127}
+              step={1}
+              value={zone.highVelocity}
+              formatValue={(v) => Math.round(v).toString()}
+              onChange={(v) => updateZone({ highVelocity: Math.max(Math.round(v), zone.lowVelocity) })}
+            />
+          </div>
+          <div className="unison-toggle">
+            <button
+              className={`toggle-btn ${zone.loop ? 'active' : ''}`}
+              onClick={() => updateZone({ loop: !zone.loop })}
+            >
+              LOOP: {zone.loop ? 'ON' : 'OFF'}
+            </button>
+          </div>
+          {zone.loop && (
+            <div className="knobs-row">
+              <Knob
+                label="START"
+                min={0}
+                max={1}
+                step={0.001}
+                value={zone.loopStart}
+                formatValue={(v) => (v * 100).toFixed(1)}
+                onChange={(v) => updateZone({ loopStart: Math.min(v, zone.loopEnd) })}
+              />
+              <Knob
+                label="END"
+                min={0}
+                max={1}
+                step={0.001}
+                value={zone.loopEnd}
+                formatValue={(v) => (v * 100).toFixed(1)}
+                onChange={(v) => updateZone({ loopEnd: Math.max(v, zone.loopStart) })}
+              />
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+/**
+ * Tuning Module - Built-in temperaments, Scala scale and keyboard map import and the reference pitch
+ * The instrument's tuning lives in the audio store, the one other instruments follow in the project store
+ */
+
+import React from 'react';
+import { useAudioStore } from '../../stores/audioStore';
+import { useProjectStore } from '../../stores/projectStore';
+import type { Tuning } from '../../engines/types';
+import { BUILT_IN_TUNINGS, parseScala, parseKeyboardMap } from '../../engines/tuning';
+import { midiNoteToFrequency, midiNoteToName } from '../../engines/Sampler';
+import { Knob } from '../Knob/Knob';
+import './Module.css';
+
+export const TuningModule: React.FC = () => {
+  const { tuning: instrumentTuning, setTuning } = useAudioStore();
+  const { tuning: projectTuning, setTuning: setProjectTuning } = useProjectStore();
+
+  // Until it's edited the module shows the project tuning the instrument follows
+  const tuning = instrumentTuning ?? projectTuning;
+  const referenceCenter = midiNoteToFrequency(tuning.referenceNote);
+
+  const selectBuiltIn = (builtIn: Tuning) => {
+    setTuning({
+      ...builtIn,
+      referenceNote: tuning.referenceNote,
+      referenceFrequency: tuning.referenceFrequency
+    });
+  };
+
+  const importFile = (accept: string, read: (text: string, fileName: string) => Tuning) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+      try {
+        setTuning(read(await file.text(), file.name));
+      } catch (err) {
+        console.error(`Failed to import ${accept} file:`, err);
+        alert(`Could not read that ${accept} file`);
+      }
+    };
+    input.click();
+  };
+
+  return (
+    <div className="tuning-module">
+      <div className="tuning-name" title={tuning.name}>
+        {tuning.name} · {tuning.scale.length} notes
+        {tuning.keyboardMap && ` · ${tuning.keyboardMap.name}`}
+      </div>
+      <div className="lfo-wave-selector">
+        {BUILT_IN_TUNINGS.map(builtIn => (
+          <button
+            key={builtIn.tuning.id}
+            className={`lfo-wave-btn ${tuning.id === builtIn.tuning.id ? 'active' : ''}`}
+            onClick={() => selectBuiltIn(builtIn.tuning)}
+          >
+            {builtIn.label}
+          </button>
+        ))}
+      </div>
+      <div className="lfo-sync-row">
+        <button
+          className="lfo-wave-btn"
+          onClick={() => importFile('.scl', (text, name) => parseScala(text, name, tuning))}
+          title="Load a Scala scale file"
+        >
+          IMPORT SCL
+        </button>
+        <button
+          className="lfo-wave-btn"
+          onClick={() => importFile('.kbm', (text, name) => parseKeyboardMap(text, name, tuning))}
+          title="Load a Scala keyboard map - it also sets the reference key and frequency"
+        >
+          IMPORT KBM
+        </button>
+      </div>
+      <div className="unison-toggle">
+        <button
+          className="toggle-btn"
+          onClick={() => setTuning({ ...tuning, keyboardMap: null })}
+          disabled={!tuning.keyboardMap}
+          title="Go back to one scale degree per key, starting on middle C"
+        >
+          CLEAR KEYBOARD MAP
+        </button>
+      </div>
+      <div className="knobs-row">
+        <Knob
+          label={`REF ${midiNoteToName(tuning.referenceNote)}`}
+          min={Math.round(referenceCenter * 0.9)}
+          max={Math.round(referenceCenter * 1.1)}
+          step={0.1}
+          value={tuning.referenceFrequency}
+          formatValue={(v) => v.toFixed(1)}
+          onChange={(v) => setTuning({ ...tuning, referenceFrequency: v })}
+        />
+      </div>
+      <div className="lfo-sync-row">
+        <button
+          className={`lfo-wave-btn ${instrumentTuning === null ? 'active' : ''}`}
+          onClick={() => setTuning(null)}
+          title="Follow the project tuning"
+        >
+          PROJECT
+        </button>
+        <button
+          className="lfo-wave-btn"
+          onClick={() => setProjectTuning(tuning)}
+          title="Make this the tuning every instrument without a tuning module plays in"
+        >
+          SET PROJECT
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+/**
+ * Velocity Module Component
+ */
+
+import React from 'react';
+import { useAudioStore } from '../../stores/audioStore';
+import type { VelocityCurve } from '../../engines/types';
+import { Knob } from '../Knob/Knob';
+import './Module.css';
+
+const VELOCITY_CURVES: { type: VelocityCurve; label: string }[] = [
+  { type: 'soft', label: 'SOFT' },
+  { type: 'linear', label: 'LIN' },
+  { type: 'hard', label: 'HARD' }
+];
+
+export const VelocityModule: React.FC = () => {
+  const {
+    params,
+    setVelocityCurve,
+    setVelocityToAmp,
+    setVelocityToCutoff,
+    setVelocityToAttack,
+    setFilterEnvVelocity
+  } = useAudioStore();
+
+  return (
+    <div className="velocity-module">
+      <div className="filter-type-selector">
+        {VELOCITY_CURVES.map(curve => (
+          <button
+            key={curve.type}
+            className={`filter-type-btn ${params.velocityCurve === curve.type ? 'active' : ''}`}
+            onClick={() => setVelocityCurve(curve.type)}
+          >
+            {curve.label}
+          </button>
+        ))}
+      </div>
+      <div className="knobs-row">
+        <Knob
+          label="AMP"
+          min={0}
+          max={100}
+          step={1}
+          value={params.velocityToAmp}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={setVelocityToAmp}
+        />
+        <Knob
+          label="CUT"
+          min={0}
+          max={100}
+          step={1}
+          value={params.velocityToCutoff}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={setVelocityToCutoff}
+        />
+      </div>
+      <div className="knobs-row">
+        <Knob
+          label="ENV"
+          min={0}
+          max={100}
+          step={1}
+          value={params.filterEnvVelocity}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={setFilterEnvVelocity}
+        />
+        <Knob
+          label="ATK"
+          min={-100}
+          max={100}
+          step={1}
+          value={params.velocityToAttack}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={setVelocityToAttack}
+        />
+      </div>
+    </div>
+  );
+};
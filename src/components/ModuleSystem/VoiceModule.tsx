@@ -1,27 +1,145 @@
 /**
- * Voice Module - Unison and noise controls
+ * Voice Module - Voice mode, glide, unison and noise controls
  */
 
 import React from 'react';
 import { useAudioStore } from '../../stores/audioStore';
+import type { VoiceMode, NotePriority, VoiceStealing } from '../../engines/types';
 import { Knob } from '../Knob/Knob';
 import './Module.css';
 
+const VOICE_MODES: { type: VoiceMode; label: string }[] = [
+  { type: 'poly', label: 'POLY' },
+  { type: 'mono', label: 'MONO' },
+  { type: 'legato', label: 'LEGATO' }
+];
+
+const NOTE_PRIORITIES: { type: NotePriority; label: string }[] = [
+  { type: 'last', label: 'LAST' },
+  { type: 'low', label: 'LOW' },
+  { type: 'high', label: 'HIGH' }
+];
+
+const STEALING_MODES: { type: VoiceStealing; label: string; title: string }[] = [
+  { type: 'released', label: 'REL', title: 'Take released notes first, then the oldest' },
+  { type: 'oldest', label: 'OLD', title: 'Take the oldest note' },
+  { type: 'quietest', label: 'QUIET', title: 'Take the quietest note' },
+  { type: 'sameNote', label: 'SAME', title: 'Replaying a note takes its own voice, then the oldest' }
+];
+
 export const VoiceModule: React.FC = () => {
-  const { params, setUnisonDetune, setNoiseAmount } = useAudioStore();
-  const [unisonEnabled, setUnisonEnabled] = React.useState(false);
+  const {
+    params,
+    setUnisonMode,
+    setUnisonVoices,
+    setUnisonDetune,
+    setUnisonWidth,
+    setUnisonRandomPhase,
+    setNoiseAmount,
+    setNoiseColor,
+    setVoiceMode,
+    setNotePriority,
+    setGlideTime,
+    setGlideMode,
+    setPolyphony,
+    setVoiceStealing
+  } = useAudioStore();
 
   return (
     <div className="voice-module">
+      <div className="filter-type-selector">
+        {VOICE_MODES.map(mode => (
+          <button
+            key={mode.type}
+            className={`filter-type-btn ${params.voiceMode === mode.type ? 'active' : ''}`}
+            onClick={() => setVoiceMode(mode.type)}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      {params.voiceMode === 'poly' && (
+        <>
+          <div className="knobs-row">
+            <Knob
+              label="POLY"
+              min={1}
+              max={32}
+              step={1}
+              value={params.polyphony}
+              formatValue={(v) => Math.round(v).toString()}
+              onChange={setPolyphony}
+            />
+          </div>
+          <div className="lfo-wave-selector">
+            {STEALING_MODES.map(mode => (
+              <button
+                key={mode.type}
+                className={`lfo-wave-btn ${params.voiceStealing === mode.type ? 'active' : ''}`}
+                onClick={() => setVoiceStealing(mode.type)}
+                title={mode.title}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+      {params.voiceMode !== 'poly' && (
+        <>
+          <div className="lfo-target-selector">
+            {NOTE_PRIORITIES.map(priority => (
+              <button
+                key={priority.type}
+                className={`lfo-target-btn ${params.notePriority === priority.type ? 'active' : ''}`}
+                onClick={() => setNotePriority(priority.type)}
+                title="Which held note plays"
+              >
+                {priority.label}
+              </button>
+            ))}
+          </div>
+          <div className="knobs-row">
+            <Knob
+              label="GLIDE"
+              min={0}
+              max={2000}
+              step={1}
+              value={params.glideTime}
+              formatValue={(v) => Math.round(v).toString()}
+              onChange={setGlideTime}
+              sensitivity={1.5}
+            />
+          </div>
+          <div className="unison-toggle">
+            <button
+              className={`toggle-btn ${params.glideMode === 'always' ? 'active' : ''}`}
+              onClick={() => setGlideMode(params.glideMode === 'always' ? 'legato' : 'always')}
+              title="Glide on every note, or only between overlapping notes"
+            >
+              GLIDE: {params.glideMode === 'always' ? 'ALWAYS' : 'LEGATO'}
+            </button>
+          </div>
+        </>
+      )}
       <div className="unison-toggle">
         <button
-          className={`toggle-btn ${unisonEnabled ? 'active' : ''}`}
-          onClick={() => setUnisonEnabled(!unisonEnabled)}
+          className={`toggle-btn ${params.unisonMode ? 'active' : ''}`}
+          onClick={() => setUnisonMode(!params.unisonMode)}
         >
-          UNISON: {unisonEnabled ? 'ON' : 'OFF'}
+          UNISON: {params.unisonMode ? 'ON' : 'OFF'}
         </button>
       </div>
       <div className="knobs-row">
+        <Knob
+          label="VOICES"
+          min={1}
+          max={8}
+          step={1}
+          value={params.unisonVoices}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => setUnisonVoices(v)}
+        />
         <Knob
           label="DTUNE"
           min={0}
@@ -31,6 +149,15 @@ export const VoiceModule: React.FC = () => {
           formatValue={(v) => Math.round(v).toString()}
           onChange={(v) => setUnisonDetune(v)}
         />
+        <Knob
+          label="WIDTH"
+          min={0}
+          max={100}
+          step={1}
+          value={params.unisonWidth ?? 50}
+          formatValue={(v) => Math.round(v).toString()}
+          onChange={(v) => setUnisonWidth(v)}
+        />
         <Knob
           label="NOISE"
           min={0}
@@ -41,7 +168,34 @@ export const VoiceModule: React.FC = () => {
           onChange={(v) => setNoiseAmount(v / 100)}
         />
       </div>
+      <div className="noise-color-selector">
+        <button
+          className={`noise-color-btn ${params.noiseColor === 'white' ? 'active' : ''}`}
+          onClick={() => setNoiseColor('white')}
+        >
+          WHT
+        </button>
+        <button
+          className={`noise-color-btn ${params.noiseColor === 'pink' ? 'active' : ''}`}
+          onClick={() => setNoiseColor('pink')}
+        >
+          PNK
+        </button>
+        <button
+          className={`noise-color-btn ${params.noiseColor === 'brown' ? 'active' : ''}`}
+          onClick={() => setNoiseColor('brown')}
+        >
+          BRN
+        </button>
+      </div>
+      <div className="unison-toggle">
+        <button
+          className={`toggle-btn ${params.unisonRandomPhase ? 'active' : ''}`}
+          onClick={() => setUnisonRandomPhase(!params.unisonRandomPhase)}
+        >
+          PHASE: {params.unisonRandomPhase ? 'RANDOM' : 'RESET'}
+        </button>
+      </div>
     </div>
   );
 };
-
@@ -0,0 +1,86 @@
+/**
+ * Wavetable Module - Table selection, position and WAV import
+ */
+
+import React from 'react';
+import { useAudioStore } from '../../stores/audioStore';
+import { BUILT_IN_WAVETABLES, decodeWavetableFiles } from '../../engines/wavetables';
+import { Knob } from '../Knob/Knob';
+import './Module.css';
+
+export const WavetableModule: React.FC = () => {
+  const {
+    params,
+    userWavetable,
+    setWavetable,
+    setWavetablePosition,
+    setUserWavetable
+  } = useAudioStore();
+
+  const handleImport = () => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.wav,audio/wav';
+    input.multiple = true;
+    input.onchange = async (e) => {
+      const files = Array.from((e.target as HTMLInputElement).files ?? []);
+      if (files.length === 0) return;
+      try {
+        const table = await decodeWavetableFiles(files);
+        setUserWavetable(table);
+        setWavetable(table.id);
+      } catch (err) {
+        console.error('Failed to import wavetable:', err);
+        alert('Could not read those WAV files');
+      }
+    };
+    input.click();
+  };
+
+  return (
+    <div className="wavetable-module">
+      <div className="lfo-wave-selector">
+        {BUILT_IN_WAVETABLES.map(table => (
+          <button
+            key={table.id}
+            className={`lfo-wave-btn ${params.wavetable === table.id ? 'active' : ''}`}
+            onClick={() => setWavetable(table.id)}
+          >
+            {table.name}
+          </button>
+        ))}
+      </div>
+      {userWavetable && (
+        <div className="unison-toggle">
+          <button
+            className={`toggle-btn ${params.wavetable === userWavetable.id ? 'active' : ''}`}
+            onClick={() => setWavetable(userWavetable.id)}
+            title={`${userWavetable.frames.length} frame${userWavetable.frames.length === 1 ? '' : 's'}`}
+          >
+            USER: {userWavetable.name.toUpperCase()}
+          </button>
+        </div>
+      )}
+      <div className="knobs-row">
+        <Knob
+          label="POS"
+          min={0}
+          max={1}
+          step={0.01}
+          value={params.wavetablePosition}
+          formatValue={(v) => Math.round(v * 100).toString()}
+          onChange={setWavetablePosition}
+        />
+      </div>
+      <div className="unison-toggle">
+        <button
+          className="toggle-btn"
+          onClick={handleImport}
+          title="Single-cycle WAV files become frames in the order selected - a file holding several 2048-sample cycles is split into frames"
+        >
+          IMPORT WAV
+        </button>
+      </div>
+    </div>
+  );
+};
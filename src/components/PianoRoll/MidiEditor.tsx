@@ -8,7 +8,6 @@ import type { Transport } from '../../engines/Transport';
 import type { AudioEngine } from '../../engines/AudioEngine';
 import type { MidiClip, RecordedMidiEvent } from '../../engines/MidiRecorder';
 import type { DAWCore } from '../../engines/DAWCore';
-import { AudioEngine as AudioEngineClass } from '../../engines/AudioEngine';
 import { useTrackStore } from '../../stores/trackStore';
 import './MidiEditor.css';
 
@@ -384,6 +383,29 @@ export const MidiEditor: React.FC<MidiEditorProps> = ({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [selectedNoteIds, clips, trackId, updateTrack]);
 
+  // Set the velocity of every selected note
+  const handleVelocityChange = (velocity: number) => {
+    const newClips = clips.map(clip => {
+      const hasSelected = clip.events.some(ev =>
+        ev.type === 'noteOn' && selectedNoteIds.has(`${clip.id}:${ev.noteKey}`)
+      );
+      if (!hasSelected) return clip;
+
+      return {
+        ...clip,
+        events: clip.events.map(ev =>
+          ev.type === 'noteOn' && selectedNoteIds.has(`${clip.id}:${ev.noteKey}`)
+            ? { ...ev, velocity }
+            : ev
+        )
+      };
+    });
+    updateTrack(trackId, { clips: newClips });
+  };
+
+  // Velocity shown in the toolbar - the first selected note's
+  const selectedVelocity = editorNotes.find(n => selectedNoteIds.has(n.id))?.velocity ?? 100;
+
   // Double click to create note
   const handleGridDoubleClick = (e: React.MouseEvent) => {
      if (!transport) return;
@@ -488,7 +510,9 @@ export const MidiEditor: React.FC<MidiEditorProps> = ({
       width: `${Math.max(4, width)}px`,
       height: `${keyHeight}px`,
       backgroundColor: selectedNoteIds.has(note.id) ? '#fff' : color,
-      borderColor: selectedNoteIds.has(note.id) ? color : 'rgba(255,255,255,0.5)'
+      borderColor: selectedNoteIds.has(note.id) ? color : 'rgba(255,255,255,0.5)',
+      // Quieter notes are drawn fainter
+      opacity: 0.35 + 0.65 * (Math.max(0, Math.min(127, note.velocity)) / 127)
     };
   };
 
@@ -508,6 +532,19 @@ export const MidiEditor: React.FC<MidiEditorProps> = ({
           <div className="tool-info">
              {selectedNoteIds.size > 0 ? `${selectedNoteIds.size} Selected` : 'Select Notes'}
           </div>
+          {selectedNoteIds.size > 0 && (
+            <label className="velocity-control">
+              VEL
+              <input
+                type="range"
+                min={1}
+                max={127}
+                value={selectedVelocity}
+                onChange={(e) => handleVelocityChange(Number(e.target.value))}
+              />
+              <span className="velocity-value">{selectedVelocity}</span>
+            </label>
+          )}
         </div>
         <button className="editor-close-btn" onClick={onClose}>✕</button>
       </div>
@@ -521,7 +558,10 @@ export const MidiEditor: React.FC<MidiEditorProps> = ({
               <div
                 key={midiNote}
                 className={`piano-key ${isBlack ? 'black-key' : 'white-key'}`}
-                onMouseDown={() => synthEngine?.playNote(AudioEngineClass.midiToFrequency(midiNote), `preview-${midiNote}`)}
+                onMouseDown={() => {
+                  const frequency = synthEngine?.noteToFrequency(midiNote);
+                  if (frequency) synthEngine!.playNote(frequency, `preview-${midiNote}`);
+                }}
                 onMouseUp={() => synthEngine?.releaseNote(`preview-${midiNote}`)}
                 onMouseLeave={() => synthEngine?.releaseNote(`preview-${midiNote}`)}
               >
@@ -576,6 +616,7 @@ export const MidiEditor: React.FC<MidiEditorProps> = ({
                   className={`midi-note ${selectedNoteIds.has(note.id) ? 'selected' : ''}`}
                   style={getNoteStyle(note)}
                   onMouseDown={(e) => handleNoteMouseDown(e, note)}
+                  title={`Velocity ${note.velocity}`}
                 >
                   <div className="resize-handle"></div>
                 </div>
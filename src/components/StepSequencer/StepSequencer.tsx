@@ -87,6 +87,7 @@ export const StepSequencer: React.FC<StepSequencerProps> = ({
     setStepResolution,
     toggleMute,
     setIsFrozen,
+    setFrozenBuffer,
     savePattern,
     loadPattern
   } = useSequencerStore();
@@ -166,6 +167,7 @@ export const StepSequencer: React.FC<StepSequencerProps> = ({
   const handleFreezeToggle = async () => {
     if (isFrozen) {
       setIsFrozen(false);
+      setFrozenBuffer(null);
       if (drumMachine) {
         drumMachine.clearFrozen();
       }
@@ -175,6 +177,7 @@ export const StepSequencer: React.FC<StepSequencerProps> = ({
         const buffer = await drumMachine.renderPattern(patterns, stepCount, stepResolution, bpm);
         if (buffer) {
           setIsFrozen(true);
+          setFrozenBuffer(buffer);
         }
       }
     }
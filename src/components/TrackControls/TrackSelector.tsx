@@ -1,8 +1,83 @@
 import React, { useState } from 'react';
 import { useTrackStore } from '../../stores/trackStore';
 import type { MidiTrack, PercussionTrack } from '../../types/track';
+import type { InstrumentConfiguration } from '../../types/instrument';
+import { DEFAULT_LFO_TIMING } from '../../engines/LFOSource';
+import { DEFAULT_HARMONIC_AMPLITUDES, DEFAULT_HARMONIC_PHASES } from '../../engines/harmonics';
+import { DEFAULT_SAMPLER_CONFIG } from '../../engines/Sampler';
 import './TrackSelector.css';
 
+// Fresh instrument for a new MIDI track
+function createInstrumentConfig(
+  name: string,
+  modules: InstrumentConfiguration['modules'] = [],
+  extra: Partial<InstrumentConfiguration> = {}
+): InstrumentConfiguration {
+  return {
+    id: `instrument_${Date.now()}`,
+    name,
+    isPreset: false,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+    audioParams: {
+      waveType: 'sawtooth',
+      masterVolume: 0.5,
+      attackTime: 0.1,
+      decayTime: 0.3,
+      sustainLevel: 0.5,
+      releaseTime: 0.5,
+      filterCutoff: 2000,
+      filterResonance: 1,
+      filterType: 'lowpass',
+      distortionAmount: 0,
+      lfoRate: 5,
+      lfoDepth: 0,
+      lfoWaveType: 'sine',
+      lfoTarget: 'cutoff',
+      lfoSync: false,
+      lfoDivision: '1/4',
+      lfoDivisionModifier: 'straight',
+      lfoRetrigger: false,
+      lfoCustomShape: DEFAULT_LFO_TIMING.customShape,
+      masterDetune: 0,
+      chorusAmount: 0,
+      reverbAmount: 0,
+      unisonDetune: 0,
+      unisonWidth: 50,
+      unisonRandomPhase: true,
+      noiseAmount: 0,
+      noiseColor: 'white',
+      filterEnvAttack: 0.1,
+      filterEnvDecay: 0.3,
+      filterEnvAmount: 0,
+      filterEnvSustain: 0,
+      filterEnvRelease: 200,
+      filterEnvVelocity: 0,
+      filterKeyTracking: 0,
+      velocityCurve: 'linear',
+      velocityToAmp: 100,
+      velocityToCutoff: 0,
+      velocityToAttack: 0,
+      voiceMode: 'poly',
+      notePriority: 'last',
+      glideTime: 0,
+      glideMode: 'legato',
+      polyphony: 32,
+      voiceStealing: 'released',
+      wavetable: 'basic',
+      wavetablePosition: 0,
+      harmonicAmplitudes: DEFAULT_HARMONIC_AMPLITUDES,
+      harmonicPhases: DEFAULT_HARMONIC_PHASES,
+      unisonMode: false,
+      unisonVoices: 3
+    },
+    filterBypassed: false,
+    distortionBypassed: true,
+    modules,
+    ...extra
+  };
+}
+
 export const TrackSelector: React.FC = () => {
   const { tracks, activeTrackId, setActiveTrack, addTrack } = useTrackStore();
   const [showTrackTypeMenu, setShowTrackTypeMenu] = useState(false);
@@ -14,7 +89,6 @@ export const TrackSelector: React.FC = () => {
 
   const handleAddMidiTrack = () => {
     const trackId = `track_${Date.now()}`;
-    const instrumentId = `instrument_${Date.now()}`;
     const newTrack: MidiTrack = {
       id: trackId,
       type: 'midi',
@@ -24,42 +98,33 @@ export const TrackSelector: React.FC = () => {
       pan: 0,
       muted: false,
       soloed: false,
-      instrumentConfig: {
-        id: instrumentId,
-        name: 'Default Synth',
-        isPreset: false,
-        createdAt: Date.now(),
-        updatedAt: Date.now(),
-        audioParams: {
-          waveType: 'sawtooth',
-          masterVolume: 0.5,
-          attackTime: 0.1,
-          decayTime: 0.3,
-          sustainLevel: 0.5,
-          releaseTime: 0.5,
-          filterCutoff: 2000,
-          filterResonance: 1,
-          filterType: 'lowpass',
-          distortionAmount: 0,
-          lfoRate: 5,
-          lfoDepth: 0,
-          lfoWaveType: 'sine',
-          lfoTarget: 'cutoff',
-          masterDetune: 0,
-          chorusAmount: 0,
-          reverbAmount: 0,
-          unisonDetune: 0,
-          noiseAmount: 0,
-          filterEnvAttack: 0.1,
-          filterEnvDecay: 0.3,
-          filterEnvAmount: 0,
-          unisonMode: false,
-          unisonVoices: 3
-        },
-        filterBypassed: false,
-        distortionBypassed: true,
-        modules: []
-      },
+      instrumentConfig: createInstrumentConfig('Default Synth'),
+      clips: []
+    };
+    addTrack(newTrack);
+    setShowTrackTypeMenu(false);
+  };
+
+  const handleAddSamplerTrack = () => {
+    const newTrack: MidiTrack = {
+      id: `track_${Date.now()}`,
+      type: 'midi',
+      name: `Sampler ${tracks.filter(t => t.type === 'midi' && t.instrumentConfig.sampler).length + 1}`,
+      color: `hsl(${Math.random() * 360}, 70%, 50%)`,
+      volume: 0.8,
+      pan: 0,
+      muted: false,
+      soloed: false,
+      // Samples replace the oscillators, shaped by the ADSR and filter
+      instrumentConfig: createInstrumentConfig(
+        'Sampler',
+        [
+          { id: 'sampler_1', type: 'sampler', name: 'SAMPLER', enabled: true, parameters: {}, position: { column: 0, row: 0 } },
+          { id: 'adsr_1', type: 'adsr-base', name: 'ADSR', enabled: true, parameters: {}, position: { column: 1, row: 0 } },
+          { id: 'filter_1', type: 'filter-base', name: 'FILTER', enabled: true, parameters: {}, position: { column: 2, row: 0 } }
+        ],
+        { sampler: DEFAULT_SAMPLER_CONFIG }
+      ),
       clips: []
     };
     addTrack(newTrack);
@@ -109,6 +174,9 @@ export const TrackSelector: React.FC = () => {
             <button onClick={handleAddMidiTrack} className="track-type-option">
               MIDI Track
             </button>
+            <button onClick={handleAddSamplerTrack} className="track-type-option">
+              Sampler Track
+            </button>
             <button onClick={handleAddPercussionTrack} className="track-type-option">
               Percussion Track
             </button>
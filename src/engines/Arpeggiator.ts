@@ -0,0 +1,286 @@
+/**
+ * Arpeggiator - Turns held notes into a tempo-synced run of single notes
+ * Sits in front of an engine's voices, so live keys and clip playback are both arpeggiated
+ */
+
+import type { ArpMode, ArpSettings } from './types';
+import { NOTE_DIVISIONS, divisionToBeats } from './LFOSource';
+import type { Transport } from './Transport';
+
+export const ARP_MODES: { id: ArpMode; label: string }[] = [
+  { id: 'up', label: 'UP' },
+  { id: 'down', label: 'DOWN' },
+  { id: 'upDown', label: 'U/D' },
+  { id: 'random', label: 'RND' },
+  { id: 'played', label: 'PLAYED' }
+];
+
+export const MAX_ARP_OCTAVES = 4;
+
+export const DEFAULT_ARP_SETTINGS: ArpSettings = {
+  mode: 'up',
+  octaves: 1,
+  division: '1/16',
+  modifier: 'straight',
+  gate: 50,
+  swing: 0,
+  latch: false
+};
+
+// Steps are scheduled this far ahead on a timer
+const LOOKAHEAD = 0.1;
+const SCHEDULE_INTERVAL = 25;
+
+/**
+ * Fill in and clamp arpeggiator settings read from module parameters
+ */
+export function normalizeArpSettings(parameters: Partial<ArpSettings> | undefined): ArpSettings {
+  const settings = { ...DEFAULT_ARP_SETTINGS, ...parameters };
+  return {
+    mode: ARP_MODES.some(m => m.id === settings.mode) ? settings.mode : DEFAULT_ARP_SETTINGS.mode,
+    octaves: Math.max(1, Math.min(MAX_ARP_OCTAVES, Math.round(settings.octaves))),
+    division: NOTE_DIVISIONS.includes(settings.division) ? settings.division : DEFAULT_ARP_SETTINGS.division,
+    modifier: ['straight', 'dotted', 'triplet'].includes(settings.modifier) ? settings.modifier : DEFAULT_ARP_SETTINGS.modifier,
+    gate: Math.max(10, Math.min(100, settings.gate)),
+    swing: Math.max(0, Math.min(75, settings.swing)),
+    latch: !!settings.latch
+  };
+}
+
+// A note the arpeggiator started or stopped - reported so its output can be recorded
+export interface ArpNoteEvent {
+  type: 'noteOn' | 'noteOff';
+  noteKey: string;
+  sourceKey: string | number; // The held note the step was played from
+  frequency: number;
+  velocity: number;
+}
+
+interface HeldNote {
+  key: string | number;
+  frequency: number;
+  velocity: number;
+}
+
+export class Arpeggiator {
+  private context: BaseAudioContext;
+  private playNote: (frequency: number, noteKey: string, velocity: number) => void;
+  private releaseNote: (noteKey: string) => void;
+  private listener: ((event: ArpNoteEvent) => void) | null = null;
+
+  private settings: ArpSettings = DEFAULT_ARP_SETTINGS;
+  private enabled: boolean = false;
+  private bpm: number = 120;
+  // Runs started while it plays line up with its step grid
+  private transport: Transport | null = null;
+
+  // Notes being arpeggiated in the order they were played, and the keys still held down
+  private notes: HeldNote[] = [];
+  private pressedKeys: Set<string | number> = new Set();
+  private sequence: HeldNote[] = [];
+
+  private step: number = 0;
+  // Grid step the run started on, so swing lands on the transport's off-beats
+  private stepOffset: number = 0;
+  private nextStepTime: number = 0;
+  private scheduleTimer: number | null = null;
+  private noteTimers: Set<number> = new Set();
+  private noteCount: number = 0;
+  private soundingNotes: Map<string, Omit<ArpNoteEvent, 'type'>> = new Map();
+
+  constructor(
+    context: BaseAudioContext,
+    playNote: (frequency: number, noteKey: string, velocity: number) => void,
+    releaseNote: (noteKey: string) => void
+  ) {
+    this.context = context;
+    this.playNote = playNote;
+    this.releaseNote = releaseNote;
+  }
+
+  setSettings(settings: ArpSettings): void {
+    const unlatched = this.settings.latch && !settings.latch;
+    this.settings = settings;
+
+    // Drop latched notes that are no longer held
+    if (unlatched) {
+      this.notes = this.notes.filter(note => this.pressedKeys.has(note.key));
+    }
+    this.updateSequence();
+  }
+
+  /**
+   * Turn the arpeggiator on or off - turning it off stops the run and forgets held notes
+   */
+  setEnabled(enabled: boolean): void {
+    if (enabled === this.enabled) return;
+    this.enabled = enabled;
+    if (!enabled) this.clear();
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  setBpm(bpm: number): void {
+    this.bpm = bpm;
+  }
+
+  setTransport(transport: Transport | null): void {
+    this.transport = transport;
+  }
+
+  setListener(listener: ((event: ArpNoteEvent) => void) | null): void {
+    this.listener = listener;
+  }
+
+  noteOn(frequency: number, key: string | number, velocity: number): void {
+    // With latch on, the first key after letting go of everything starts a new chord
+    if (this.settings.latch && this.pressedKeys.size === 0) {
+      this.notes = [];
+    }
+
+    this.pressedKeys.add(key);
+    this.notes = this.notes.filter(note => note.key !== key);
+    this.notes.push({ key, frequency, velocity });
+    this.updateSequence();
+  }
+
+  /**
+   * Release a held note - returns false for keys the arpeggiator isn't holding
+   */
+  noteOff(key: string | number): boolean {
+    if (!this.pressedKeys.delete(key)) return false;
+
+    if (!this.settings.latch) {
+      this.notes = this.notes.filter(note => note.key !== key);
+      this.updateSequence();
+    }
+    return true;
+  }
+
+  /**
+   * Stop the run and forget every held and latched note
+   */
+  clear(): void {
+    this.notes = [];
+    this.pressedKeys.clear();
+    this.updateSequence();
+  }
+
+  /**
+   * Stop for good - cancels every scheduled step and note
+   */
+  dispose(): void {
+    this.notes = [];
+    this.pressedKeys.clear();
+    this.sequence = [];
+    this.stop();
+    this.listener = null;
+  }
+
+  private updateSequence(): void {
+    const { mode, octaves } = this.settings;
+    const ordered = mode === 'played'
+      ? [...this.notes]
+      : [...this.notes].sort((a, b) => a.frequency - b.frequency);
+
+    let sequence: HeldNote[] = [];
+    for (let octave = 0; octave < octaves; octave++) {
+      ordered.forEach(note => sequence.push({ ...note, frequency: note.frequency * Math.pow(2, octave) }));
+    }
+
+    if (mode === 'down') {
+      sequence.reverse();
+    } else if (mode === 'upDown' && sequence.length > 2) {
+      // Don't repeat the top and bottom notes at the turns
+      sequence = [...sequence, ...sequence.slice(1, -1).reverse()];
+    }
+    this.sequence = sequence;
+
+    if (sequence.length > 0 && this.scheduleTimer === null) {
+      this.start();
+    } else if (sequence.length === 0 && this.scheduleTimer !== null) {
+      this.stop();
+    }
+  }
+
+  private start(): void {
+    const now = this.context.currentTime;
+    this.step = 0;
+    this.stepOffset = 0;
+    this.nextStepTime = now;
+
+    // While the transport plays, wait for its next step so recorded runs sit on the grid
+    if (this.transport?.getIsPlaying()) {
+      const stepBeats = divisionToBeats(this.settings.division, this.settings.modifier);
+      const beat = this.transport.getCurrentBeat();
+      // Tolerance so a key pressed right on a step plays it rather than waiting for the next
+      const gridStep = Math.ceil(beat / stepBeats - 1e-6);
+      this.stepOffset = gridStep;
+      this.nextStepTime = now + Math.max(0, gridStep * stepBeats - beat) * (60 / this.bpm);
+    }
+    this.schedule();
+    this.scheduleTimer = window.setInterval(() => this.schedule(), SCHEDULE_INTERVAL);
+  }
+
+  private stop(): void {
+    if (this.scheduleTimer !== null) {
+      clearInterval(this.scheduleTimer);
+      this.scheduleTimer = null;
+    }
+    this.noteTimers.forEach(timer => clearTimeout(timer));
+    this.noteTimers.clear();
+    Array.from(this.soundingNotes.keys()).forEach(noteKey => this.endNote(noteKey));
+  }
+
+  private schedule(): void {
+    const now = this.context.currentTime;
+    // Skip steps the timer fell behind on rather than bunching them up
+    this.nextStepTime = Math.max(this.nextStepTime, now);
+
+    while (this.nextStepTime < now + LOOKAHEAD && this.sequence.length > 0) {
+      const stepLength = (60 / this.bpm) * divisionToBeats(this.settings.division, this.settings.modifier);
+      // Every second step is pushed late and shortened to match
+      const swingDelay = (this.step + this.stepOffset) % 2 === 1 ? stepLength * (this.settings.swing / 100) : 0;
+      const gateLength = (stepLength - swingDelay) * (this.settings.gate / 100);
+
+      const note = this.settings.mode === 'random'
+        ? this.sequence[Math.floor(Math.random() * this.sequence.length)]
+        : this.sequence[this.step % this.sequence.length];
+      this.scheduleNote(note, this.nextStepTime + swingDelay - now, gateLength);
+
+      this.nextStepTime += stepLength;
+      this.step++;
+    }
+  }
+
+  private scheduleNote(note: HeldNote, delay: number, length: number): void {
+    const noteKey = `arp_${this.noteCount++}`;
+    const event = { noteKey, sourceKey: note.key, frequency: note.frequency, velocity: note.velocity };
+
+    this.setNoteTimer(delay, () => {
+      this.playNote(note.frequency, noteKey, note.velocity);
+      this.soundingNotes.set(noteKey, event);
+      this.listener?.({ type: 'noteOn', ...event });
+    });
+    this.setNoteTimer(delay + length, () => this.endNote(noteKey));
+  }
+
+  private endNote(noteKey: string): void {
+    const event = this.soundingNotes.get(noteKey);
+    if (!event) return;
+
+    this.releaseNote(noteKey);
+    this.soundingNotes.delete(noteKey);
+    this.listener?.({ type: 'noteOff', ...event });
+  }
+
+  private setNoteTimer(delay: number, callback: () => void): void {
+    const timer = window.setTimeout(() => {
+      this.noteTimers.delete(timer);
+      callback();
+    }, Math.max(0, delay) * 1000);
+    this.noteTimers.add(timer);
+  }
+}
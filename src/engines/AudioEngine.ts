@@ -4,32 +4,96 @@
  * TypeScript version
  */
 
-import type { Voice, Effects, EffectBypassed, AudioEngineParams, ActiveFrequency } from './types';
+import type {
+  Voice,
+  EffectNode,
+  EffectSlot,
+  EffectType,
+  EffectBypassed,
+  AudioEngineParams,
+  ActiveFrequency,
+  NoiseColor,
+  VelocityCurve,
+  VoiceMode,
+  NotePriority,
+  GlideMode,
+  MonoNote,
+  VoiceStealing,
+  VoiceOscillator,
+  Wavetable,
+  FMSettings,
+  SamplerConfig,
+  SamplerSample,
+  GranularSettings,
+  ArpSettings,
+  ReverbSettings,
+  DelaySettings,
+  DistortionSettings,
+  CompressorSettings,
+  EQSettings,
+  Tuning,
+  ModMatrix,
+  ModTarget,
+  LFOShape,
+  LFOTiming,
+  NoteDivision,
+  DivisionModifier
+} from './types';
+import type { InstrumentConfiguration } from '../types/instrument';
+import type { Transport } from './Transport';
+import { generateReverbImpulse, normalizeReverbSettings, DEFAULT_REVERB_SETTINGS, MAX_REVERB_PRE_DELAY } from './reverbImpulse';
+import { generateNoiseBuffer } from './noiseBuffer';
+import { ModulationMatrix, DEFAULT_MOD_MATRIX } from './ModulationMatrix';
+import { LFOSource, DEFAULT_LFO_TIMING } from './LFOSource';
+import { WavetableOscillator, loadWavetableWorklet } from './WavetableOscillator';
+import { BUILT_IN_WAVETABLES, getBuiltInWavetable } from './wavetables';
+import { FMOscillator, DEFAULT_FM_SETTINGS, normalizeFMSettings } from './FMOscillator';
+import { Sampler, SampleOscillator, DEFAULT_SAMPLER_CONFIG, decodeBase64 } from './Sampler';
+import type { SamplerNote } from './Sampler';
+import { GranularOscillator, DEFAULT_GRANULAR_SETTINGS, normalizeGranularSettings } from './Granular';
+import { Arpeggiator, normalizeArpSettings } from './Arpeggiator';
+import type { ArpNoteEvent } from './Arpeggiator';
+import { DEFAULT_TUNING, noteToFrequency, frequencyToNote } from './tuning';
+import { StereoDelay, normalizeDelaySettings, DEFAULT_DELAY_SETTINGS } from './StereoDelay';
+import { Distortion, loadBitcrushWorklet, normalizeDistortionSettings, DEFAULT_DISTORTION_SETTINGS } from './Distortion';
+import { applyCompressorSettings, normalizeCompressorSettings, DEFAULT_COMPRESSOR_SETTINGS } from './compressor';
+import { ParametricEQ, normalizeEQSettings, DEFAULT_EQ_SETTINGS } from './ParametricEQ';
+import { DEFAULT_EFFECT_CHAIN, normalizeEffectChain, normalizeSlotSettings } from './effectChain';
+import {
+  createHarmonicWave,
+  getWaveTypeHarmonics,
+  rotateHarmonicPhases,
+  DEFAULT_HARMONIC_AMPLITUDES,
+  DEFAULT_HARMONIC_PHASES
+} from './harmonics';
+
+// Start points per cycle for unison random phase
+const PHASE_STEPS = 16;
 
 export class AudioEngine {
   private context: AudioContext | null = null;
+  private ownsContext: boolean = true;
   private sampleRate: number = 44100;
 
   // Master gain
   private masterGain: GainNode | null = null;
 
   // Filter
-  private filter: BiquadFilterNode | null = null;
+  // Sum of all voices, each filtered by its own BiquadFilterNode
+  private voiceBus: GainNode | null = null;
   private filterBypassed: boolean = false;
 
-  // Effects with true bypass
-  private effects: Effects = {
-    distortion: null,
-    compressor: null,
-    chorus: null,
-    delay: null,
-    reverb: null
-  };
+  // Effect chain - the slots in order, the nodes playing each slot, and the connections between them
+  private effectChain: EffectSlot[] | null = null;
+  private effectInstances: Map<string, EffectNode> = new Map();
+  private chainConnections: [AudioNode, AudioNode][] = [];
+  private connectedChain: string = '';
 
-  // Effect bypass states - distortion off by default for cleaner sound
+  // Effect bypass states - distortion, EQ and compressor off by default for cleaner sound
   private effectBypassed: EffectBypassed = {
     distortion: true, // Bypassed by default
-    compressor: false,
+    eq: true, // Until the EQ module is added
+    compressor: true, // Until the compressor module is added
     chorus: false,
     delay: false,
     reverb: false
@@ -39,6 +103,11 @@ export class AudioEngine {
   private voicePool: Voice[] = [];
   private activeVoices: Map<string | number, Voice> = new Map();
   private maxVoices: number = 32; // Increased from 8 to handle sequencer + live playing
+  // Stolen voices fade out over this long instead of cutting off
+  private readonly stealFadeTime: number = 0.005;
+
+  // Noise buffers per color, generated on first use
+  private noiseBuffers: Map<NoiseColor, AudioBuffer> = new Map();
 
   // Module enable/disable states
   private moduleStates: Map<string, boolean> = new Map();
@@ -69,25 +138,115 @@ export class AudioEngine {
     lfoDepth: 20,
     lfoWaveType: 'sine',
     lfoTarget: 'cutoff',
+    lfoSync: false,
+    lfoDivision: '1/4',
+    lfoDivisionModifier: 'straight',
+    lfoRetrigger: false,
+    lfoCustomShape: DEFAULT_LFO_TIMING.customShape,
 
     // Unison
     unisonMode: false,
     unisonVoices: 2,
     unisonDetune: 5,
+    unisonWidth: 50,
+    unisonRandomPhase: true,
 
     // Tuning
     masterDetune: 0,
 
     // Additional params
     noiseAmount: 0,
+    noiseColor: 'white',
     filterEnvAttack: 50,
     filterEnvDecay: 200,
-    filterEnvAmount: 3000
+    filterEnvAmount: 3000,
+    filterEnvSustain: 0,
+    filterEnvRelease: 200,
+    filterEnvVelocity: 0,
+    filterKeyTracking: 0,
+    velocityCurve: 'linear',
+    velocityToAmp: 100,
+    velocityToCutoff: 0,
+    velocityToAttack: 0,
+    voiceMode: 'poly',
+    notePriority: 'last',
+    glideTime: 0,
+    glideMode: 'legato',
+    polyphony: 32,
+    voiceStealing: 'released',
+    wavetable: 'basic',
+    wavetablePosition: 0,
+    harmonicAmplitudes: DEFAULT_HARMONIC_AMPLITUDES,
+    harmonicPhases: DEFAULT_HARMONIC_PHASES
   };
 
+  // Held notes in mono and legato modes, in the order they were played
+  private monoNotes: MonoNote[] = [];
+  // Note the mono voice is currently playing
+  private monoNoteKey: string | number | null = null;
+  // Pitch of the last mono note, where glides start from
+  private lastMonoFrequency: number | null = null;
+
   // LFO
-  private lfo: OscillatorNode | null = null;
+  private lfo: LFOSource | null = null;
   private lfoGain: GainNode | null = null;
+  // Scaled LFO feeding every voice filter's cutoff or oscillator pitch
+  private lfoCutoffScale: GainNode | null = null;
+  private lfoPitchScale: GainNode | null = null;
+
+  // LFOs and envelopes routed to any parameter
+  private modMatrix: ModulationMatrix | null = null;
+
+  // Wavetable oscillator - the worklet loads during init, voices fall back to plain oscillators without it
+  private wavetableReady: boolean = false;
+  private userWavetable: { id: string; frames: Float32Array[] } | null = null;
+
+  // Custom wave built from the harmonic arrays, rebuilt when either array changes
+  private harmonicWave: PeriodicWave | null = null;
+  private harmonicWaveSource: { amplitudes: number[]; phases: number[] } | null = null;
+
+  // Current wave started at each of PHASE_STEPS points in its cycle, for unison random phase
+  private phaseWaves: Map<number, PeriodicWave> = new Map();
+  private phaseWaveSource: { waveType: string; harmonicWave: PeriodicWave | null } | null = null;
+
+  // FM operators and algorithm, read from the FM module's parameters
+  private fmSettings: FMSettings = DEFAULT_FM_SETTINGS;
+
+  // Sample zones, played instead of oscillators while the sampler module is enabled
+  private sampler: Sampler | null = null;
+
+  // Granular source buffer and grain settings, read from the granular module's parameters
+  private granularSettings: GranularSettings = DEFAULT_GRANULAR_SETTINGS;
+  private granularBuffer: AudioBuffer | null = null;
+  private granularSampleId: string | null = null;
+
+  // Generated impulse settings from the reverb module, and a loaded impulse response that replaces them
+  private reverbSettings: ReverbSettings | null = null;
+  private userReverbImpulse: AudioBuffer | null = null;
+  private generatedReverbImpulse: AudioBuffer | null = null;
+  private reverbImpulseId: string | null = null;
+
+  // Distortion, delay, compressor and EQ settings from their modules' parameters, shared by every slot of the effect
+  private distortionSettings: DistortionSettings = DEFAULT_DISTORTION_SETTINGS;
+  private delaySettings: DelaySettings = DEFAULT_DELAY_SETTINGS;
+  private compressorSettings: CompressorSettings = DEFAULT_COMPRESSOR_SETTINGS;
+  private eqSettings: EQSettings = DEFAULT_EQ_SETTINGS;
+
+  // Turns held notes into runs while the arpeggiator module is enabled
+  private arpeggiator: Arpeggiator | null = null;
+
+  // Told about every note that starts, e.g. to key sidechain ducking
+  private noteOnListener: (() => void) | null = null;
+
+  // The tuning module's tuning, played instead of the project tuning while the module is enabled
+  private instrumentTuning: Tuning | null = null;
+  private projectTuning: Tuning = DEFAULT_TUNING;
+
+  // Transport the arpeggiator lines its runs up with
+  private transport: Transport | null = null;
+
+  // Tempo for synced LFOs and the arpeggiator
+  private bpm: number = 120;
 
   // Analyser for visualization
   private analyser: AnalyserNode | null = null;
@@ -104,39 +263,54 @@ export class AudioEngine {
 
   /**
    * Initialize audio context and signal chain
+   * Pass a shared context and destination to run as a track engine feeding another engine's bus
    */
-  async init(): Promise<void> {
+  async init(sharedContext?: AudioContext, destination?: AudioNode): Promise<void> {
     if (this.context) return;
 
-    // Create audio context with optimal settings
-    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-    this.context = new AudioContextClass({
-      sampleRate: 48000, // Higher sample rate for better quality
-      latencyHint: 'interactive' // Low latency mode
-    });
+    if (sharedContext) {
+      this.context = sharedContext;
+      this.ownsContext = false;
+    } else {
+      // Create audio context with optimal settings
+      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+      this.context = new AudioContextClass({
+        sampleRate: 48000, // Higher sample rate for better quality
+        latencyHint: 'interactive' // Low latency mode
+      });
+    }
 
     this.sampleRate = this.context.sampleRate;
 
     // Create master gain
     this.masterGain = this.context.createGain();
     this.masterGain.gain.value = this.params.masterVolume;
-    this.masterGain.connect(this.context.destination);
+    this.masterGain.connect(destination ?? this.context.destination);
 
-    // Create filter
-    this.filter = this.context.createBiquadFilter();
-    this.filter.type = this.params.filterType;
-    this.filter.frequency.value = this.params.filterCutoff;
-    this.filter.Q.value = this.params.filterResonance;
+    // Create voice bus - filtering happens per voice
+    this.voiceBus = this.context.createGain();
 
-    // Create effects with true bypass
-    this.createEffects();
-
-    // Setup signal routing
-    this.setupSignalChain();
+    // Route the voice bus through the effect chain
+    this.connectEffectChain();
 
     // Create LFO
     this.createLFO();
 
+    this.sampler = new Sampler(this.context);
+
+    this.arpeggiator = new Arpeggiator(
+      this.context,
+      (frequency, noteKey, velocity) => this.triggerNote(frequency, noteKey, velocity),
+      (noteKey) => this.endNote(noteKey)
+    );
+    this.arpeggiator.setBpm(this.bpm);
+    this.arpeggiator.setTransport(this.transport);
+
+    // Create modulation matrix - effect amounts are shared, everything else is per voice
+    this.modMatrix = new ModulationMatrix(this.context);
+    this.modMatrix.setBpm(this.bpm);
+    this.updateEffectModTargets();
+
     // Create analyser
     this.analyser = this.context.createAnalyser();
     this.analyser.fftSize = 2048;
@@ -145,15 +319,129 @@ export class AudioEngine {
     const buffer = new ArrayBuffer(bufferLength);
     this.waveformData = new Uint8Array(buffer);
 
-    // Connect analyser to filter output (before effects) for clean waveform visualization
-    // This shows the raw oscillator shape
-    this.filter.connect(this.analyser);
+    // Connect analyser to the voice bus (before effects) for clean waveform visualization
+    // This shows the filtered oscillator shape
+    this.voiceBus.connect(this.analyser);
 
     // Initialize voice pool
     this.initVoicePool();
 
-    // Setup recording
-    this.setupRecording();
+    // Load the wavetable oscillator worklet
+    try {
+      await loadWavetableWorklet(this.context);
+      this.wavetableReady = true;
+    } catch (e) {
+      console.warn('Wavetable oscillator unavailable:', e);
+    }
+
+    // Load the bitcrush worklet - distortions already built pick it up when their settings are reapplied
+    try {
+      await loadBitcrushWorklet(this.context);
+      this.setDistortionSettings(this.distortionSettings);
+    } catch (e) {
+      console.warn('Bitcrush unavailable:', e);
+    }
+
+    // Setup recording - only the engine that owns the context taps the final mix
+    if (this.ownsContext) {
+      this.setupRecording();
+    }
+  }
+
+  /**
+   * Load a full instrument configuration (params, bypasses and module states)
+   */
+  loadInstrument(config: InstrumentConfiguration): void {
+    // Connected by setModules, once it knows whether the effect chain module is enabled
+    this.effectChain = config.effectChain ? normalizeEffectChain(config.effectChain) : null;
+    this.setModules(config.modules);
+    this.setFilterBypass(config.filterBypassed || !this.getModuleEnabled('filter-base'));
+    this.setDistortionBypass(config.distortionBypassed || !this.getModuleEnabled('distortion-base'));
+
+    this.setUserWavetable(config.userWavetable ?? null);
+    this.setSampler(config.sampler ?? DEFAULT_SAMPLER_CONFIG);
+    this.setGranularSample(config.granularSample ?? null);
+    this.setTuning(config.tuning ?? null);
+    this.setReverbImpulse(config.reverbImpulse ?? null);
+    this.updateParams(config.audioParams);
+    this.updateDistortionCurve(this.params.distortionAmount);
+
+    this.setModMatrix(config.modMatrix ?? DEFAULT_MOD_MATRIX);
+    this.modMatrix?.setEnabled(this.getModuleEnabled('mod-matrix-base'));
+
+    if (this.lfoGain) {
+      this.lfoGain.gain.value = this.getModuleEnabled('lfo-base') ? this.params.lfoDepth / 100 : 0;
+    }
+  }
+
+  /**
+   * Apply the instrument's modules - which are present and enabled, and their parameters
+   * Used for module edits on a playing instrument, so held notes and the effect chain are left alone
+   */
+  setModules(modules: InstrumentConfiguration['modules']): void {
+    this.moduleStates.clear();
+    for (const module of modules) {
+      this.moduleStates.set(module.type, module.enabled);
+    }
+    this.setFMSettings(modules.find(module => module.type === 'fm')?.parameters);
+    this.setDistortionSettings(modules.find(module => module.type === 'distortion-base')?.parameters);
+    this.setGranularSettings(modules.find(module => module.type === 'granular')?.parameters);
+    this.setArpSettings(modules.find(module => module.type === 'arpeggiator')?.parameters);
+    this.setReverbSettings(modules.find(module => module.type === 'reverb')?.parameters);
+    this.setDelaySettings(modules.find(module => module.type === 'delay')?.parameters);
+    this.setCompressorSettings(modules.find(module => module.type === 'compressor')?.parameters);
+    this.setEQSettings(modules.find(module => module.type === 'eq')?.parameters);
+    this.arpeggiator?.setEnabled(this.moduleStates.get('arpeggiator') === true);
+
+    // The instrument's own effect order only applies while the effect chain module is enabled
+    this.connectEffectChain();
+    this.setReverbBypass(!this.getModuleEnabled('reverb'));
+    this.setDelayBypass(!this.getModuleEnabled('delay'));
+    // Instruments only compress or EQ once those modules are added
+    this.setCompressorBypass(this.moduleStates.get('compressor') !== true);
+    this.setEQBypass(this.moduleStates.get('eq') !== true);
+    this.modMatrix?.setEnabled(this.getModuleEnabled('mod-matrix-base'));
+
+    if (this.lfoGain) {
+      this.lfoGain.gain.value = this.getModuleEnabled('lfo-base') ? this.params.lfoDepth / 100 : 0;
+    }
+  }
+
+  /**
+   * Tear down the signal chain
+   * Closes the audio context only if this engine created it
+   */
+  dispose(): void {
+    if (!this.context) return;
+
+    // A latched arpeggio would otherwise keep playing notes on the disposed engine
+    this.arpeggiator?.dispose();
+    this.arpeggiator = null;
+    this.stopAllNotes();
+    this.modMatrix?.dispose();
+    this.modMatrix = null;
+
+    try {
+      this.lfo?.stop();
+    } catch (e) { }
+    this.lfoGain?.disconnect();
+    this.lfoGain = null;
+    this.effectInstances.forEach(effect => this.disposeEffect(effect));
+    this.effectInstances.clear();
+    this.chainConnections = [];
+    this.connectedChain = '';
+
+    this.voiceBus?.disconnect();
+    this.voiceBus = null;
+    this.masterGain?.disconnect();
+
+    if (this.ownsContext) {
+      this.context.close();
+    }
+
+    this.noiseBuffers.clear();
+    this.context = null;
+    this.masterGain = null;
   }
 
   /**
@@ -164,256 +452,379 @@ export class AudioEngine {
   }
 
   /**
-   * Create all effects with true bypass capability
+   * Build the nodes for one effect slot with true bypass: input splits into the effect and
+   * bypass paths, which meet again at the mixer
    */
-  private createEffects(): void {
-    if (!this.context) return;
+  private createEffect(slot: EffectSlot): EffectNode {
+    const context = this.context!;
+    const input = context.createGain();
+    const inputGain = context.createGain();
+    const bypassGain = context.createGain();
+    const mixer = context.createGain();
+    input.connect(inputGain);
+    input.connect(bypassGain);
+    bypassGain.connect(mixer);
 
-    // Distortion (using waveshaper)
-    this.effects.distortion = {
-      node: this.context.createWaveShaper(),
-      bypassGain: this.context.createGain(),
-      active: false
-    };
-    this.updateDistortionCurve(0);
+    let effect: EffectNode;
+    switch (slot.type) {
+      case 'distortion': {
+        // Waveshaper with tone filter and dry/wet mix
+        const distortion = new Distortion(context);
+        effect = {
+          type: slot.type,
+          node: distortion.input,
+          output: distortion.output,
+          distortion,
+          input, inputGain, bypassGain, mixer, active: false
+        };
+        inputGain.connect(distortion.input);
+        distortion.output.connect(mixer);
+        break;
+      }
 
-    // Compressor
-    this.effects.compressor = {
-      node: this.context.createDynamicsCompressor(),
-      bypassGain: this.context.createGain(),
-      active: false
-    };
-    const compressor = this.effects.compressor.node as DynamicsCompressorNode;
-    compressor.threshold.value = -24;
-    compressor.ratio.value = 12;
-    compressor.attack.value = 0.003;
-    compressor.release.value = 0.25;
-
-    // Chorus (using delay and LFO)
-    const chorusDelay = this.context.createDelay(0.1);
-    const chorusLfo = this.context.createOscillator();
-    const chorusLfoGain = this.context.createGain();
-    const chorusDelayGain = this.context.createGain();
-    const chorusDryGain = this.context.createGain();
-    const chorusBypassGain = this.context.createGain();
-
-    chorusDelay.delayTime.value = 0.0035;
-    chorusLfo.frequency.value = 1.5;
-    chorusLfoGain.gain.value = 0.002;
-    chorusDelayGain.gain.value = 0;
-    chorusDryGain.gain.value = 1;
-    chorusLfo.connect(chorusLfoGain);
-    chorusLfoGain.connect(chorusDelay.delayTime);
-    chorusLfo.start();
-
-    this.effects.chorus = {
-      node: chorusDelay,
-      lfo: chorusLfo,
-      lfoGain: chorusLfoGain,
-      delayGain: chorusDelayGain,
-      dryGain: chorusDryGain,
-      bypassGain: chorusBypassGain,
-      active: false
-    };
+      case 'eq': {
+        // Parametric EQ (bands in series)
+        const parametricEQ = new ParametricEQ(context);
+        effect = {
+          type: slot.type,
+          node: parametricEQ.input,
+          output: parametricEQ.output,
+          parametricEQ,
+          input, inputGain, bypassGain, mixer, active: false
+        };
+        inputGain.connect(parametricEQ.input);
+        parametricEQ.output.connect(mixer);
+        break;
+      }
 
-    // Delay
-    const delayNode = this.context.createDelay(1.0);
-    const delayFeedback = this.context.createGain();
-    const delayWetGain = this.context.createGain();
-    const delayDryGain = this.context.createGain();
-    const delayBypassGain = this.context.createGain();
-
-    delayNode.delayTime.value = 0.25; // 8n at 120 BPM
-    delayFeedback.gain.value = 0.3;
-    delayWetGain.gain.value = 0;
-    delayDryGain.gain.value = 1;
-
-    this.effects.delay = {
-      node: delayNode,
-      feedback: delayFeedback,
-      wetGain: delayWetGain,
-      dryGain: delayDryGain,
-      bypassGain: delayBypassGain,
-      active: false
-    };
+      case 'compressor': {
+        // Compressor followed by makeup gain
+        const compressor = context.createDynamicsCompressor();
+        const makeup = context.createGain();
+        effect = { type: slot.type, node: compressor, output: makeup, input, inputGain, bypassGain, mixer, active: false };
+        inputGain.connect(compressor);
+        compressor.connect(makeup);
+        makeup.connect(mixer);
+        break;
+      }
 
-    // Reverb (using convolver with impulse response)
-    const reverbNode = this.context.createConvolver();
-    const reverbWetGain = this.context.createGain();
-    const reverbDryGain = this.context.createGain();
-    const reverbBypassGain = this.context.createGain();
-
-    reverbWetGain.gain.value = 0;
-    reverbDryGain.gain.value = 1;
-
-    this.effects.reverb = {
-      node: reverbNode,
-      wetGain: reverbWetGain,
-      dryGain: reverbDryGain,
-      bypassGain: reverbBypassGain,
-      active: false
-    };
+      case 'chorus': {
+        // Input splits to dry and LFO-swept delayed (wet) signals
+        const chorusDelay = context.createDelay(0.1);
+        const lfo = context.createOscillator();
+        const lfoGain = context.createGain();
+        const delayGain = context.createGain();
+        const dryGain = context.createGain();
+
+        chorusDelay.delayTime.value = 0.0035;
+        lfo.frequency.value = 1.5;
+        lfoGain.gain.value = 0.002;
+        delayGain.gain.value = 0;
+        dryGain.gain.value = 1;
+        lfo.connect(lfoGain);
+        lfoGain.connect(chorusDelay.delayTime);
+        lfo.start();
+
+        effect = { type: slot.type, node: chorusDelay, lfo, lfoGain, delayGain, dryGain, input, inputGain, bypassGain, mixer, active: false };
+        inputGain.connect(dryGain);
+        dryGain.connect(mixer);
+        inputGain.connect(chorusDelay);
+        chorusDelay.connect(delayGain);
+        delayGain.connect(mixer);
+        break;
+      }
+
+      case 'delay': {
+        // Input splits to dry and delayed (wet) signals - feedback stays inside the delay
+        const stereoDelay = new StereoDelay(context);
+        const wetGain = context.createGain();
+        const dryGain = context.createGain();
+        wetGain.gain.value = 0;
+        dryGain.gain.value = 1;
+
+        effect = {
+          type: slot.type,
+          node: stereoDelay.input,
+          output: stereoDelay.output,
+          stereoDelay,
+          wetGain,
+          dryGain,
+          input, inputGain, bypassGain, mixer, active: false
+        };
+        inputGain.connect(dryGain);
+        dryGain.connect(mixer);
+        inputGain.connect(stereoDelay.input);
+        stereoDelay.output.connect(wetGain);
+        wetGain.connect(mixer);
+        break;
+      }
 
-    this.createReverbImpulse();
+      case 'reverb': {
+        // Input splits to dry and pre-delayed convolver (wet) signals
+        const convolver = context.createConvolver();
+        const preDelay = context.createDelay(MAX_REVERB_PRE_DELAY / 1000);
+        const wetGain = context.createGain();
+        const dryGain = context.createGain();
+        wetGain.gain.value = 0;
+        dryGain.gain.value = 1;
+
+        effect = { type: slot.type, node: convolver, preDelay, wetGain, dryGain, input, inputGain, bypassGain, mixer, active: false };
+        inputGain.connect(dryGain);
+        dryGain.connect(mixer);
+        inputGain.connect(preDelay);
+        preDelay.connect(convolver);
+        convolver.connect(wetGain);
+        wetGain.connect(mixer);
+        break;
+      }
+    }
+
+    effect.settings = slot.settings;
+    this.effectInstances.set(slot.id, effect);
+    this.applyEffectSettings(effect);
+    this.setEffectBypass(slot.type, this.effectBypassed[slot.type]);
+    return effect;
   }
 
   /**
-   * Create reverb impulse response
+   * Bring an effect up to its slot's own settings, or the instrument's current settings for its type
    */
-  private createReverbImpulse(): void {
-    if (!this.context || !this.effects.reverb) return;
+  private applyEffectSettings(effect: EffectNode): void {
+    if (!this.context) return;
+    const own = effect.settings ? normalizeSlotSettings(effect.type, effect.settings) : null;
+
+    switch (effect.type) {
+      case 'distortion':
+        effect.distortion!.setSettings(own ? own as DistortionSettings : this.distortionSettings);
+        effect.distortion!.setAmount(own ? own.amount : this.params.distortionAmount);
+        break;
 
-    const length = this.sampleRate * 2; // 2 seconds
-    const impulse = this.context.createBuffer(2, length, this.sampleRate);
-    const left = impulse.getChannelData(0);
-    const right = impulse.getChannelData(1);
+      case 'eq':
+        effect.parametricEQ!.setSettings(own ? own as EQSettings : this.eqSettings);
+        break;
 
-    for (let i = 0; i < length; i++) {
-      left[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 2);
-      right[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 2);
-    }
+      case 'compressor':
+        applyCompressorSettings(
+          effect.node as DynamicsCompressorNode,
+          effect.output as GainNode,
+          own ? own as CompressorSettings : this.compressorSettings
+        );
+        break;
+
+      case 'chorus': {
+        const wetLevel = (own ? own.amount : this.params.chorusAmount) / 100;
+        effect.delayGain!.gain.value = wetLevel;
+        effect.dryGain!.gain.value = 1 - wetLevel * 0.5;
+        break;
+      }
 
-    (this.effects.reverb.node as ConvolverNode).buffer = impulse;
+      case 'delay': {
+        const settings = own ? own as DelaySettings : this.delaySettings;
+        effect.stereoDelay!.setBpm(this.bpm);
+        effect.stereoDelay!.setSettings(settings);
+        effect.wetGain!.gain.value = settings.mix / 100;
+        break;
+      }
+
+      case 'reverb': {
+        const settings = own ? own as ReverbSettings : this.reverbSettings ?? DEFAULT_REVERB_SETTINGS;
+        const amount = own ? own.amount : this.params.reverbAmount;
+        if (own) {
+          effect.reverbImpulse = generateReverbImpulse(this.context, settings);
+        } else {
+          effect.reverbImpulse = undefined;
+          if (!this.userReverbImpulse && !this.generatedReverbImpulse) {
+            this.generatedReverbImpulse = generateReverbImpulse(this.context, settings);
+          }
+        }
+        (effect.node as ConvolverNode).buffer = this.userReverbImpulse ?? effect.reverbImpulse ?? this.generatedReverbImpulse;
+        effect.preDelay!.delayTime.value = settings.preDelay / 1000;
+        effect.wetGain!.gain.value = amount / 100;
+        effect.dryGain!.gain.value = 1 - amount / 100;
+        break;
+      }
+    }
   }
 
   /**
-   * Update distortion curve
+   * Disconnect an effect that has left the chain
    */
-  private updateDistortionCurve(amount: number): void {
-    if (!this.effects.distortion) return;
-
-    const samples = 44100;
-    const curve = new Float32Array(samples);
-    const deg = Math.PI / 180;
-    const k = amount * 10;
+  private disposeEffect(effect: EffectNode): void {
+    try {
+      effect.lfo?.stop();
+    } catch (e) { }
+    effect.distortion?.dispose();
+    effect.input.disconnect();
+    effect.mixer.disconnect();
+    effect.output?.disconnect();
+    effect.node.disconnect();
+  }
 
-    for (let i = 0; i < samples; i++) {
-      const x = (i * 2) / samples - 1;
-      curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x));
+  /**
+   * Every playing slot of an effect, in chain order
+   */
+  private getEffects(type: EffectType): EffectNode[] {
+    const effects: EffectNode[] = [];
+    for (const effect of this.effectInstances.values()) {
+      if (effect.type === type) effects.push(effect);
     }
+    return effects;
+  }
 
-    (this.effects.distortion.node as WaveShaperNode).curve = curve;
+  /**
+   * Slots of an effect that follow its module and knobs rather than settings of their own
+   */
+  private getSharedEffects(type: EffectType): EffectNode[] {
+    return this.getEffects(type).filter(effect => !effect.settings);
   }
 
   /**
-   * Setup signal chain with true bypass routing
+   * Settings a slot of the effect would copy to start from - its module's parameters and knobs
    */
-  private setupSignalChain(): void {
-    if (!this.filter || !this.masterGain) return;
+  getEffectSettings(type: EffectType): Record<string, any> {
+    const settings: Record<string, Record<string, any>> = {
+      distortion: { ...this.distortionSettings, amount: this.params.distortionAmount },
+      eq: this.eqSettings,
+      compressor: this.compressorSettings,
+      chorus: { amount: this.params.chorusAmount },
+      delay: this.delaySettings,
+      reverb: { ...(this.reverbSettings ?? DEFAULT_REVERB_SETTINGS), amount: this.params.reverbAmount }
+    };
+    return JSON.parse(JSON.stringify(settings[type]));
+  }
 
-    // Start: Filter output
-    let currentOutput: AudioNode = this.filter;
+  /**
+   * The chain the instrument plays through - its own while the FX chain module is enabled
+   * The standard chain only holds chorus, delay and reverb once the instrument uses them,
+   * tracks that just need some space can share the mixer's returns instead
+   */
+  getEffectChain(): EffectSlot[] {
+    if (this.moduleStates.get('effect-chain') === true && this.effectChain) {
+      return this.effectChain;
+    }
+    return DEFAULT_EFFECT_CHAIN.filter(slot => {
+      switch (slot.type) {
+        case 'chorus': return this.params.chorusAmount > 0;
+        case 'delay': return this.moduleStates.has('delay');
+        case 'reverb': return this.moduleStates.has('reverb') || this.params.reverbAmount > 0;
+        default: return true;
+      }
+    });
+  }
 
-    // Route through effects with true bypass
-    // Each effect has a bypass path that can be switched
+  /**
+   * Wire the voice bus through the effect chain into the master gain
+   * Slots that stay in the chain keep their nodes, so held notes and effect tails carry on
+   */
+  private connectEffectChain(): void {
+    if (!this.context || !this.voiceBus || !this.masterGain) return;
 
-    // Distortion
-    currentOutput = this.setupEffectBypass(currentOutput, 'distortion', this.effects.distortion);
+    const chain = this.getEffectChain();
 
-    // Compressor
-    currentOutput = this.setupEffectBypass(currentOutput, 'compressor', this.effects.compressor);
+    // Slots whose own settings changed take them on without being rebuilt
+    for (const slot of chain) {
+      const effect = this.effectInstances.get(slot.id);
+      if (effect && effect.type === slot.type && effect.settings !== slot.settings) {
+        effect.settings = slot.settings;
+        this.applyEffectSettings(effect);
+      }
+    }
 
-    // Chorus
-    currentOutput = this.setupEffectBypass(currentOutput, 'chorus', this.effects.chorus);
+    const key = chain.map(slot => `${slot.id}:${slot.type}`).join(',');
+    if (key === this.connectedChain) return;
+    this.connectedChain = key;
 
-    // Delay
-    currentOutput = this.setupEffectBypass(currentOutput, 'delay', this.effects.delay);
+    for (const [from, to] of this.chainConnections) {
+      from.disconnect(to);
+    }
+    this.chainConnections = [];
 
-    // Reverb
-    currentOutput = this.setupEffectBypass(currentOutput, 'reverb', this.effects.reverb);
+    // Drop slots that have been removed
+    for (const [id, effect] of this.effectInstances) {
+      if (!chain.some(slot => slot.id === id && slot.type === effect.type)) {
+        this.disposeEffect(effect);
+        this.effectInstances.delete(id);
+      }
+    }
 
-    // Final connection to master gain
-    currentOutput.connect(this.masterGain);
+    // Rebuild in chain order so getEffects() follows it
+    const instances = new Map(this.effectInstances);
+    this.effectInstances.clear();
+    let current: AudioNode = this.voiceBus;
+    for (const slot of chain) {
+      const existing = instances.get(slot.id);
+      if (existing) this.effectInstances.set(slot.id, existing);
+      const effect = existing ?? this.createEffect(slot);
+      current.connect(effect.input);
+      this.chainConnections.push([current, effect.input]);
+      current = effect.mixer;
+    }
+    current.connect(this.masterGain);
+    this.chainConnections.push([current, this.masterGain]);
 
-    // Update bypass states
-    this.updateAllBypasses();
+    this.updateEffectModTargets();
   }
 
   /**
-   * Setup effect bypass routing
+   * Point the mod matrix's effect destinations at every slot of each effect
    */
-  private setupEffectBypass(input: AudioNode, name: string, effect: Effects[keyof Effects] | null): AudioNode {
-    if (!this.context || !effect) return input;
+  private updateEffectModTargets(): void {
+    this.modMatrix?.setGlobalTargets({
+      chorus: this.getEffects('chorus').map(effect => ({ param: effect.delayGain!.gain, scale: 1 })),
+      delay: this.getEffects('delay').map(effect => ({ param: effect.wetGain!.gain, scale: 1 })),
+      reverb: this.getEffects('reverb').map(effect => ({ param: effect.wetGain!.gain, scale: 1 }))
+    });
+  }
 
-    // Create mixer for effect and bypass
-    const mixer = this.context.createGain();
-    const effectGain = this.context.createGain();
-    const bypassGain = this.context.createGain();
+  /**
+   * Set the instrument's effect order, or null for the standard one
+   */
+  setEffectChain(chain: EffectSlot[] | null): void {
+    this.effectChain = chain ? normalizeEffectChain(chain) : null;
+    this.connectEffectChain();
+  }
 
-    // Connect input to both effect and bypass paths
-    input.connect(effectGain);
-    input.connect(bypassGain);
+  /**
+   * Give every reverb the loaded impulse response, or one generated from the reverb settings
+   */
+  private updateReverbImpulse(): void {
+    if (!this.context) return;
 
-    // Connect effect path (handle special routing for chorus/delay/reverb)
-    if (name === 'chorus') {
-      // Chorus: input splits to dry and delayed (wet) signals
-      effectGain.connect(effect.dryGain!);
-      effect.dryGain!.connect(mixer);
-      effectGain.connect(effect.node);
-      effect.node.connect(effect.delayGain!);
-      effect.delayGain!.connect(mixer);
-    } else if (name === 'delay') {
-      // Delay: input splits to dry and delayed (wet) signals with feedback
-      effectGain.connect(effect.dryGain!);
-      effect.dryGain!.connect(mixer);
-      effectGain.connect(effect.node);
-      effect.node.connect(effect.wetGain!);
-      effect.wetGain!.connect(mixer);
-      // Feedback loop: delay output feeds back into delay input
-      effect.node.connect(effect.feedback!);
-      effect.feedback!.connect(effect.node);
-    } else if (name === 'reverb') {
-      // Reverb: input splits to dry and reverb (wet) signals
-      effectGain.connect(effect.dryGain!);
-      effect.dryGain!.connect(mixer);
-      effectGain.connect(effect.node);
-      effect.node.connect(effect.wetGain!);
-      effect.wetGain!.connect(mixer);
-    } else {
-      // Simple effects: input -> effect -> mixer
-      effectGain.connect(effect.node);
-      effect.node.connect(mixer);
+    if (!this.userReverbImpulse) {
+      this.generatedReverbImpulse = generateReverbImpulse(this.context, this.reverbSettings ?? DEFAULT_REVERB_SETTINGS);
+    }
+    for (const effect of this.getEffects('reverb')) {
+      (effect.node as ConvolverNode).buffer = this.userReverbImpulse ?? effect.reverbImpulse ?? this.generatedReverbImpulse;
     }
-
-    // Connect bypass path
-    bypassGain.connect(mixer);
-
-    // Store references for bypass control
-    effect.inputGain = effectGain;
-    effect.bypassGain = bypassGain;
-    effect.mixer = mixer;
-
-    return mixer;
   }
 
   /**
-   * Update all effect bypass states
+   * Update distortion curve
    */
-  private updateAllBypasses(): void {
-    Object.keys(this.effectBypassed).forEach(name => {
-      this.setEffectBypass(name as keyof EffectBypassed, this.effectBypassed[name as keyof EffectBypassed]);
-    });
+  private updateDistortionCurve(amount: number): void {
+    for (const effect of this.getSharedEffects('distortion')) {
+      effect.distortion!.setAmount(amount);
+    }
   }
 
   /**
-   * Set effect bypass state (TRUE bypass - disconnect/reconnect)
+   * Set effect bypass state for every slot of an effect (TRUE bypass - disconnect/reconnect)
    */
   setEffectBypass(name: keyof EffectBypassed, bypassed: boolean): void {
     this.effectBypassed[name] = bypassed;
-    const effect = this.effects[name];
 
-    if (!effect || !effect.inputGain || !effect.bypassGain) return;
-
-    if (bypassed) {
-      // TRUE bypass: mute effect path, enable bypass path
-      effect.inputGain.gain.value = 0;
-      effect.bypassGain.gain.value = 1;
-      effect.active = false;
-    } else {
-      // Effect active: enable effect path, mute bypass path
-      effect.inputGain.gain.value = 1;
-      effect.bypassGain.gain.value = 0;
-      effect.active = true;
+    for (const effect of this.getEffects(name)) {
+      if (bypassed) {
+        // TRUE bypass: mute effect path, enable bypass path
+        effect.inputGain.gain.value = 0;
+        effect.bypassGain.gain.value = 1;
+        effect.active = false;
+      } else {
+        // Effect active: enable effect path, mute bypass path
+        effect.inputGain.gain.value = 1;
+        effect.bypassGain.gain.value = 0;
+        effect.active = true;
+      }
     }
   }
 
@@ -431,44 +842,186 @@ export class AudioEngine {
    */
   private createVoice(): Voice {
     return {
-      oscillator: null,
+      oscillators: [],
+      panners: [],
+      unisonGain: null,
+      noiseSource: null,
+      noiseGain: null,
+      filter: null,
       envelope: null,
+      modGain: null,
+      modPanner: null,
+      modulation: null,
       isActive: false,
       noteKey: '',
       frequency: 0,
-      startTime: 0
+      velocity: 127,
+      startTime: 0,
+      releasedAt: null
     };
   }
 
   /**
-   * Get a free voice from pool
+   * Number of oscillators in use, including voices in their release tail
+   * This is what maxVoices limits, so unison notes cost one slot per oscillator
    */
-  private getFreeVoice(): Voice {
-    // Find inactive voice
+  private getActiveOscillatorCount(): number {
+    let count = 0;
     for (const voice of this.voicePool) {
-      if (!voice.isActive) {
-        return voice;
+      if (voice.isActive) {
+        count += voice.oscillators.length;
       }
     }
+    return count;
+  }
 
-    // If all voices active, steal oldest
+  /**
+   * Number of notes sounding, including release tails
+   */
+  private getActiveVoiceCount(): number {
+    return this.voicePool.filter(voice => voice.isActive).length;
+  }
+
+  /**
+   * Find the oldest allocated voice
+   */
+  private findOldestVoice(voices: Voice[] = this.voicePool): Voice | null {
     let oldestVoice: Voice | null = null;
     let oldestTime = Infinity;
 
-    for (const voice of this.voicePool) {
-      if (voice.startTime < oldestTime) {
+    for (const voice of voices) {
+      if (voice.isActive && voice.startTime < oldestTime) {
         oldestTime = voice.startTime;
         oldestVoice = voice;
       }
     }
 
-    return oldestVoice || this.voicePool[0];
+    return oldestVoice;
+  }
+
+  /**
+   * Find the allocated voice with the lowest envelope level
+   */
+  private findQuietestVoice(voices: Voice[] = this.voicePool): Voice | null {
+    let quietestVoice: Voice | null = null;
+    let lowestLevel = Infinity;
+
+    for (const voice of voices) {
+      const level = voice.envelope?.gain.value ?? 0;
+      if (voice.isActive && level < lowestLevel) {
+        lowestLevel = level;
+        quietestVoice = voice;
+      }
+    }
+
+    return quietestVoice;
+  }
+
+  /**
+   * Pick the voice to take for a new note, by the stealing mode
+   */
+  private findVoiceToSteal(): Voice | null {
+    switch (this.params.voiceStealing) {
+      case 'quietest':
+        return this.findQuietestVoice();
+      case 'released': {
+        // Released notes are least important - take the quietest tail, then fall back to the oldest held note
+        const released = this.voicePool.filter(voice => voice.isActive && voice.releasedAt !== null);
+        return this.findQuietestVoice(released) ?? this.findOldestVoice();
+      }
+      default:
+        return this.findOldestVoice();
+    }
+  }
+
+  /**
+   * Get a free voice from pool, stealing voices until the note fits
+   * within the polyphony limit and the requested number of oscillators fits within maxVoices
+   */
+  private getFreeVoice(oscillatorCount: number = 1, frequency?: number): Voice {
+    // Same-note mode replaces a voice already playing this pitch - compared as MIDI notes,
+    // since glide and tuning leave frequencies that don't match exactly
+    if (this.params.voiceStealing === 'sameNote' && frequency !== undefined) {
+      const note = this.frequencyToNote(frequency);
+      const sameNote = this.voicePool.find(voice => voice.isActive && this.frequencyToNote(voice.frequency) === note);
+      if (sameNote) {
+        this.stealVoice(sameNote);
+      }
+    }
+
+    const polyphony = Math.max(1, Math.min(this.maxVoices, Math.round(this.params.polyphony)));
+    while (
+      this.getActiveVoiceCount() >= polyphony ||
+      this.getActiveOscillatorCount() + oscillatorCount > this.maxVoices
+    ) {
+      const voice = this.findVoiceToSteal();
+      if (!voice) break;
+      this.stealVoice(voice);
+    }
+
+    // Find inactive voice
+    for (const voice of this.voicePool) {
+      if (!voice.isActive) {
+        return voice;
+      }
+    }
+
+    // If all voices active, steal oldest
+    const oldestVoice = this.findOldestVoice() || this.voicePool[0];
+    this.stealVoice(oldestVoice);
+    return oldestVoice;
+  }
+
+  /**
+   * Number of oscillators per note
+   */
+  private getUnisonCount(): number {
+    if (!this.params.unisonMode || !this.getModuleEnabled('voice-base')) {
+      return 1;
+    }
+    return Math.max(1, Math.min(8, Math.round(this.params.unisonVoices)));
+  }
+
+  /**
+   * Noise level blended into each voice
+   * The noise knob lives on the voice module, so disabling it silences noise
+   */
+  private getNoiseLevel(): number {
+    if (!this.getModuleEnabled('voice-base')) {
+      return 0;
+    }
+    return Math.max(0, Math.min(1, this.params.noiseAmount));
+  }
+
+  /**
+   * Get the looped noise buffer for a color
+   */
+  private getNoiseBuffer(color: NoiseColor): AudioBuffer | null {
+    if (!this.context) return null;
+
+    let buffer = this.noiseBuffers.get(color);
+    if (!buffer) {
+      buffer = generateNoiseBuffer(this.context, color);
+      this.noiseBuffers.set(color, buffer);
+    }
+    return buffer;
+  }
+
+  /**
+   * Play a note - held notes feed the arpeggiator while it's on
+   */
+  playNote(frequency: number, noteKey: string | number = frequency, velocity: number = 127): void {
+    if (this.arpeggiator?.isEnabled()) {
+      this.arpeggiator.noteOn(frequency, noteKey, velocity);
+      return;
+    }
+    this.triggerNote(frequency, noteKey, velocity);
   }
 
   /**
-   * Play a note
+   * Start a note on the voices, bypassing the arpeggiator
    */
-  playNote(frequency: number, noteKey: string | number = frequency): void {
+  private triggerNote(frequency: number, noteKey: string | number, velocity: number): void {
     if (!this.context) {
       console.warn('Audio context not initialized');
       return;
@@ -482,78 +1035,606 @@ export class AudioEngine {
     if (this.context.state !== 'running') {
       // Try to resume
       this.context.resume().then(() => {
-        this.playNote(frequency, noteKey);
+        this.triggerNote(frequency, noteKey, velocity);
       }).catch(err => {
         console.error('Failed to resume audio context:', err);
       });
       return;
     }
 
+    this.noteOnListener?.();
+
+    if (this.getVoiceMode() !== 'poly') {
+      this.playMonoNote(frequency, noteKey, velocity);
+      return;
+    }
+
     // Check if note already playing
     if (this.activeVoices.has(noteKey)) {
       return;
     }
 
-    // Get free voice
-    const voice = this.getFreeVoice();
+    this.startVoice(frequency, noteKey, velocity);
+  }
+
+  /**
+   * Start a new voice for a note
+   * Pass a previous frequency to glide up or down from it
+   */
+  private startVoice(
+    frequency: number,
+    noteKey: string | number,
+    velocity: number,
+    glideFrom: number | null = null
+  ): void {
+    if (!this.context) return;
 
-    // Stop voice if it was active
-    if (voice.isActive) {
-      this.releaseVoice(voice);
+    // Sample zones are picked once per note so unison copies play the same sample
+    let sample: SamplerNote | null = null;
+    if (this.moduleStates.get('sampler') === true) {
+      sample = this.sampler?.pickNote(this.frequencyToNote(frequency), velocity) ?? null;
+      // Keys outside every zone are silent
+      if (!sample) return;
+    } else if (this.moduleStates.get('granular') === true && !this.granularBuffer) {
+      // Nothing to play until a source is loaded
+      return;
     }
 
+    // Get free voice with room for every unison oscillator
+    const unisonCount = this.getUnisonCount();
+    const voice = this.getFreeVoice(unisonCount, frequency);
+    const now = this.context.currentTime;
+
     // Create nodes for this voice
-    voice.oscillator = this.context.createOscillator();
     voice.envelope = this.context.createGain();
+    voice.filter = this.context.createBiquadFilter();
+    this.applyVoiceFilter(voice.filter, frequency, velocity);
+    voice.unisonGain = this.context.createGain();
+    // Keep perceived loudness roughly constant as unison voices are added
+    // and crossfade the oscillators against the noise level
+    const noiseLevel = this.getNoiseLevel();
+    voice.unisonGain.gain.value = (1 - noiseLevel) / Math.sqrt(unisonCount);
+
+    const width = Math.max(0, Math.min(100, this.params.unisonWidth)) / 100;
+    const spreads: number[] = [];
+
+    for (let i = 0; i < unisonCount; i++) {
+      // Spread position from -1 to 1 across the unison stack
+      const spread = unisonCount === 1 ? 0 : (i / (unisonCount - 1)) * 2 - 1;
+      spreads.push(spread);
+
+      // Each unison oscillator starts at its own point in the cycle
+      const phase = unisonCount > 1 && this.params.unisonRandomPhase ? Math.random() : 0;
+      const oscillator = this.createVoiceOscillator(sample, phase);
+      oscillator.frequency.value = this.getDetunedFrequency(glideFrom ?? frequency);
+      oscillator.detune.value = spread * this.params.unisonDetune;
+
+      const panner = this.context.createStereoPanner();
+      panner.pan.value = spread * width;
+
+      oscillator.connect(panner);
+      panner.connect(voice.unisonGain);
+
+      oscillator.start(now);
+
+      voice.oscillators.push(oscillator);
+      voice.panners.push(panner);
+    }
 
-    // Configure oscillator
-    voice.oscillator.type = this.params.waveType;
-    voice.oscillator.frequency.value = frequency;
+    // Noise source - looped buffer started at a random offset so voices don't share a pattern
+    if (noiseLevel > 0) {
+      const noiseBuffer = this.getNoiseBuffer(this.params.noiseColor);
+      if (noiseBuffer) {
+        voice.noiseSource = this.context.createBufferSource();
+        voice.noiseSource.buffer = noiseBuffer;
+        voice.noiseSource.loop = true;
 
-    // Apply master detune
-    if (this.params.masterDetune !== 0) {
-      const detuneCents = this.params.masterDetune;
-      const detuneRatio = Math.pow(2, detuneCents / 1200);
-      voice.oscillator.frequency.value *= detuneRatio;
-    }
+        voice.noiseGain = this.context.createGain();
+        voice.noiseGain.gain.value = noiseLevel;
 
-    // Configure envelope - start at 0, ramp to 1, then to sustain
-    // Check if amplitude module is enabled
-    const amplitudeEnabled = this.getModuleEnabled('adsr-base');
-    const now = this.context.currentTime;
-    voice.envelope.gain.setValueAtTime(0, now);
-    if (amplitudeEnabled) {
-      voice.envelope.gain.linearRampToValueAtTime(1, now + this.params.attackTime);
-      voice.envelope.gain.linearRampToValueAtTime(
-        this.params.sustainLevel,
-        now + this.params.attackTime + this.params.decayTime
-      );
-    } else {
-      // If amplitude module is disabled, keep envelope at 0 (muted)
-      voice.envelope.gain.setValueAtTime(0, now);
+        voice.noiseSource.connect(voice.noiseGain);
+        voice.noiseGain.connect(voice.filter);
+        voice.noiseSource.start(now, Math.random() * noiseBuffer.duration);
+      }
     }
 
-    // Connect voice signal chain - oscillator -> envelope -> main filter
-    // No per-voice filter to avoid double filtering
-    voice.oscillator.connect(voice.envelope);
-    voice.envelope.connect(this.filter!);
+    this.triggerAmpEnvelope(voice.envelope, 0, velocity, now);
 
-    // Start oscillator
-    voice.oscillator.start(this.context.currentTime);
+    // Post-envelope gain and pan for the modulation matrix
+    voice.modGain = this.context.createGain();
+    voice.modPanner = this.context.createStereoPanner();
+
+    // Connect voice signal chain - oscillators -> panners -> unison gain -> filter -> envelope -> mod gain/pan -> voice bus
+    voice.unisonGain.connect(voice.filter);
+    voice.filter.connect(voice.envelope);
+    voice.envelope.connect(voice.modGain);
+    voice.modGain.connect(voice.modPanner);
+    voice.modPanner.connect(this.voiceBus!);
+
+    if (this.lfoCutoffScale && !this.filterBypassed) {
+      this.lfoCutoffScale.connect(voice.filter.frequency);
+    }
+    if (this.lfoPitchScale) {
+      voice.oscillators.forEach(oscillator => this.lfoPitchScale!.connect(oscillator.detune));
+    }
+
+    this.triggerFilterEnvelope(voice.filter, frequency, velocity, now);
+    this.lfo?.noteOn(now);
+
+    if (this.modMatrix) {
+      const toTargets = (params: AudioParam[], scales?: number[]): ModTarget[] =>
+        params.map((param, i) => ({ param, scale: scales ? scales[i] : 1 }));
+      const detunes = voice.oscillators.map(oscillator => oscillator.detune);
+
+      voice.modulation = this.modMatrix.attachVoice({
+        cutoff: this.filterBypassed ? [] : toTargets([voice.filter.detune]),
+        resonance: this.filterBypassed ? [] : toTargets([voice.filter.Q]),
+        pitch: toTargets(detunes),
+        unisonDetune: toTargets(detunes, spreads),
+        wavetablePosition: toTargets(voice.oscillators.flatMap(oscillator => oscillator.position ? [oscillator.position] : [])),
+        amplitude: toTargets([voice.modGain.gain]),
+        pan: toTargets([voice.modPanner.pan]),
+        noise: voice.noiseGain ? toTargets([voice.noiseGain.gain]) : []
+      }, now);
+    }
 
     // Store voice state
     voice.isActive = true;
     voice.noteKey = noteKey;
     voice.frequency = frequency;
-    voice.startTime = this.context.currentTime;
+    voice.velocity = velocity;
+    voice.startTime = now;
+    voice.releasedAt = null;
+
+    if (glideFrom !== null) {
+      this.glideVoice(voice, frequency, now);
+    }
 
     this.activeVoices.set(noteKey, voice);
   }
 
+  /**
+   * Create one unison oscillator for a voice
+   * Source modules swap the basic waveform out - the sampler first, then granular, FM and the wavetable oscillator
+   */
+  private createVoiceOscillator(sample: SamplerNote | null, phase: number = 0): VoiceOscillator {
+    const context = this.context!;
+
+    if (sample) {
+      const rootFrequency = this.noteToFrequency(sample.zone.rootNote) ?? AudioEngine.midiToFrequency(sample.zone.rootNote);
+      return new SampleOscillator(context, sample, rootFrequency);
+    }
+
+    if (this.granularBuffer && this.moduleStates.get('granular') === true) {
+      return new GranularOscillator(context, this.granularBuffer, this.granularSettings);
+    }
+
+    if (this.moduleStates.get('fm') === true) {
+      return new FMOscillator(context, this.fmSettings);
+    }
+
+    if (this.wavetableReady && this.moduleStates.get('wavetable') === true) {
+      const table = this.getWavetable();
+      const oscillator = new WavetableOscillator(context, table.id, table.frames, phase);
+      oscillator.position.value = this.params.wavetablePosition;
+      return oscillator;
+    }
+
+    const oscillator = context.createOscillator();
+    this.applyWaveType(oscillator);
+    const phaseWave = phase > 0 ? this.getPhaseWave(phase) : null;
+    if (phaseWave) {
+      oscillator.setPeriodicWave(phaseWave);
+    }
+    return oscillator;
+  }
+
+  /**
+   * The current wave type rotated to start part way through its cycle (0 to 1)
+   * OscillatorNodes have no phase control, so the rotation is built into a PeriodicWave -
+   * phases are rounded to one of PHASE_STEPS so the waves can be reused
+   */
+  private getPhaseWave(phase: number): PeriodicWave | null {
+    if (!this.context) return null;
+
+    const { waveType } = this.params;
+    const harmonicWave = waveType === 'custom' ? this.getHarmonicWave() : null;
+    if (waveType === 'custom' && !harmonicWave) return null;
+    if (this.phaseWaveSource?.waveType !== waveType || this.phaseWaveSource?.harmonicWave !== harmonicWave) {
+      this.phaseWaves.clear();
+      this.phaseWaveSource = { waveType, harmonicWave };
+    }
+
+    const step = Math.floor(phase * PHASE_STEPS) % PHASE_STEPS;
+    let wave = this.phaseWaves.get(step);
+    if (!wave) {
+      const { amplitudes, phases } = waveType === 'custom'
+        ? { amplitudes: this.params.harmonicAmplitudes, phases: this.params.harmonicPhases }
+        : getWaveTypeHarmonics(waveType);
+      wave = createHarmonicWave(this.context, amplitudes, rotateHarmonicPhases(phases, step / PHASE_STEPS));
+      this.phaseWaves.set(step, wave);
+    }
+    return wave;
+  }
+
+  /**
+   * Set an oscillator to the current wave type - custom uses the harmonic wave
+   */
+  private applyWaveType(oscillator: OscillatorNode): void {
+    const wave = this.params.waveType === 'custom' ? this.getHarmonicWave() : null;
+    if (wave) {
+      oscillator.setPeriodicWave(wave);
+    } else if (this.params.waveType !== 'custom') {
+      oscillator.type = this.params.waveType;
+    }
+  }
+
+  /**
+   * Harmonic wave for the current amplitudes and phases, built on first use after a change
+   */
+  private getHarmonicWave(): PeriodicWave | null {
+    if (!this.context) return null;
+    const { harmonicAmplitudes: amplitudes, harmonicPhases: phases } = this.params;
+    if (!this.harmonicWave ||
+        this.harmonicWaveSource?.amplitudes !== amplitudes ||
+        this.harmonicWaveSource?.phases !== phases) {
+      this.harmonicWave = createHarmonicWave(this.context, amplitudes, phases);
+      this.harmonicWaveSource = { amplitudes, phases };
+    }
+    return this.harmonicWave;
+  }
+
+  /**
+   * Apply the wave type to held notes
+   */
+  private updateActiveWaveTypes(): void {
+    for (const voice of this.activeVoices.values()) {
+      voice.oscillators.forEach(oscillator => {
+        if (oscillator instanceof OscillatorNode) {
+          this.applyWaveType(oscillator);
+        }
+      });
+    }
+  }
+
+  /**
+   * Selected wavetable - an imported table if its ID matches, otherwise a built-in one
+   */
+  private getWavetable(): { id: string; frames: Float32Array[] } {
+    if (this.userWavetable && this.userWavetable.id === this.params.wavetable) {
+      return this.userWavetable;
+    }
+    const id = BUILT_IN_WAVETABLES.some(table => table.id === this.params.wavetable)
+      ? this.params.wavetable
+      : 'basic';
+    return { id, frames: getBuiltInWavetable(id) };
+  }
+
+  /**
+   * Voice mode in effect - the voice module gates mono and legato like unison
+   */
+  private getVoiceMode(): VoiceMode {
+    return this.getModuleEnabled('voice-base') ? this.params.voiceMode : 'poly';
+  }
+
+  /**
+   * Frequency with master detune applied
+   */
+  private getDetunedFrequency(frequency: number): number {
+    return frequency * Math.pow(2, this.params.masterDetune / 1200);
+  }
+
+  /**
+   * Start a note in mono or legato mode
+   * Every held note is remembered so releasing one falls back to the next by priority
+   */
+  private playMonoNote(frequency: number, noteKey: string | number, velocity: number): void {
+    if (this.monoNotes.some(note => note.noteKey === noteKey)) return;
+
+    const overlapping = this.monoNotes.length > 0;
+    this.monoNotes.push({ noteKey, frequency, velocity });
+
+    const note = this.selectMonoNote();
+    if (note && note.noteKey !== this.monoNoteKey) {
+      this.moveMonoVoice(note, overlapping);
+    }
+  }
+
+  /**
+   * Release a held note in mono or legato mode
+   */
+  private releaseMonoNote(noteKey: string | number): void {
+    this.monoNotes = this.monoNotes.filter(note => note.noteKey !== noteKey);
+    if (noteKey !== this.monoNoteKey) return;
+
+    const next = this.selectMonoNote();
+    if (next) {
+      // Fall back to a note that is still held
+      this.moveMonoVoice(next, true);
+      return;
+    }
+
+    const voice = this.activeVoices.get(noteKey);
+    if (voice) {
+      this.releaseVoice(voice);
+      this.activeVoices.delete(noteKey);
+    }
+    this.monoNoteKey = null;
+  }
+
+  /**
+   * Held note that should sound, by note priority
+   */
+  private selectMonoNote(): MonoNote | null {
+    if (this.monoNotes.length === 0) return null;
+
+    switch (this.params.notePriority) {
+      case 'low':
+        return this.monoNotes.reduce((low, note) => note.frequency < low.frequency ? note : low);
+      case 'high':
+        return this.monoNotes.reduce((high, note) => note.frequency > high.frequency ? note : high);
+      default:
+        return this.monoNotes[this.monoNotes.length - 1];
+    }
+  }
+
+  /**
+   * Move the mono voice to a note
+   * Legato mode keeps the envelopes running for overlapping notes, mono mode retriggers them
+   */
+  private moveMonoVoice(note: MonoNote, overlapping: boolean): void {
+    if (!this.context) return;
+
+    const now = this.context.currentTime;
+    const glide = this.params.glideTime > 0 && (this.params.glideMode === 'always' || overlapping);
+    const glideFrom = glide ? this.lastMonoFrequency : null;
+    const voice = this.monoNoteKey !== null ? this.activeVoices.get(this.monoNoteKey) : undefined;
+
+    if (!voice) {
+      this.startVoice(note.frequency, note.noteKey, note.velocity, glideFrom);
+    } else {
+      this.activeVoices.delete(voice.noteKey);
+      this.activeVoices.set(note.noteKey, voice);
+      voice.noteKey = note.noteKey;
+      voice.frequency = note.frequency;
+
+      if (glide) {
+        this.glideVoice(voice, note.frequency, now);
+      } else {
+        this.setVoiceFrequency(voice, note.frequency, now);
+      }
+
+      if (this.getVoiceMode() === 'mono' || !overlapping) {
+        voice.velocity = note.velocity;
+        this.retriggerVoice(voice, now);
+      } else if (voice.filter) {
+        // Key tracking follows the new pitch
+        this.applyVoiceFilter(voice.filter, voice.frequency, voice.velocity);
+      }
+    }
+
+    this.monoNoteKey = note.noteKey;
+    this.lastMonoFrequency = note.frequency;
+  }
+
+  /**
+   * Jump a voice's oscillators to a new pitch
+   */
+  private setVoiceFrequency(voice: Voice, frequency: number, now: number): void {
+    const target = this.getDetunedFrequency(frequency);
+    voice.oscillators.forEach(oscillator => {
+      oscillator.frequency.cancelScheduledValues(now);
+      oscillator.frequency.setValueAtTime(target, now);
+    });
+  }
+
+  /**
+   * Slide a voice's oscillators to a new pitch over the glide time
+   * The ramp is exponential so the glide moves evenly through the notes in between
+   */
+  private glideVoice(voice: Voice, frequency: number, now: number): void {
+    const target = this.getDetunedFrequency(frequency);
+    const glideTime = this.params.glideTime / 1000;
+    voice.oscillators.forEach(oscillator => {
+      const current = oscillator.frequency.value;
+      oscillator.frequency.cancelScheduledValues(now);
+      oscillator.frequency.setValueAtTime(current, now);
+      oscillator.frequency.exponentialRampToValueAtTime(target, now + glideTime);
+    });
+  }
+
+  /**
+   * Restart a held voice's envelopes from where they are, for mono retriggering
+   */
+  private retriggerVoice(voice: Voice, now: number): void {
+    if (voice.envelope) {
+      this.triggerAmpEnvelope(voice.envelope, voice.envelope.gain.value, voice.velocity, now);
+    }
+    if (voice.filter) {
+      this.applyVoiceFilter(voice.filter, voice.frequency, voice.velocity);
+      this.triggerFilterEnvelope(voice.filter, voice.frequency, voice.velocity, now);
+    }
+    this.lfo?.noteOn(now);
+    voice.oscillators.forEach(oscillator => oscillator.noteOn?.(now));
+
+    if (voice.modulation && this.modMatrix) {
+      const targets = voice.modulation.targets;
+      this.modMatrix.detachVoice(voice.modulation);
+      voice.modulation = this.modMatrix.attachVoice(targets, now);
+    }
+  }
+
+  /**
+   * Start the amplitude envelope - ramp from a starting level to the peak, then to sustain
+   * Velocity scales the peak and can shorten or lengthen the attack
+   */
+  private triggerAmpEnvelope(envelope: GainNode, from: number, velocity: number, now: number): void {
+    envelope.gain.cancelScheduledValues(now);
+    envelope.gain.setValueAtTime(from, now);
+
+    // If amplitude module is disabled, keep envelope at 0 (muted)
+    if (!this.getModuleEnabled('adsr-base')) {
+      envelope.gain.setValueAtTime(0, now);
+      return;
+    }
+
+    const peak = this.getVelocityScale(velocity, this.params.velocityToAmp);
+    const attackTime = this.getVelocityAttack(velocity);
+    envelope.gain.linearRampToValueAtTime(peak, now + attackTime);
+    envelope.gain.linearRampToValueAtTime(
+      this.params.sustainLevel * peak,
+      now + attackTime + this.params.decayTime
+    );
+  }
+
+  /**
+   * Velocity from 0-127 to 0-1 through the velocity curve
+   * Full velocity is used when the velocity module is off
+   */
+  private getVelocityAmount(velocity: number): number {
+    if (!this.getModuleEnabled('velocity-base')) return 1;
+
+    const normalized = Math.max(0, Math.min(127, velocity)) / 127;
+    switch (this.params.velocityCurve) {
+      case 'soft':
+        return Math.sqrt(normalized);
+      case 'hard':
+        return normalized * normalized;
+      default:
+        return normalized;
+    }
+  }
+
+  /**
+   * Scale for a velocity destination - 0% ignores velocity, 100% follows it fully
+   */
+  private getVelocityScale(velocity: number, amount: number): number {
+    const sensitivity = Math.max(0, Math.min(100, amount)) / 100;
+    return 1 - sensitivity + sensitivity * this.getVelocityAmount(velocity);
+  }
+
+  /**
+   * Attack time for a note - positive amounts make harder notes snappier, negative ones slower
+   */
+  private getVelocityAttack(velocity: number): number {
+    const amount = Math.max(-100, Math.min(100, this.params.velocityToAttack)) / 100;
+    const scale = 1 - amount * this.getVelocityAmount(velocity);
+    return Math.max(0.001, this.params.attackTime * scale);
+  }
+
+  /**
+   * Cutoff for a note with key tracking and velocity applied
+   * Tracking is relative to middle C, 100% follows the keyboard exactly
+   * Velocity closes the filter by up to 4 octaves on the softest notes
+   */
+  private getKeyTrackedCutoff(frequency: number, velocity: number): number {
+    const semitonesFromC4 = 12 * Math.log2(frequency / 261.63);
+    const velocityOctaves = 4 * (1 - this.getVelocityScale(velocity, this.params.velocityToCutoff));
+    const cutoff = this.params.filterCutoff *
+      Math.pow(2, (this.params.filterKeyTracking / 100) * semitonesFromC4 / 12 - velocityOctaves);
+    return Math.max(20, Math.min(20000, cutoff));
+  }
+
+  /**
+   * Apply type, cutoff and resonance to a voice filter
+   * When bypassed the filter is opened up so it passes everything
+   */
+  private applyVoiceFilter(filter: BiquadFilterNode, frequency: number, velocity: number): void {
+    if (this.filterBypassed) {
+      if (this.params.filterType === 'lowpass') {
+        filter.frequency.value = 20000;
+      } else if (this.params.filterType === 'highpass') {
+        filter.frequency.value = 20;
+      } else {
+        filter.frequency.value = 10000;
+        filter.Q.value = 0.1;
+      }
+      filter.type = this.params.filterType;
+      return;
+    }
+
+    filter.type = this.params.filterType;
+    filter.frequency.value = this.getKeyTrackedCutoff(frequency, velocity);
+    filter.Q.value = this.params.filterResonance;
+  }
+
+  /**
+   * Convert a cutoff offset in Hz to filter detune in cents
+   * The envelope runs on detune so cutoff changes don't fight its automation
+   */
+  private cutoffOffsetToCents(baseCutoff: number, offsetHz: number): number {
+    const target = Math.max(20, Math.min(20000, baseCutoff + offsetHz));
+    return 1200 * Math.log2(target / baseCutoff);
+  }
+
+  /**
+   * Start the filter envelope for a note - attack to peak, decay to sustain
+   */
+  private triggerFilterEnvelope(filter: BiquadFilterNode, frequency: number, velocity: number, now: number): void {
+    filter.detune.cancelScheduledValues(now);
+
+    if (this.filterBypassed || !this.getModuleEnabled('filter-env-base')) {
+      filter.detune.setValueAtTime(0, now);
+      return;
+    }
+
+    // Retriggered mono notes restart from wherever the envelope was
+    filter.detune.setValueAtTime(filter.detune.value, now);
+
+    // Velocity sensitivity scales the envelope amount from full down to the curved velocity
+    const amount = this.params.filterEnvAmount * this.getVelocityScale(velocity, this.params.filterEnvVelocity);
+    if (amount === 0) return;
+
+    const baseCutoff = this.getKeyTrackedCutoff(frequency, velocity);
+    const attack = this.params.filterEnvAttack / 1000;
+    const decay = this.params.filterEnvDecay / 1000;
+
+    filter.detune.linearRampToValueAtTime(this.cutoffOffsetToCents(baseCutoff, amount), now + attack);
+    filter.detune.linearRampToValueAtTime(
+      this.cutoffOffsetToCents(baseCutoff, amount * this.params.filterEnvSustain),
+      now + attack + decay
+    );
+  }
+
+  /**
+   * Release the filter envelope back to the base cutoff
+   */
+  private releaseFilterEnvelope(filter: BiquadFilterNode, now: number): void {
+    const currentDetune = filter.detune.value;
+    filter.detune.cancelScheduledValues(now);
+    filter.detune.setValueAtTime(currentDetune, now);
+    filter.detune.linearRampToValueAtTime(0, now + this.params.filterEnvRelease / 1000);
+  }
+
+  /**
+   * Re-apply filter settings to every held note
+   */
+  private updateActiveVoiceFilters(): void {
+    for (const voice of this.activeVoices.values()) {
+      if (voice.filter) {
+        this.applyVoiceFilter(voice.filter, voice.frequency, voice.velocity);
+      }
+    }
+  }
+
   /**
    * Release a note
    */
   releaseNote(noteKey: string | number): void {
+    // Notes started before the arpeggiator was turned on are released directly
+    if (this.arpeggiator?.noteOff(noteKey)) return;
+    this.endNote(noteKey);
+  }
+
+  /**
+   * Release a note on the voices, bypassing the arpeggiator
+   */
+  private endNote(noteKey: string | number): void {
+    if (this.monoNotes.some(note => note.noteKey === noteKey)) {
+      this.releaseMonoNote(noteKey);
+      return;
+    }
+
     const voice = this.activeVoices.get(noteKey);
     if (!voice || !voice.isActive) return;
 
@@ -568,43 +1649,141 @@ export class AudioEngine {
     if (!voice.isActive || !voice.envelope || !this.context) return;
 
     const now = this.context.currentTime;
-    const currentGain = voice.envelope.gain.value;
+    const envelope = voice.envelope;
+    const currentGain = envelope.gain.value;
+    voice.releasedAt = now;
 
     // Start release phase
-    voice.envelope.gain.cancelScheduledValues(now);
-    voice.envelope.gain.setValueAtTime(currentGain, now);
-    voice.envelope.gain.linearRampToValueAtTime(0, now + this.params.releaseTime);
+    envelope.gain.cancelScheduledValues(now);
+    envelope.gain.setValueAtTime(currentGain, now);
+    envelope.gain.linearRampToValueAtTime(0, now + this.params.releaseTime);
+
+    if (voice.filter) {
+      this.releaseFilterEnvelope(voice.filter, now);
+    }
+    if (voice.modulation) {
+      this.modMatrix?.releaseVoice(voice.modulation, now);
+    }
+
+    voice.oscillators.forEach(oscillator => oscillator.noteOff?.(now));
 
-    // Stop oscillator after release
+    // Stop oscillators after release
     const stopTime = now + this.params.releaseTime + 0.01;
-    voice.oscillator!.stop(stopTime);
+    voice.oscillators.forEach(oscillator => oscillator.stop(stopTime));
+    voice.noiseSource?.stop(stopTime);
 
     // Clean up after stop
     setTimeout(() => {
-      if (voice.oscillator) {
-        try {
-          voice.oscillator.disconnect();
-        } catch (e) { }
-      }
-      if (voice.envelope) {
-        try {
-          voice.envelope.disconnect();
-        } catch (e) { }
-      }
-      voice.isActive = false;
-      voice.oscillator = null;
-      voice.envelope = null;
+      // The voice may have been stolen and reused in the meantime
+      if (voice.envelope !== envelope) return;
+      this.disconnectVoice(voice);
     }, (this.params.releaseTime + 0.01) * 1000);
   }
 
+  /**
+   * Take a voice immediately for a new note
+   * The note it was playing is handed off to a copy that fades out quickly, so it doesn't click
+   */
+  private stealVoice(voice: Voice): void {
+    for (const [noteKey, activeVoice] of this.activeVoices) {
+      if (activeVoice === voice) {
+        this.activeVoices.delete(noteKey);
+        break;
+      }
+    }
+
+    if (!this.context || !voice.envelope) {
+      this.disconnectVoice(voice);
+      return;
+    }
+
+    const now = this.context.currentTime;
+    const fading: Voice = { ...voice, oscillators: [...voice.oscillators], panners: [...voice.panners] };
+    const gain = fading.envelope!.gain;
+    const currentGain = gain.value;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(currentGain, now);
+    gain.linearRampToValueAtTime(0, now + this.stealFadeTime);
+
+    const stopTime = now + this.stealFadeTime + 0.005;
+    fading.oscillators.forEach(oscillator => {
+      try {
+        oscillator.stop(stopTime);
+      } catch (e) { }
+    });
+    try {
+      fading.noiseSource?.stop(stopTime);
+    } catch (e) { }
+
+    setTimeout(() => this.disconnectVoice(fading), (this.stealFadeTime + 0.02) * 1000);
+
+    // Return the pool voice empty, its nodes now belong to the fading copy
+    voice.oscillators = [];
+    voice.panners = [];
+    voice.unisonGain = null;
+    voice.noiseSource = null;
+    voice.noiseGain = null;
+    voice.filter = null;
+    voice.modGain = null;
+    voice.modPanner = null;
+    voice.modulation = null;
+    voice.envelope = null;
+    voice.releasedAt = null;
+    voice.isActive = false;
+  }
+
+  /**
+   * Stop and disconnect all nodes of a voice and return it to the pool
+   */
+  private disconnectVoice(voice: Voice): void {
+    voice.oscillators.forEach(oscillator => {
+      try {
+        oscillator.stop();
+      } catch (e) { }
+      oscillator.disconnect();
+    });
+    if (voice.noiseSource) {
+      try {
+        voice.noiseSource.stop();
+      } catch (e) { }
+      voice.noiseSource.disconnect();
+    }
+    voice.panners.forEach(panner => panner.disconnect());
+    voice.unisonGain?.disconnect();
+    voice.noiseGain?.disconnect();
+    voice.filter?.disconnect();
+    voice.modGain?.disconnect();
+    voice.modPanner?.disconnect();
+    if (voice.modulation) {
+      this.modMatrix?.detachVoice(voice.modulation);
+    }
+    voice.envelope?.disconnect();
+
+    voice.oscillators = [];
+    voice.panners = [];
+    voice.unisonGain = null;
+    voice.noiseSource = null;
+    voice.noiseGain = null;
+    voice.filter = null;
+    voice.modGain = null;
+    voice.modPanner = null;
+    voice.modulation = null;
+    voice.envelope = null;
+    voice.releasedAt = null;
+    voice.isActive = false;
+  }
+
   /**
    * Stop all notes
    */
   stopAllNotes(): void {
+    this.arpeggiator?.clear();
     for (const [, voice] of this.activeVoices) {
       this.releaseVoice(voice);
     }
     this.activeVoices.clear();
+    this.monoNotes = [];
+    this.monoNoteKey = null;
   }
 
   /**
@@ -613,17 +1792,35 @@ export class AudioEngine {
   private createLFO(): void {
     if (!this.context) return;
 
-    this.lfo = this.context.createOscillator();
+    this.lfo = new LFOSource(this.context);
     this.lfoGain = this.context.createGain();
 
-    this.lfo.type = this.params.lfoWaveType;
-    this.lfo.frequency.value = this.params.lfoRate;
+    this.lfo.setBpm(this.bpm);
+    this.lfo.setTiming(this.getLFOTiming());
     this.lfoGain.gain.value = this.params.lfoDepth / 100;
 
-    this.lfo.connect(this.lfoGain);
-    this.lfo.start();
+    this.lfo.output.connect(this.lfoGain);
+
+    this.routeLFO();
+  }
+
+  /**
+   * LFO shape and timing from the flat LFO params
+   */
+  private getLFOTiming(): LFOTiming {
+    return {
+      shape: this.params.lfoWaveType,
+      rate: this.params.lfoRate,
+      sync: this.params.lfoSync,
+      division: this.params.lfoDivision,
+      modifier: this.params.lfoDivisionModifier,
+      retrigger: this.params.lfoRetrigger,
+      customShape: this.params.lfoCustomShape
+    };
+  }
 
-    this.routeLFO();
+  private updateLFOTiming(): void {
+    this.lfo?.setTiming(this.getLFOTiming());
   }
 
   /**
@@ -634,14 +1831,22 @@ export class AudioEngine {
 
     // Disconnect LFO from all targets
     this.lfoGain.disconnect();
+    this.lfoCutoffScale?.disconnect();
+    this.lfoCutoffScale = null;
+    this.lfoPitchScale?.disconnect();
+    this.lfoPitchScale = null;
 
     switch (this.params.lfoTarget) {
       case 'cutoff':
-        if (this.filter && !this.filterBypassed) {
-          const scale = this.context.createGain();
-          scale.gain.value = this.params.filterCutoff * 0.5;
-          this.lfoGain.connect(scale);
-          scale.connect(this.filter.frequency);
+        if (!this.filterBypassed) {
+          this.lfoCutoffScale = this.context.createGain();
+          this.lfoCutoffScale.gain.value = this.params.filterCutoff * 0.5;
+          this.lfoGain.connect(this.lfoCutoffScale);
+          for (const voice of this.voicePool) {
+            if (voice.isActive && voice.filter) {
+              this.lfoCutoffScale.connect(voice.filter.frequency);
+            }
+          }
         }
         break;
       case 'amplitude':
@@ -651,8 +1856,15 @@ export class AudioEngine {
         ampScale.connect(this.masterGain!.gain);
         break;
       case 'pitch':
-        // Would need to modulate oscillator frequency
-        // For now, skip
+        // Vibrato on every oscillator's detune - full depth swings one semitone
+        this.lfoPitchScale = this.context.createGain();
+        this.lfoPitchScale.gain.value = 100;
+        this.lfoGain.connect(this.lfoPitchScale);
+        for (const voice of this.voicePool) {
+          if (voice.isActive) {
+            voice.oscillators.forEach(oscillator => this.lfoPitchScale!.connect(oscillator.detune));
+          }
+        }
         break;
     }
   }
@@ -673,7 +1885,8 @@ export class AudioEngine {
 
   // Update audio parameters
   updateParams(params: AudioEngineParams): void {
-    this.params = { ...params };
+    // Merge so configs saved before a parameter existed keep its default
+    this.params = { ...this.params, ...params };
 
     // Apply all parameters
     this.setWaveType(this.params.waveType);
@@ -692,7 +1905,36 @@ export class AudioEngine {
     this.setLFODepth(this.params.lfoDepth);
     this.setLFOWaveType(this.params.lfoWaveType);
     this.setLFOTarget(this.params.lfoTarget);
+    this.updateLFOTiming();
+    this.setUnisonMode(this.params.unisonMode);
+    this.setUnisonVoices(this.params.unisonVoices);
+    this.setUnisonDetune(this.params.unisonDetune);
+    this.setUnisonWidth(this.params.unisonWidth);
+    this.setUnisonRandomPhase(this.params.unisonRandomPhase);
     this.setMasterDetune(this.params.masterDetune);
+    this.setNoiseAmount(this.params.noiseAmount);
+    this.setNoiseColor(this.params.noiseColor);
+    this.setFilterKeyTracking(this.params.filterKeyTracking);
+    this.setFilterEnvAttack(this.params.filterEnvAttack);
+    this.setFilterEnvDecay(this.params.filterEnvDecay);
+    this.setFilterEnvSustain(this.params.filterEnvSustain);
+    this.setFilterEnvRelease(this.params.filterEnvRelease);
+    this.setFilterEnvAmount(this.params.filterEnvAmount);
+    this.setFilterEnvVelocity(this.params.filterEnvVelocity);
+    this.setVelocityCurve(this.params.velocityCurve);
+    this.setVelocityToAmp(this.params.velocityToAmp);
+    this.setVelocityToCutoff(this.params.velocityToCutoff);
+    this.setVelocityToAttack(this.params.velocityToAttack);
+    this.setVoiceMode(this.params.voiceMode);
+    this.setNotePriority(this.params.notePriority);
+    this.setGlideTime(this.params.glideTime);
+    this.setGlideMode(this.params.glideMode);
+    this.setPolyphony(this.params.polyphony);
+    this.setVoiceStealing(this.params.voiceStealing);
+    this.setWavetable(this.params.wavetable);
+    this.setWavetablePosition(this.params.wavetablePosition);
+    this.setHarmonicAmplitudes(this.params.harmonicAmplitudes);
+    this.setHarmonicPhases(this.params.harmonicPhases);
   }
 
   // ===== PARAMETER SETTERS =====
@@ -700,10 +1942,25 @@ export class AudioEngine {
   setWaveType(type: OscillatorType): void {
     this.params.waveType = type;
     // Update all active voices
-    for (const voice of this.activeVoices.values()) {
-      if (voice.oscillator) {
-        voice.oscillator.type = type;
-      }
+    this.updateActiveWaveTypes();
+  }
+
+  /**
+   * Set the custom wave's harmonic amplitudes - held notes pick up the change if the wave type is custom
+   */
+  setHarmonicAmplitudes(amplitudes: number[]): void {
+    if (amplitudes === this.harmonicWaveSource?.amplitudes) return;
+    this.params.harmonicAmplitudes = amplitudes;
+    if (this.params.waveType === 'custom') {
+      this.updateActiveWaveTypes();
+    }
+  }
+
+  setHarmonicPhases(phases: number[]): void {
+    if (phases === this.harmonicWaveSource?.phases) return;
+    this.params.harmonicPhases = phases;
+    if (this.params.waveType === 'custom') {
+      this.updateActiveWaveTypes();
     }
   }
 
@@ -732,49 +1989,105 @@ export class AudioEngine {
 
   setFilterCutoff(freq: number): void {
     this.params.filterCutoff = Math.max(20, Math.min(20000, freq));
-    if (this.filter && !this.filterBypassed) {
-      this.filter.frequency.value = this.params.filterCutoff;
+    if (!this.filterBypassed) {
+      this.updateActiveVoiceFilters();
     }
   }
 
   setFilterResonance(q: number): void {
     this.params.filterResonance = Math.max(0.1, Math.min(20, q));
-    if (this.filter && !this.filterBypassed) {
-      this.filter.Q.value = this.params.filterResonance;
+    if (!this.filterBypassed) {
+      this.updateActiveVoiceFilters();
     }
   }
 
   setFilterType(type: BiquadFilterType): void {
     this.params.filterType = type;
-    if (this.filter && !this.filterBypassed) {
-      this.filter.type = type;
+    if (!this.filterBypassed) {
+      this.updateActiveVoiceFilters();
+    }
+  }
+
+  setFilterKeyTracking(amount: number): void {
+    this.params.filterKeyTracking = Math.max(0, Math.min(100, amount));
+    if (!this.filterBypassed) {
+      this.updateActiveVoiceFilters();
     }
   }
 
   setFilterBypass(bypassed: boolean): void {
+    const changed = this.filterBypassed !== bypassed;
     this.filterBypassed = bypassed;
-    if (!this.filter) return;
-
-    if (bypassed) {
-      // Set filter to all-pass
-      if (this.params.filterType === 'lowpass') {
-        this.filter.frequency.value = 20000;
-      } else if (this.params.filterType === 'highpass') {
-        this.filter.frequency.value = 20;
-      } else {
-        this.filter.frequency.value = 10000;
-        this.filter.Q.value = 0.1;
+    this.updateActiveVoiceFilters();
+
+    if (bypassed && this.context) {
+      // Held notes drop their filter envelope
+      const now = this.context.currentTime;
+      for (const voice of this.activeVoices.values()) {
+        voice.filter?.detune.cancelScheduledValues(now);
+        voice.filter?.detune.setValueAtTime(0, now);
       }
-    } else {
-      this.filter.frequency.value = this.params.filterCutoff;
-      this.filter.Q.value = this.params.filterResonance;
-      this.filter.type = this.params.filterType;
     }
+
+    // LFO cutoff routing depends on the filter being active
+    if (changed && this.params.lfoTarget === 'cutoff') {
+      this.routeLFO();
+    }
+  }
+
+  // Filter envelope times are in milliseconds and apply to notes started afterwards
+
+  setFilterEnvAttack(time: number): void {
+    this.params.filterEnvAttack = Math.max(0, Math.min(1000, time));
+  }
+
+  setFilterEnvDecay(time: number): void {
+    this.params.filterEnvDecay = Math.max(0, Math.min(1000, time));
+  }
+
+  setFilterEnvSustain(level: number): void {
+    this.params.filterEnvSustain = Math.max(0, Math.min(1, level));
+  }
+
+  setFilterEnvRelease(time: number): void {
+    this.params.filterEnvRelease = Math.max(0, Math.min(2000, time));
+  }
+
+  setFilterEnvAmount(amount: number): void {
+    this.params.filterEnvAmount = Math.max(0, Math.min(5000, amount));
+  }
+
+  setFilterEnvVelocity(amount: number): void {
+    this.params.filterEnvVelocity = Math.max(0, Math.min(100, amount));
+  }
+
+  // Velocity amounts apply to notes started afterwards, except cutoff which also follows held notes
+
+  setVelocityCurve(curve: VelocityCurve): void {
+    this.params.velocityCurve = curve;
+    if (!this.filterBypassed) {
+      this.updateActiveVoiceFilters();
+    }
+  }
+
+  setVelocityToAmp(amount: number): void {
+    this.params.velocityToAmp = Math.max(0, Math.min(100, amount));
+  }
+
+  setVelocityToCutoff(amount: number): void {
+    this.params.velocityToCutoff = Math.max(0, Math.min(100, amount));
+    if (!this.filterBypassed) {
+      this.updateActiveVoiceFilters();
+    }
+  }
+
+  setVelocityToAttack(amount: number): void {
+    this.params.velocityToAttack = Math.max(-100, Math.min(100, amount));
   }
 
   setDistortionAmount(amount: number): void {
     this.params.distortionAmount = Math.max(0, Math.min(100, amount));
-    if (this.effects.distortion && !this.effectBypassed.distortion) {
+    if (!this.effectBypassed.distortion) {
       this.updateDistortionCurve(this.params.distortionAmount);
     }
   }
@@ -785,10 +2098,13 @@ export class AudioEngine {
 
   setChorusAmount(amount: number): void {
     this.params.chorusAmount = Math.max(0, Math.min(100, amount));
-    if (this.effects.chorus && !this.effectBypassed.chorus) {
+    this.connectEffectChain();
+    if (!this.effectBypassed.chorus) {
       const wetLevel = this.params.chorusAmount / 100;
-      this.effects.chorus.delayGain!.gain.value = wetLevel;
-      this.effects.chorus.dryGain!.gain.value = 1 - wetLevel * 0.5; // Keep some dry signal
+      for (const effect of this.getSharedEffects('chorus')) {
+        effect.delayGain!.gain.value = wetLevel;
+        effect.dryGain!.gain.value = 1 - wetLevel * 0.5; // Keep some dry signal
+      }
     }
   }
 
@@ -798,9 +2114,12 @@ export class AudioEngine {
 
   setReverbAmount(amount: number): void {
     this.params.reverbAmount = Math.max(0, Math.min(100, amount));
-    if (this.effects.reverb && !this.effectBypassed.reverb) {
-      this.effects.reverb.wetGain!.gain.value = this.params.reverbAmount / 100;
-      this.effects.reverb.dryGain!.gain.value = 1 - (this.params.reverbAmount / 100);
+    this.connectEffectChain();
+    if (!this.effectBypassed.reverb) {
+      for (const effect of this.getSharedEffects('reverb')) {
+        effect.wetGain!.gain.value = this.params.reverbAmount / 100;
+        effect.dryGain!.gain.value = 1 - (this.params.reverbAmount / 100);
+      }
     }
   }
 
@@ -816,11 +2135,13 @@ export class AudioEngine {
     this.setEffectBypass('delay', bypassed);
   }
 
+  setEQBypass(bypassed: boolean): void {
+    this.setEffectBypass('eq', bypassed);
+  }
+
   setLFORate(rate: number): void {
     this.params.lfoRate = Math.max(0.1, Math.min(20, rate));
-    if (this.lfo) {
-      this.lfo.frequency.value = this.params.lfoRate;
-    }
+    this.updateLFOTiming();
   }
 
   setLFODepth(depth: number): void {
@@ -830,11 +2151,49 @@ export class AudioEngine {
     }
   }
 
-  setLFOWaveType(type: OscillatorType): void {
+  setLFOWaveType(type: LFOShape): void {
     this.params.lfoWaveType = type;
-    if (this.lfo) {
-      this.lfo.type = type;
-    }
+    this.updateLFOTiming();
+  }
+
+  setLFOSync(sync: boolean): void {
+    this.params.lfoSync = sync;
+    this.updateLFOTiming();
+  }
+
+  setLFODivision(division: NoteDivision, modifier: DivisionModifier = this.params.lfoDivisionModifier): void {
+    this.params.lfoDivision = division;
+    this.params.lfoDivisionModifier = modifier;
+    this.updateLFOTiming();
+  }
+
+  setLFORetrigger(retrigger: boolean): void {
+    this.params.lfoRetrigger = retrigger;
+    this.updateLFOTiming();
+  }
+
+  setLFOCustomShape(points: number[]): void {
+    this.params.lfoCustomShape = points.map(p => Math.max(-1, Math.min(1, p)));
+    this.updateLFOTiming();
+  }
+
+  /**
+   * Set the tempo synced LFOs follow
+   */
+  setBpm(bpm: number): void {
+    this.bpm = bpm;
+    this.lfo?.setBpm(bpm);
+    this.modMatrix?.setBpm(bpm);
+    this.arpeggiator?.setBpm(bpm);
+    this.getEffects('delay').forEach(effect => effect.stereoDelay!.setBpm(bpm));
+  }
+
+  /**
+   * Set the transport arpeggiator runs line up with while it plays
+   */
+  setTransport(transport: Transport | null): void {
+    this.transport = transport;
+    this.arpeggiator?.setTransport(transport);
   }
 
   setLFOTarget(target: 'cutoff' | 'amplitude' | 'pitch'): void {
@@ -842,10 +2201,341 @@ export class AudioEngine {
     this.routeLFO();
   }
 
+  setUnisonMode(enabled: boolean): void {
+    this.params.unisonMode = enabled;
+  }
+
+  setUnisonVoices(count: number): void {
+    this.params.unisonVoices = Math.max(1, Math.min(8, Math.round(count)));
+  }
+
+  setUnisonDetune(cents: number): void {
+    this.params.unisonDetune = Math.max(0, Math.min(50, cents));
+  }
+
+  setUnisonWidth(width: number): void {
+    this.params.unisonWidth = Math.max(0, Math.min(100, width));
+  }
+
+  setUnisonRandomPhase(enabled: boolean): void {
+    this.params.unisonRandomPhase = enabled;
+  }
+
+  // Voice mode changes apply to the next note - notes already held finish in the mode they started in
+
+  setVoiceMode(mode: VoiceMode): void {
+    this.params.voiceMode = mode;
+  }
+
+  setNotePriority(priority: NotePriority): void {
+    this.params.notePriority = priority;
+  }
+
+  setGlideTime(time: number): void {
+    this.params.glideTime = Math.max(0, Math.min(2000, time));
+  }
+
+  setGlideMode(mode: GlideMode): void {
+    this.params.glideMode = mode;
+  }
+
+  // Polyphony and stealing apply when the next note needs a voice
+
+  setPolyphony(voices: number): void {
+    this.params.polyphony = Math.max(1, Math.min(this.maxVoices, Math.round(voices)));
+  }
+
+  setVoiceStealing(mode: VoiceStealing): void {
+    this.params.voiceStealing = mode;
+  }
+
+  /**
+   * Select a wavetable - applies to notes started afterwards
+   */
+  setWavetable(id: string): void {
+    this.params.wavetable = id;
+  }
+
+  setWavetablePosition(position: number): void {
+    this.params.wavetablePosition = Math.max(0, Math.min(1, position));
+    for (const voice of this.activeVoices.values()) {
+      voice.oscillators.forEach(oscillator => {
+        if (oscillator.position) {
+          oscillator.position.value = this.params.wavetablePosition;
+        }
+      });
+    }
+  }
+
+  /**
+   * Set the wavetable imported from WAV files, or null to clear it
+   */
+  setUserWavetable(table: Wavetable | null): void {
+    if (!table) {
+      this.userWavetable = null;
+      return;
+    }
+    if (this.userWavetable?.id === table.id) return;
+    this.userWavetable = {
+      id: table.id,
+      frames: table.frames.map(frame => Float32Array.from(frame))
+    };
+  }
+
+  /**
+   * Set FM operators and algorithm from the FM module's parameters - applies to notes started afterwards
+   */
+  setFMSettings(parameters: Partial<FMSettings> | undefined): void {
+    this.fmSettings = normalizeFMSettings(parameters);
+  }
+
+  /**
+   * Set the sampler's samples and zones - held notes keep the sample they started with
+   */
+  setSampler(config: SamplerConfig): void {
+    this.sampler?.setConfig(config);
+  }
+
+  /**
+   * Set arpeggiator mode, range, rate, gate, swing and latch from the arpeggiator module's parameters
+   */
+  setArpSettings(parameters: Partial<ArpSettings> | undefined): void {
+    this.arpeggiator?.setSettings(normalizeArpSettings(parameters));
+  }
+
+  /**
+   * Set the tuning module's tuning - null follows the project tuning
+   */
+  setTuning(tuning: Tuning | null): void {
+    this.instrumentTuning = tuning;
+  }
+
+  /**
+   * Set the tuning used while the tuning module is missing, disabled or empty
+   */
+  setProjectTuning(tuning: Tuning): void {
+    this.projectTuning = tuning;
+  }
+
+  /**
+   * Tuning notes are currently played in
+   */
+  getTuning(): Tuning {
+    return this.moduleStates.get('tuning') === true && this.instrumentTuning
+      ? this.instrumentTuning
+      : this.projectTuning;
+  }
+
+  /**
+   * Frequency of a MIDI note in the current tuning - null for keys the keyboard map leaves silent
+   */
+  noteToFrequency(midiNote: number): number | null {
+    return noteToFrequency(this.getTuning(), midiNote);
+  }
+
+  /**
+   * Nearest MIDI note to a frequency in the current tuning
+   */
+  frequencyToNote(frequency: number): number {
+    return frequencyToNote(this.getTuning(), frequency);
+  }
+
+  /**
+   * Set reverb size, decay, pre-delay, damping and width from the reverb module's parameters
+   * The impulse is only regenerated when a setting that shapes it changes
+   */
+  setReverbSettings(parameters: Partial<ReverbSettings> | undefined): void {
+    const settings = normalizeReverbSettings(parameters);
+    const previous = this.reverbSettings;
+    this.reverbSettings = settings;
+
+    if (this.context) {
+      for (const effect of this.getSharedEffects('reverb')) {
+        effect.preDelay!.delayTime.setTargetAtTime(settings.preDelay / 1000, this.context.currentTime, 0.01);
+      }
+    }
+
+    const changed = !previous ||
+      previous.size !== settings.size ||
+      previous.decay !== settings.decay ||
+      previous.damping !== settings.damping ||
+      previous.width !== settings.width;
+    if (changed && !this.userReverbImpulse) {
+      this.updateReverbImpulse();
+    }
+  }
+
+  /**
+   * Set curve, tone, mix, oversampling and bitcrush from the distortion module's parameters
+   */
+  setDistortionSettings(parameters: Partial<DistortionSettings> | undefined): void {
+    this.distortionSettings = normalizeDistortionSettings(parameters);
+    for (const effect of this.getSharedEffects('distortion')) {
+      effect.distortion!.setSettings(this.distortionSettings);
+    }
+  }
+
+  /**
+   * Set delay mode, time, feedback, mix and feedback filters from the delay module's parameters
+   */
+  setDelaySettings(parameters: Partial<DelaySettings> | undefined): void {
+    this.delaySettings = normalizeDelaySettings(parameters);
+    for (const effect of this.getSharedEffects('delay')) {
+      effect.stereoDelay!.setSettings(this.delaySettings);
+      effect.wetGain!.gain.value = this.delaySettings.mix / 100;
+    }
+  }
+
+  /**
+   * Set threshold, ratio, knee, attack, release and makeup gain from the compressor module's parameters
+   */
+  setCompressorSettings(parameters: Partial<CompressorSettings> | undefined): void {
+    this.compressorSettings = normalizeCompressorSettings(parameters);
+    for (const effect of this.getSharedEffects('compressor')) {
+      applyCompressorSettings(effect.node as DynamicsCompressorNode, effect.output as GainNode, this.compressorSettings);
+    }
+  }
+
+  /**
+   * Set band frequencies, gains, Qs and which bands are on from the EQ module's parameters
+   */
+  setEQSettings(parameters: Partial<EQSettings> | undefined): void {
+    this.eqSettings = normalizeEQSettings(parameters);
+    this.getSharedEffects('eq').forEach(effect => effect.parametricEQ!.setSettings(this.eqSettings));
+  }
+
+  /**
+   * Combined response in dB at each frequency, for drawing the curve
+   * Of the given slot's EQ, or the first in the chain that follows the EQ module
+   */
+  getEQResponse(frequencies: Float32Array<ArrayBuffer>, slotId?: string): Float32Array | null {
+    const effect = slotId ? this.effectInstances.get(slotId) : this.getSharedEffects('eq')[0];
+    return effect?.parametricEQ?.getResponse(frequencies) ?? null;
+  }
+
+  /**
+   * Deepest compressor gain reduction in the chain in dB (0 or negative), 0 while bypassed
+   */
+  getCompressorReduction(): number {
+    let reduction = 0;
+    for (const effect of this.getEffects('compressor')) {
+      if (effect.active) reduction = Math.min(reduction, (effect.node as DynamicsCompressorNode).reduction);
+    }
+    return reduction;
+  }
+
+  /**
+   * Load an impulse response for the reverb - null goes back to the generated one
+   */
+  setReverbImpulse(sample: SamplerSample | null): void {
+    if (!this.context || (sample?.id ?? null) === this.reverbImpulseId) return;
+    this.reverbImpulseId = sample?.id ?? null;
+
+    if (!sample) {
+      this.userReverbImpulse = null;
+      this.updateReverbImpulse();
+      return;
+    }
+
+    this.context.decodeAudioData(decodeBase64(sample.data))
+      .then(buffer => {
+        if (this.reverbImpulseId === sample.id) {
+          this.userReverbImpulse = buffer;
+          this.updateReverbImpulse();
+        }
+      })
+      .catch(e => console.warn(`Failed to decode impulse response ${sample.name}:`, e));
+  }
+
+  /**
+   * Whether held notes are currently being arpeggiated
+   */
+  isArpeggiatorEnabled(): boolean {
+    return this.arpeggiator?.isEnabled() ?? false;
+  }
+
+  /**
+   * Listen to the notes the arpeggiator plays, or pass null to stop
+   */
+  setArpListener(listener: ((event: ArpNoteEvent) => void) | null): void {
+    this.arpeggiator?.setListener(listener);
+  }
+
+  /**
+   * Listen to every note that starts, including arpeggiated ones, or pass null to stop
+   */
+  setNoteOnListener(listener: (() => void) | null): void {
+    this.noteOnListener = listener;
+  }
+
+  /**
+   * Set grain position, size, density, pitch and shape from the granular module's parameters
+   */
+  setGranularSettings(parameters: Partial<GranularSettings> | undefined): void {
+    this.granularSettings = normalizeGranularSettings(parameters);
+  }
+
+  /**
+   * Set the audio grains are read from, or null to clear it - decodes in the background
+   */
+  setGranularSample(sample: SamplerSample | null): void {
+    if (!this.context || (sample?.id ?? null) === this.granularSampleId) return;
+    this.granularSampleId = sample?.id ?? null;
+    this.granularBuffer = null;
+    if (!sample) return;
+
+    this.context.decodeAudioData(decodeBase64(sample.data))
+      .then(buffer => {
+        if (this.granularSampleId === sample.id) {
+          this.granularBuffer = buffer;
+        }
+      })
+      .catch(e => console.warn(`Failed to decode granular source ${sample.name}:`, e));
+  }
+
   setMasterDetune(cents: number): void {
     this.params.masterDetune = Math.max(-100, Math.min(100, cents));
   }
 
+  /**
+   * Set the modulation matrix - held notes are rerouted immediately
+   */
+  setModMatrix(matrix: ModMatrix): void {
+    this.modMatrix?.setConfig(matrix);
+  }
+
+  setNoiseAmount(amount: number): void {
+    this.params.noiseAmount = Math.max(0, Math.min(1, amount));
+    this.updateActiveNoiseLevels();
+  }
+
+  /**
+   * Set noise color - applies to notes started afterwards
+   */
+  setNoiseColor(color: NoiseColor): void {
+    this.params.noiseColor = color;
+  }
+
+  /**
+   * Apply the current noise blend to held notes
+   * Voices started without noise only pick up the oscillator change
+   */
+  private updateActiveNoiseLevels(): void {
+    if (!this.context) return;
+
+    const now = this.context.currentTime;
+    const noiseLevel = this.getNoiseLevel();
+
+    for (const voice of this.activeVoices.values()) {
+      voice.unisonGain?.gain.setTargetAtTime(
+        (1 - noiseLevel) / Math.sqrt(voice.oscillators.length || 1),
+        now,
+        0.01
+      );
+      voice.noiseGain?.gain.setTargetAtTime(noiseLevel, now, 0.01);
+    }
+  }
+
   // ===== UTILITY METHODS =====
 
   async resumeAudio(): Promise<void> {
@@ -888,8 +2578,8 @@ export class AudioEngine {
 
     // Get first active voice
     const firstVoice = this.activeVoices.values().next().value;
-    if (firstVoice && firstVoice.oscillator) {
-      return firstVoice.oscillator.frequency.value;
+    if (firstVoice && firstVoice.oscillators.length > 0) {
+      return firstVoice.oscillators[0].frequency.value;
     }
 
     return null;
@@ -902,8 +2592,8 @@ export class AudioEngine {
     const frequencies: ActiveFrequency[] = [];
 
     for (const voice of this.activeVoices.values()) {
-      if (voice && voice.oscillator && voice.envelope) {
-        const freq = voice.oscillator.frequency.value;
+      if (voice && voice.oscillators.length > 0 && voice.envelope) {
+        const freq = voice.oscillators[0].frequency.value;
         // Use envelope gain as amplitude proxy
         const amplitude = voice.envelope.gain.value * 255; // Scale to 0-255 range
         frequencies.push({ frequency: freq, amplitude: Math.max(1, amplitude) });
@@ -1003,7 +2693,7 @@ export class AudioEngine {
     osc.stop(this.context.currentTime + duration);
   }
 
-  // Static utility methods
+  // Static utility methods - 12-TET at A4 = 440 Hz, see noteToFrequency for the current tuning
   static midiToFrequency(midiNote: number): number {
     return 440 * Math.pow(2, (midiNote - 69) / 12);
   }
@@ -1058,23 +2748,67 @@ export class AudioEngine {
         // Mute envelope by setting all active voice envelopes to 0
         this.activeVoices.forEach(voice => {
           if (voice.envelope) {
-            voice.envelope.gain.value = enabled ? this.params.sustainLevel : 0;
+            voice.envelope.gain.value = enabled
+              ? this.params.sustainLevel * this.getVelocityScale(voice.velocity, this.params.velocityToAmp)
+              : 0;
           }
         });
         break;
 
       case 'filter-env-base':
-        // Filter envelope is applied via modulation, so we'll handle this differently
-        // For now, just track the state
+        // Checked when each note triggers its filter envelope
         break;
 
-      case 'voice-base':
-        // Voice module controls unison - disable unison when muted
-        if (!enabled) {
-          // Disable unison mode
-          this.params.unisonMode = false;
+      case 'mod-matrix-base':
+        this.modMatrix?.setEnabled(enabled);
+        break;
+
+      case 'velocity-base':
+        // Checked when each note starts - held notes keep their cutoff in step
+        if (!this.filterBypassed) {
+          this.updateActiveVoiceFilters();
         }
         break;
+
+      case 'voice-base':
+        // Voice module gates unison and noise - checked per note
+        this.updateActiveNoiseLevels();
+        break;
+
+      case 'wavetable':
+      case 'fm':
+      case 'sampler':
+      case 'granular':
+        // Checked when each note creates its oscillators
+        break;
+
+      case 'arpeggiator':
+        this.arpeggiator?.setEnabled(enabled);
+        break;
+
+      case 'tuning':
+        // Checked when each note converts to a frequency
+        break;
+
+      case 'reverb':
+        this.setReverbBypass(!enabled);
+        break;
+
+      case 'delay':
+        this.setDelayBypass(!enabled);
+        break;
+
+      case 'compressor':
+        this.setCompressorBypass(!enabled);
+        break;
+
+      case 'eq':
+        this.setEQBypass(!enabled);
+        break;
+
+      case 'effect-chain':
+        this.connectEffectChain();
+        break;
     }
   }
 
@@ -8,6 +8,13 @@ import { MidiRecorder } from './MidiRecorder';
 import { PlaybackScheduler } from './PlaybackScheduler';
 import type { AudioEngine } from './AudioEngine';
 import type { MidiClip } from './MidiRecorder';
+import type { Tuning } from './types';
+
+// Where a played note came from - held notes feeding an active arpeggiator, or the notes it plays
+export type MidiNoteOrigin = 'direct' | 'held' | 'arpeggiated';
+
+// Which side of the arpeggiator gets recorded while it's on
+export type ArpRecordMode = 'held' | 'arpeggiated';
 
 type EventType = 'beatChanged' | 'barChanged' | 'loopComplete' | 'playbackStart' | 'playbackStop' | 'recordingStart' | 'recordingStop' | 'midiNoteRecorded';
 
@@ -37,6 +44,9 @@ export class DAWCore {
   private currentLeadInBeat: number = 0;
   private isLeadIn: boolean = false;
 
+  // Record the held chord or the arpeggiator's notes
+  private arpRecordMode: ArpRecordMode = 'held';
+
   /**
    * Initialize with audio context and synth engine
    */
@@ -53,7 +63,7 @@ export class DAWCore {
     this.midiRecorder = new MidiRecorder(this.transport, synthEngine);
 
     // Create playback scheduler
-    this.playbackScheduler = new PlaybackScheduler(this.transport, synthEngine, this.midiRecorder);
+    this.playbackScheduler = new PlaybackScheduler(this.transport, synthEngine);
 
     // Setup transport callbacks for event system
     this.setupTransportCallbacks();
@@ -297,17 +307,40 @@ export class DAWCore {
     return this.leadInBeatCount;
   }
 
+  /**
+   * Set whether the held chord or the arpeggiated notes are recorded while the arpeggiator is on
+   */
+  setArpRecordMode(mode: ArpRecordMode): void {
+    this.arpRecordMode = mode;
+  }
+
+  getArpRecordMode(): ArpRecordMode {
+    return this.arpRecordMode;
+  }
+
+  /**
+   * Set where the recorded instrument's tuning is read from, to number notes played by frequency
+   */
+  setTuningSource(getTuning: () => Tuning): void {
+    this.midiRecorder?.setTuningSource(getTuning);
+  }
+
   /**
    * Record MIDI note
+   * Held and arpeggiated notes are only recorded when they match the arpeggiator record mode
    */
-  recordMidiNote(noteData: { midiNote?: number; frequency: number; velocity?: number; noteKey: string | number }): void {
+  recordMidiNote(
+    noteData: { midiNote?: number; frequency: number; velocity?: number; noteKey: string | number },
+    origin: MidiNoteOrigin = 'direct'
+  ): void {
     if (!this.midiRecorder) return;
+    if (origin !== 'direct' && origin !== this.arpRecordMode) return;
     this.midiRecorder.recordNoteOn(noteData);
     this.emit('midiNoteRecorded', noteData);
   }
 
   /**
-   * Record MIDI note release
+   * Record MIDI note release - releases of notes that weren't recorded are ignored
    */
   recordMidiNoteRelease(noteKey: string | number): void {
     if (!this.midiRecorder) return;
@@ -0,0 +1,239 @@
+/// <reference types="vite/client" />
+
+/**
+ * Distortion - Waveshaper with selectable curves, a tone filter before or after it and a dry/wet mix
+ * Bitcrush swaps the shaping for bit depth and sample rate reduction on an AudioWorklet
+ */
+
+import type { DistortionMode, DistortionSettings } from './types';
+import processorUrl from './worklets/bitcrushProcessor.ts?worker&url';
+
+export const DISTORTION_MODES: { id: DistortionMode; label: string }[] = [
+  { id: 'soft', label: 'SOFT' },
+  { id: 'tube', label: 'TUBE' },
+  { id: 'hard', label: 'HARD' },
+  { id: 'foldback', label: 'FOLD' },
+  { id: 'asymmetric', label: 'ASYM' },
+  { id: 'bitcrush', label: 'CRUSH' }
+];
+
+export const DISTORTION_OVERSAMPLING: { id: OverSampleType; label: string }[] = [
+  { id: 'none', label: 'OFF' },
+  { id: '2x', label: '2X' },
+  { id: '4x', label: '4X' }
+];
+
+export const DEFAULT_DISTORTION_SETTINGS: DistortionSettings = {
+  mode: 'soft',
+  tone: 20000,
+  tonePosition: 'post',
+  mix: 100,
+  oversample: '2x',
+  bits: 8,
+  downsample: 4
+};
+
+const CURVE_SAMPLES = 8192;
+
+// Smoothing for tone and mix changes, so knob turns don't click
+const SMOOTHING = 0.02;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Fill in and clamp distortion settings read from module parameters
+ */
+export function normalizeDistortionSettings(parameters: Partial<DistortionSettings> | undefined): DistortionSettings {
+  const settings = { ...DEFAULT_DISTORTION_SETTINGS, ...parameters };
+  return {
+    mode: DISTORTION_MODES.some(m => m.id === settings.mode) ? settings.mode : DEFAULT_DISTORTION_SETTINGS.mode,
+    tone: clamp(settings.tone, 200, 20000),
+    tonePosition: settings.tonePosition === 'pre' ? 'pre' : 'post',
+    mix: clamp(settings.mix, 0, 100),
+    oversample: DISTORTION_OVERSAMPLING.some(o => o.id === settings.oversample) ? settings.oversample : DEFAULT_DISTORTION_SETTINGS.oversample,
+    bits: Math.round(clamp(settings.bits, 1, 16)),
+    downsample: Math.round(clamp(settings.downsample, 1, 32))
+  };
+}
+
+/**
+ * Build the waveshaper curve for a mode and drive amount (0-100)
+ */
+export function createDistortionCurve(mode: DistortionMode, amount: number): Float32Array<ArrayBuffer> {
+  const curve = new Float32Array(CURVE_SAMPLES);
+  const deg = Math.PI / 180;
+  const k = amount * 10;
+  const gain = 1 + amount / 10;
+
+  for (let i = 0; i < CURVE_SAMPLES; i++) {
+    const x = (i * 2) / CURVE_SAMPLES - 1;
+    switch (mode) {
+      case 'soft':
+        curve[i] = ((3 + k) * x * 20 * deg) / (Math.PI + k * Math.abs(x));
+        break;
+      case 'tube':
+        // Biased tanh - the offset adds even harmonics, subtracted again so silence stays silent
+        curve[i] = clamp(Math.tanh(gain * (x + 0.1)) - Math.tanh(gain * 0.1), -1, 1);
+        break;
+      case 'hard':
+        curve[i] = clamp(gain * x, -1, 1);
+        break;
+      case 'foldback': {
+        // Triangle fold - anything past full scale reflects back down
+        const folded = ((gain * x + 1) % 4 + 4) % 4;
+        curve[i] = 1 - Math.abs(folded - 2);
+        break;
+      }
+      case 'asymmetric':
+        // Positive half saturates smoothly, negative half clips hard and earlier
+        curve[i] = x >= 0 ? Math.tanh(gain * x) : Math.max(-0.7, gain * x);
+        break;
+      case 'bitcrush':
+        // Drive pushes the signal into the crusher's full scale
+        curve[i] = clamp(gain * x, -1, 1);
+        break;
+    }
+  }
+
+  return curve;
+}
+
+// Worklet module loads per context - track engines share one
+const workletLoads = new WeakMap<BaseAudioContext, Promise<void>>();
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+/**
+ * Load the bitcrush processor into a context, once
+ */
+export function loadBitcrushWorklet(context: BaseAudioContext): Promise<void> {
+  let load = workletLoads.get(context);
+  if (!load) {
+    load = context.audioWorklet.addModule(processorUrl).then(() => {
+      loadedContexts.add(context);
+    });
+    workletLoads.set(context, load);
+  }
+  return load;
+}
+
+export class Distortion {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private context: BaseAudioContext;
+  private shaper: WaveShaperNode;
+  private tone: BiquadFilterNode;
+  // Removes the DC offset the asymmetric curves leave behind
+  private dcBlocker: BiquadFilterNode;
+  private dryGain: GainNode;
+  private wetGain: GainNode;
+  // Created the first time bitcrush is used once the worklet has loaded
+  private crusher: AudioWorkletNode | null = null;
+  // Wet path layout last wired, so mix and tone turns don't rewire it
+  private connectedPath: string = '';
+
+  private settings: DistortionSettings = DEFAULT_DISTORTION_SETTINGS;
+  private amount: number = 0;
+  // Mode and drive the current curve was built for - swapping the curve while playing can click
+  private curveKey: string = '';
+
+  constructor(context: BaseAudioContext) {
+    this.context = context;
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.shaper = context.createWaveShaper();
+    this.tone = context.createBiquadFilter();
+    this.tone.type = 'lowpass';
+    this.tone.Q.value = 0.5;
+    this.dcBlocker = context.createBiquadFilter();
+    this.dcBlocker.type = 'highpass';
+    this.dcBlocker.frequency.value = 10;
+    this.dryGain = context.createGain();
+    this.wetGain = context.createGain();
+
+    this.input.connect(this.dryGain);
+    this.dryGain.connect(this.output);
+    this.dcBlocker.connect(this.wetGain);
+    this.wetGain.connect(this.output);
+
+    this.applySettings();
+  }
+
+  setSettings(settings: DistortionSettings): void {
+    this.settings = settings;
+    this.applySettings();
+  }
+
+  /**
+   * Set the drive (0-100)
+   */
+  setAmount(amount: number): void {
+    this.amount = amount;
+    this.updateCurve();
+  }
+
+  private updateCurve(): void {
+    const key = `${this.settings.mode}:${this.amount}`;
+    if (key === this.curveKey) return;
+    this.curveKey = key;
+    this.shaper.curve = createDistortionCurve(this.settings.mode, this.amount);
+  }
+
+  /**
+   * Let the bitcrush processor stop once the effect has left the chain
+   */
+  dispose(): void {
+    this.crusher?.port.postMessage('stop');
+    this.crusher?.disconnect();
+  }
+
+  private applySettings(): void {
+    const now = this.context.currentTime;
+    const { mode, tone, mix, oversample, bits, downsample } = this.settings;
+
+    this.updateCurve();
+    if (this.shaper.oversample !== oversample) {
+      this.shaper.oversample = oversample;
+    }
+    this.tone.frequency.setTargetAtTime(tone, now, SMOOTHING);
+    this.dryGain.gain.setTargetAtTime(1 - mix / 100, now, SMOOTHING);
+    this.wetGain.gain.setTargetAtTime(mix / 100, now, SMOOTHING);
+
+    if (mode === 'bitcrush' && !this.crusher && loadedContexts.has(this.context)) {
+      this.crusher = new AudioWorkletNode(this.context, 'bitcrush');
+    }
+    if (this.crusher) {
+      this.crusher.parameters.get('bits')!.value = bits;
+      this.crusher.parameters.get('downsample')!.value = downsample;
+    }
+
+    this.connectWetPath();
+  }
+
+  /**
+   * Wire input -> [tone] -> shaper -> [crusher] -> [tone] -> DC blocker
+   */
+  private connectWetPath(): void {
+    const { tonePosition, mode } = this.settings;
+    const crush = mode === 'bitcrush' && this.crusher !== null;
+    const path = `${tonePosition}:${crush}`;
+    if (path === this.connectedPath) return;
+    this.connectedPath = path;
+
+    this.input.disconnect();
+    this.shaper.disconnect();
+    this.tone.disconnect();
+    this.crusher?.disconnect();
+    this.input.connect(this.dryGain);
+
+    const chain: AudioNode[] = [this.input];
+    if (tonePosition === 'pre') chain.push(this.tone);
+    chain.push(this.shaper);
+    if (crush) chain.push(this.crusher!);
+    if (tonePosition === 'post') chain.push(this.tone);
+    chain.push(this.dcBlocker);
+
+    for (let i = 0; i < chain.length - 1; i++) {
+      chain[i].connect(chain[i + 1]);
+    }
+  }
+}
@@ -15,6 +15,8 @@ export class DrumMachine {
   private activeKit: DrumKit = 'tr909';
   private analyser: AnalyserNode | null = null;
   private waveformData: Uint8Array | null = null;
+  // Told about every hit, e.g. to key sidechain ducking
+  private triggerListener: ((sound: DrumSound, time: number) => void) | null = null;
 
   // Sample paths
   private samplePaths: Record<DrumKit, Record<DrumSound, string>> = {
@@ -155,6 +157,14 @@ export class DrumMachine {
     // If time is 0 or in the past, play immediately
     const playTime = Math.max(this.context.currentTime, time);
     source.start(playTime);
+    this.triggerListener?.(sound, playTime);
+  }
+
+  /**
+   * Set the callback told about every hit and when it plays
+   */
+  setTriggerListener(listener: ((sound: DrumSound, time: number) => void) | null): void {
+    this.triggerListener = listener;
   }
 
   /**
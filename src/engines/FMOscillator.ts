@@ -0,0 +1,193 @@
+/**
+ * FM Oscillator - 2 to 4 sine operators modulating each other's frequency
+ * Drop-in for an OscillatorNode in a voice - one frequency and detune drive every operator through its ratio
+ */
+
+import type { VoiceOscillator, FMAlgorithm, FMOperator, FMSettings } from './types';
+
+// Modulation index at full modulator level
+export const MAX_FM_INDEX = 8;
+
+export const MIN_FM_OPERATORS = 2;
+export const MAX_FM_OPERATORS = 4;
+
+// Operator routing - modulators always feed a lower-numbered operator, carriers are heard
+export const FM_ALGORITHMS: { id: FMAlgorithm; label: string; modulations: [number, number][]; carriers: number[] }[] = [
+  // 4 -> 3 -> 2 -> 1
+  { id: 'stack', label: 'STACK', modulations: [[1, 0], [2, 1], [3, 2]], carriers: [0] },
+  // 2 -> 1, 4 -> 3
+  { id: 'pairs', label: 'PAIRS', modulations: [[1, 0], [3, 2]], carriers: [0, 2] },
+  // 2, 3 and 4 all -> 1
+  { id: 'branch', label: 'BRANCH', modulations: [[1, 0], [2, 0], [3, 0]], carriers: [0] },
+  // 4 -> 1, 2 and 3
+  { id: 'fan', label: 'FAN', modulations: [[3, 0], [3, 1], [3, 2]], carriers: [0, 1, 2] },
+  // No modulation - every operator is heard
+  { id: 'additive', label: 'ADD', modulations: [], carriers: [0, 1, 2, 3] }
+];
+
+const DEFAULT_OPERATOR: FMOperator = {
+  ratio: 1,
+  fine: 0,
+  level: 0.5,
+  attack: 5,
+  decay: 400,
+  sustain: 0.6,
+  release: 300
+};
+
+export const DEFAULT_FM_SETTINGS: FMSettings = {
+  operatorCount: 2,
+  algorithm: 'stack',
+  operators: [
+    { ...DEFAULT_OPERATOR, level: 1, sustain: 1 },
+    { ...DEFAULT_OPERATOR, ratio: 2 },
+    { ...DEFAULT_OPERATOR, ratio: 3, level: 0 },
+    { ...DEFAULT_OPERATOR, ratio: 4, level: 0 }
+  ]
+};
+
+/**
+ * Fill in and clamp FM settings read from module parameters
+ * Modules saved before any FM edit have empty parameters
+ */
+export function normalizeFMSettings(parameters: Partial<FMSettings> | undefined): FMSettings {
+  const operatorCount = Math.round(parameters?.operatorCount ?? DEFAULT_FM_SETTINGS.operatorCount);
+  const algorithm = FM_ALGORITHMS.some(a => a.id === parameters?.algorithm)
+    ? parameters!.algorithm!
+    : DEFAULT_FM_SETTINGS.algorithm;
+
+  return {
+    operatorCount: Math.max(MIN_FM_OPERATORS, Math.min(MAX_FM_OPERATORS, operatorCount)),
+    algorithm,
+    operators: DEFAULT_FM_SETTINGS.operators.map((defaults, i) => {
+      const op = { ...defaults, ...parameters?.operators?.[i] };
+      return {
+        ratio: Math.max(0.25, Math.min(16, op.ratio)),
+        fine: Math.max(-100, Math.min(100, op.fine)),
+        level: Math.max(0, Math.min(1, op.level)),
+        attack: Math.max(0, Math.min(5000, op.attack)),
+        decay: Math.max(0, Math.min(5000, op.decay)),
+        sustain: Math.max(0, Math.min(1, op.sustain)),
+        release: Math.max(0, Math.min(5000, op.release))
+      };
+    })
+  };
+}
+
+interface OperatorNodes {
+  settings: FMOperator;
+  oscillator: OscillatorNode;
+  // Operator envelope, peaking at the operator level
+  envelope: GainNode;
+}
+
+export class FMOscillator implements VoiceOscillator {
+  readonly frequency: AudioParam;
+  readonly detune: AudioParam;
+  private frequencySource: ConstantSourceNode;
+  private detuneSource: ConstantSourceNode;
+  private operators: OperatorNodes[] = [];
+  private output: GainNode;
+  // Every node created, for disconnecting
+  private nodes: AudioNode[] = [];
+
+  constructor(context: BaseAudioContext, settings: FMSettings) {
+    const algorithm = FM_ALGORITHMS.find(a => a.id === settings.algorithm) ?? FM_ALGORITHMS[0];
+    const count = settings.operatorCount;
+
+    this.frequencySource = context.createConstantSource();
+    this.detuneSource = context.createConstantSource();
+    this.detuneSource.offset.value = 0;
+    this.frequency = this.frequencySource.offset;
+    this.detune = this.detuneSource.offset;
+    this.output = context.createGain();
+    this.nodes.push(this.frequencySource, this.detuneSource, this.output);
+
+    for (let i = 0; i < count; i++) {
+      const op = settings.operators[i];
+      const oscillator = context.createOscillator();
+      oscillator.frequency.value = 0;
+      oscillator.detune.value = op.fine;
+
+      // Operator pitch follows the voice frequency through its ratio
+      const ratio = context.createGain();
+      ratio.gain.value = op.ratio;
+      this.frequencySource.connect(ratio);
+      ratio.connect(oscillator.frequency);
+      this.detuneSource.connect(oscillator.detune);
+
+      const envelope = context.createGain();
+      envelope.gain.value = 0;
+      oscillator.connect(envelope);
+
+      this.operators.push({ settings: op, oscillator, envelope });
+      this.nodes.push(oscillator, ratio, envelope);
+    }
+
+    // Modulator depth in Hz is its level times MAX_FM_INDEX times its own frequency,
+    // so the timbre stays the same across the keyboard
+    algorithm.modulations
+      .filter(([from, to]) => from < count && to < count)
+      .forEach(([from, to]) => {
+        const modulator = this.operators[from];
+        const depthScale = context.createGain();
+        depthScale.gain.value = modulator.settings.ratio * MAX_FM_INDEX;
+        const depth = context.createGain();
+        depth.gain.value = 0;
+
+        this.frequencySource.connect(depthScale);
+        depthScale.connect(depth.gain);
+        modulator.envelope.connect(depth);
+        depth.connect(this.operators[to].oscillator.frequency);
+        this.nodes.push(depthScale, depth);
+      });
+
+    const carriers = algorithm.carriers.filter(index => index < count);
+    this.output.gain.value = 1 / Math.max(1, carriers.length);
+    carriers.forEach(index => this.operators[index].envelope.connect(this.output));
+  }
+
+  start(when: number = 0): void {
+    this.frequencySource.start(when);
+    this.detuneSource.start(when);
+    this.operators.forEach(op => op.oscillator.start(when));
+    this.noteOn(when);
+  }
+
+  stop(when: number = 0): void {
+    this.frequencySource.stop(when);
+    this.detuneSource.stop(when);
+    this.operators.forEach(op => op.oscillator.stop(when));
+  }
+
+  /**
+   * Run each operator's envelope from its current level to the peak, then to sustain
+   */
+  noteOn(when: number): void {
+    this.operators.forEach(({ settings, envelope }) => {
+      const attack = settings.attack / 1000;
+      const decay = settings.decay / 1000;
+      envelope.gain.cancelScheduledValues(when);
+      envelope.gain.setValueAtTime(envelope.gain.value, when);
+      envelope.gain.linearRampToValueAtTime(settings.level, when + attack);
+      envelope.gain.linearRampToValueAtTime(settings.sustain * settings.level, when + attack + decay);
+    });
+  }
+
+  noteOff(when: number): void {
+    this.operators.forEach(({ settings, envelope }) => {
+      const current = envelope.gain.value;
+      envelope.gain.cancelScheduledValues(when);
+      envelope.gain.setValueAtTime(current, when);
+      envelope.gain.linearRampToValueAtTime(0, when + settings.release / 1000);
+    });
+  }
+
+  connect(destination: AudioNode): AudioNode {
+    return this.output.connect(destination);
+  }
+
+  disconnect(): void {
+    this.nodes.forEach(node => node.disconnect());
+  }
+}
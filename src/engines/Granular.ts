@@ -0,0 +1,257 @@
+/**
+ * Granular Oscillator - Overlapping short grains read from an audio buffer
+ * Drop-in for an OscillatorNode in a voice - the frequency param repitches grains relative to C4
+ */
+
+import type { VoiceOscillator, GrainShape, GranularSettings, SamplerSample } from './types';
+import { encodeBase64, midiNoteToFrequency } from './Sampler';
+
+export const GRAIN_SHAPES: { id: GrainShape; label: string }[] = [
+  { id: 'hann', label: 'HANN' },
+  { id: 'triangle', label: 'TRI' },
+  { id: 'trapezoid', label: 'TRAP' },
+  { id: 'perc', label: 'PERC' }
+];
+
+export const DEFAULT_GRANULAR_SETTINGS: GranularSettings = {
+  position: 0.5,
+  spray: 50,
+  grainSize: 100,
+  density: 20,
+  pitch: 0,
+  shape: 'hann'
+};
+
+// Notes play grains at their original pitch on C4
+const ROOT_FREQUENCY = midiNoteToFrequency(60);
+
+// Grains are scheduled this far ahead on a timer
+const LOOKAHEAD = 0.1;
+const SCHEDULE_INTERVAL = 25;
+
+const CURVE_LENGTH = 64;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Fill in and clamp granular settings read from module parameters
+ */
+export function normalizeGranularSettings(parameters: Partial<GranularSettings> | undefined): GranularSettings {
+  const settings = { ...DEFAULT_GRANULAR_SETTINGS, ...parameters };
+  return {
+    position: clamp(settings.position, 0, 1),
+    spray: clamp(settings.spray, 0, 1000),
+    grainSize: clamp(settings.grainSize, 10, 500),
+    density: clamp(settings.density, 1, 100),
+    pitch: clamp(Math.round(settings.pitch), -24, 24),
+    shape: GRAIN_SHAPES.some(s => s.id === settings.shape) ? settings.shape : DEFAULT_GRANULAR_SETTINGS.shape
+  };
+}
+
+function createGrainCurve(shape: GrainShape): Float32Array {
+  const curve = new Float32Array(CURVE_LENGTH);
+  for (let i = 0; i < CURVE_LENGTH; i++) {
+    const x = i / (CURVE_LENGTH - 1);
+    switch (shape) {
+      case 'hann':
+        curve[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * x);
+        break;
+      case 'triangle':
+        curve[i] = 1 - Math.abs(2 * x - 1);
+        break;
+      case 'trapezoid':
+        curve[i] = Math.min(1, x / 0.1, (1 - x) / 0.1);
+        break;
+      case 'perc':
+        curve[i] = x < 0.05 ? x / 0.05 : Math.exp(-5 * (x - 0.05) / 0.95);
+        break;
+    }
+  }
+  // Always end silent so grains never click off
+  curve[CURVE_LENGTH - 1] = 0;
+  return curve;
+}
+
+/**
+ * Encode an audio buffer as a mono 16-bit WAV
+ * Used to keep rendered audio such as a frozen drum pattern with the instrument
+ */
+function encodeWav(buffer: AudioBuffer): ArrayBuffer {
+  const length = buffer.length;
+  const data = new ArrayBuffer(44 + length * 2);
+  const view = new DataView(data);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, buffer.sampleRate, true);
+  view.setUint32(28, buffer.sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, length * 2, true);
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  for (let i = 0; i < length; i++) {
+    let sample = 0;
+    channels.forEach(channel => { sample += channel[i]; });
+    sample = clamp(sample / channels.length, -1, 1);
+    view.setInt16(44 + i * 2, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+  }
+
+  return data;
+}
+
+/**
+ * Turn a loaded file or rendered buffer into a granular source that can be saved with the instrument
+ */
+export async function createGranularSample(source: File | AudioBuffer, name?: string): Promise<SamplerSample> {
+  let data: ArrayBuffer;
+  if (source instanceof File) {
+    data = await source.arrayBuffer();
+    // Decode once up front so unreadable files are rejected here rather than at playback
+    await new OfflineAudioContext(1, 1, 44100).decodeAudioData(data.slice(0));
+  } else {
+    data = encodeWav(source);
+  }
+
+  return {
+    id: `grains_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: name ?? (source instanceof File ? source.name.replace(/\.[^.]+$/, '') : 'Rendered audio'),
+    data: encodeBase64(data)
+  };
+}
+
+export class GranularOscillator implements VoiceOscillator {
+  readonly frequency: AudioParam;
+  readonly detune: AudioParam;
+  private context: BaseAudioContext;
+  private buffer: AudioBuffer;
+  private settings: GranularSettings;
+  private curve: Float32Array;
+
+  private frequencySource: ConstantSourceNode;
+  private detuneSource: ConstantSourceNode;
+  private rate: GainNode;
+  private output: GainNode;
+
+  private grains: Set<AudioBufferSourceNode> = new Set();
+  private timer: number | null = null;
+  private nextGrainTime: number = 0;
+  private stopTime: number = Infinity;
+
+  constructor(context: BaseAudioContext, buffer: AudioBuffer, settings: GranularSettings) {
+    this.context = context;
+    this.buffer = buffer;
+    this.settings = settings;
+    this.curve = createGrainCurve(settings.shape);
+
+    // Every grain's playback rate follows the note frequency
+    this.frequencySource = context.createConstantSource();
+    this.rate = context.createGain();
+    this.rate.gain.value = 1 / ROOT_FREQUENCY;
+    this.frequencySource.connect(this.rate);
+
+    this.detuneSource = context.createConstantSource();
+    this.detuneSource.offset.value = 0;
+
+    // Keep the level steady as more grains overlap
+    this.output = context.createGain();
+    const overlap = settings.density * (settings.grainSize / 1000);
+    this.output.gain.value = 1 / Math.sqrt(Math.max(1, overlap));
+
+    this.frequency = this.frequencySource.offset;
+    this.detune = this.detuneSource.offset;
+  }
+
+  start(when: number = 0): void {
+    this.frequencySource.start(when);
+    this.detuneSource.start(when);
+    this.nextGrainTime = when;
+    this.schedule();
+    this.timer = window.setInterval(() => this.schedule(), SCHEDULE_INTERVAL);
+  }
+
+  stop(when: number = 0): void {
+    this.stopTime = when;
+    this.frequencySource.stop(when);
+    this.detuneSource.stop(when);
+  }
+
+  connect(destination: AudioNode): AudioNode {
+    return this.output.connect(destination);
+  }
+
+  disconnect(): void {
+    this.clearTimer();
+    this.grains.forEach(grain => grain.disconnect());
+    this.grains.clear();
+    this.frequencySource.disconnect();
+    this.detuneSource.disconnect();
+    this.rate.disconnect();
+    this.output.disconnect();
+  }
+
+  private schedule(): void {
+    const now = this.context.currentTime;
+    if (now >= this.stopTime) {
+      this.clearTimer();
+      return;
+    }
+
+    // Skip grains the timer fell behind on rather than bunching them up
+    this.nextGrainTime = Math.max(this.nextGrainTime, now);
+    const horizon = Math.min(now + LOOKAHEAD, this.stopTime);
+    while (this.nextGrainTime < horizon) {
+      this.playGrain(this.nextGrainTime);
+      this.nextGrainTime += 1 / this.settings.density;
+    }
+  }
+
+  private playGrain(when: number): void {
+    const { position, spray, grainSize, pitch } = this.settings;
+    const duration = this.buffer.duration;
+    const size = grainSize / 1000;
+    const offset = clamp(position * duration + (Math.random() * 2 - 1) * (spray / 1000), 0, duration);
+
+    const source = this.context.createBufferSource();
+    source.buffer = this.buffer;
+    source.playbackRate.value = 0;
+    source.detune.value = pitch * 100;
+    this.rate.connect(source.playbackRate);
+    this.detuneSource.connect(source.detune);
+
+    const envelope = this.context.createGain();
+    envelope.gain.value = 0;
+    envelope.gain.setValueCurveAtTime(this.curve, when, size);
+    source.connect(envelope);
+    envelope.connect(this.output);
+
+    source.onended = () => {
+      // Already torn down if the voice was disconnected first
+      if (!this.grains.delete(source)) return;
+      this.rate.disconnect(source.playbackRate);
+      this.detuneSource.disconnect(source.detune);
+      source.disconnect();
+      envelope.disconnect();
+    };
+
+    source.start(when, offset);
+    source.stop(when + size);
+    this.grains.add(source);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * LFO Source - Looped single-cycle buffer used by the LFO module and the modulation matrix
+ * Shapes are rendered into a buffer so random and drawn shapes work like the basic ones
+ * Rate is either free in Hz or locked to the tempo in note divisions
+ */
+
+import type { LFOShape, LFOTiming, NoteDivision, DivisionModifier } from './types';
+
+// Samples per cycle
+const CYCLE_LENGTH = 1024;
+
+// Random shapes loop over several cycles so the pattern doesn't repeat every cycle
+const RANDOM_CYCLES = 16;
+
+export const CUSTOM_SHAPE_POINTS = 16;
+
+export const NOTE_DIVISIONS: NoteDivision[] = ['1/1', '1/2', '1/4', '1/8', '1/16', '1/32'];
+
+// Cycle length in beats (quarter notes)
+const DIVISION_BEATS: Record<NoteDivision, number> = {
+  '1/1': 4,
+  '1/2': 2,
+  '1/4': 1,
+  '1/8': 0.5,
+  '1/16': 0.25,
+  '1/32': 0.125
+};
+
+const MODIFIER_FACTORS: Record<DivisionModifier, number> = {
+  straight: 1,
+  dotted: 1.5,
+  triplet: 2 / 3
+};
+
+export const DEFAULT_LFO_TIMING: LFOTiming = {
+  shape: 'sine',
+  rate: 2,
+  sync: false,
+  division: '1/4',
+  modifier: 'straight',
+  retrigger: false,
+  customShape: Array.from({ length: CUSTOM_SHAPE_POINTS }, (_, i) => Math.sin((i / CUSTOM_SHAPE_POINTS) * Math.PI * 2))
+};
+
+/**
+ * Length of a note division in beats (quarter notes)
+ */
+export function divisionToBeats(division: NoteDivision, modifier: DivisionModifier): number {
+  return DIVISION_BEATS[division] * MODIFIER_FACTORS[modifier];
+}
+
+/**
+ * LFO rate in Hz for a note division at a tempo
+ */
+export function divisionToHz(bpm: number, division: NoteDivision, modifier: DivisionModifier): number {
+  return bpm / 60 / divisionToBeats(division, modifier);
+}
+
+/**
+ * Render an LFO shape into a mono buffer, -1 to 1
+ */
+function renderShape(context: BaseAudioContext, shape: LFOShape, customShape: number[]): AudioBuffer {
+  const cycles = shape === 'sampleHold' || shape === 'randomSmooth' ? RANDOM_CYCLES : 1;
+  const buffer = context.createBuffer(1, CYCLE_LENGTH * cycles, context.sampleRate);
+  const data = buffer.getChannelData(0);
+
+  // One random value per cycle for the random shapes
+  const randomValues = Array.from({ length: cycles }, () => Math.random() * 2 - 1);
+
+  for (let i = 0; i < data.length; i++) {
+    const cycle = Math.floor(i / CYCLE_LENGTH);
+    const phase = (i % CYCLE_LENGTH) / CYCLE_LENGTH;
+
+    switch (shape) {
+      case 'sine':
+        data[i] = Math.sin(phase * Math.PI * 2);
+        break;
+      case 'triangle':
+        data[i] = phase < 0.25 ? phase * 4 : phase < 0.75 ? 2 - phase * 4 : phase * 4 - 4;
+        break;
+      case 'square':
+        data[i] = phase < 0.5 ? 1 : -1;
+        break;
+      case 'sawtooth':
+        data[i] = phase * 2 - 1;
+        break;
+      case 'sampleHold':
+        data[i] = randomValues[cycle];
+        break;
+      case 'randomSmooth': {
+        // Cosine interpolation towards the next cycle's value
+        const from = randomValues[cycle];
+        const to = randomValues[(cycle + 1) % cycles];
+        const t = (1 - Math.cos(phase * Math.PI)) / 2;
+        data[i] = from + (to - from) * t;
+        break;
+      }
+      case 'custom': {
+        // Linear interpolation between drawn points, wrapping to the first
+        const points = customShape.length > 0 ? customShape : DEFAULT_LFO_TIMING.customShape;
+        const position = phase * points.length;
+        const index = Math.floor(position);
+        const from = points[index];
+        const to = points[(index + 1) % points.length];
+        data[i] = Math.max(-1, Math.min(1, from + (to - from) * (position - index)));
+        break;
+      }
+    }
+  }
+
+  return buffer;
+}
+
+export class LFOSource {
+  private context: AudioContext;
+  private source: AudioBufferSourceNode | null = null;
+  private buffer: AudioBuffer | null = null;
+
+  // Connect modulation targets here - it outlives the restarted buffer sources
+  readonly output: GainNode;
+
+  private timing: LFOTiming = DEFAULT_LFO_TIMING;
+  private bpm: number = 120;
+
+  constructor(context: AudioContext) {
+    this.context = context;
+    this.output = context.createGain();
+  }
+
+  /**
+   * Apply shape and timing
+   * The buffer is only re-rendered when the shape changes, so rate changes keep the phase
+   */
+  setTiming(timing: LFOTiming): void {
+    const previous = this.timing;
+    this.timing = timing;
+
+    const shapeChanged = !this.buffer ||
+      previous.shape !== timing.shape ||
+      (timing.shape === 'custom' && previous.customShape !== timing.customShape);
+
+    if (shapeChanged) {
+      this.buffer = renderShape(this.context, timing.shape, timing.customShape);
+      this.restart(this.context.currentTime);
+    } else {
+      this.updateRate();
+    }
+  }
+
+  /**
+   * Set the tempo synced rates follow
+   */
+  setBpm(bpm: number): void {
+    this.bpm = bpm;
+    this.updateRate();
+  }
+
+  /**
+   * Restart the cycle if this LFO retriggers on notes
+   */
+  noteOn(time: number): void {
+    if (this.timing.retrigger) {
+      this.restart(time);
+    }
+  }
+
+  /**
+   * Current rate in Hz
+   */
+  getRate(): number {
+    if (this.timing.sync) {
+      return divisionToHz(this.bpm, this.timing.division, this.timing.modifier);
+    }
+    return this.timing.rate;
+  }
+
+  stop(): void {
+    if (this.source) {
+      try {
+        this.source.stop();
+      } catch (e) { }
+      this.source.disconnect();
+      this.source = null;
+    }
+    this.output.disconnect();
+  }
+
+  private getPlaybackRate(): number {
+    return (this.getRate() * CYCLE_LENGTH) / this.context.sampleRate;
+  }
+
+  private updateRate(): void {
+    if (this.source) {
+      this.source.playbackRate.setTargetAtTime(this.getPlaybackRate(), this.context.currentTime, 0.01);
+    }
+  }
+
+  /**
+   * Start a new buffer source from the beginning of the cycle
+   */
+  private restart(time: number): void {
+    if (!this.buffer) return;
+
+    if (this.source) {
+      try {
+        this.source.stop(time);
+      } catch (e) { }
+    }
+
+    const source = this.context.createBufferSource();
+    source.buffer = this.buffer;
+    source.loop = true;
+    source.playbackRate.value = this.getPlaybackRate();
+    source.connect(this.output);
+    source.start(time);
+
+    // Disconnect the old source once it has stopped
+    const previous = this.source;
+    if (previous) {
+      previous.onended = () => previous.disconnect();
+    }
+    this.source = source;
+  }
+}
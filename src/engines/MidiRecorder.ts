@@ -5,6 +5,8 @@
 
 import type { Transport } from './Transport';
 import type { AudioEngine } from './AudioEngine';
+import type { Tuning } from './types';
+import { DEFAULT_TUNING, frequencyToNote } from './tuning';
 
 export interface RecordedMidiEvent {
   type: 'noteOn' | 'noteOff';
@@ -54,6 +56,9 @@ export class MidiRecorder {
   // Pending note-ons (waiting for note-offs)
   private pendingNotes: Map<string | number, PendingNote> = new Map();
 
+  // Tuning of the instrument being recorded, for notes that only come with a frequency
+  private getTuning: () => Tuning = () => DEFAULT_TUNING;
+
   constructor(transport: Transport, _synthEngine: AudioEngine) {
     this.transport = transport;
   }
@@ -209,10 +214,17 @@ export class MidiRecorder {
   }
 
   /**
-   * Convert frequency to MIDI note number
+   * Set where the tuning of the instrument being recorded is read from
+   */
+  setTuningSource(getTuning: () => Tuning): void {
+    this.getTuning = getTuning;
+  }
+
+  /**
+   * Convert frequency to the nearest MIDI note number in the current tuning
    */
   private frequencyToMidi(frequency: number): number {
-    return Math.round(12 * Math.log2(frequency / 440) + 69);
+    return frequencyToNote(this.getTuning(), frequency);
   }
 
   /**
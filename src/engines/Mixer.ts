@@ -0,0 +1,408 @@
+/**
+ * Mixer - Channel strips between track sources and the master bus
+ * Each track gets gain + stereo pan, with mute and solo-exclusive logic,
+ * plus post-fader sends into shared return buses and sidechain ducking keyed from drums or other tracks
+ * Everything meets on a master bus with an optional EQ before the destination
+ */
+
+import type { Track } from '../types/track';
+import type { ChannelStrip, EQSettings, ReturnBus, ReturnSettings, SidechainCurve, SidechainSettings } from './types';
+import type { DrumSound } from './DrumMachine';
+import { generateReverbImpulse, normalizeReverbSettings, DEFAULT_REVERB_SETTINGS, MAX_REVERB_PRE_DELAY } from './reverbImpulse';
+import { StereoDelay, normalizeDelaySettings, DEFAULT_DELAY_SETTINGS } from './StereoDelay';
+import { ParametricEQ } from './ParametricEQ';
+
+// Return buses every track can send to
+export const RETURN_BUSES: { id: string; name: string }[] = [
+  { id: 'reverb', name: 'Reverb' },
+  { id: 'delay', name: 'Delay' }
+];
+
+export const DEFAULT_RETURN_SETTINGS: ReturnSettings = {
+  reverb: { ...DEFAULT_REVERB_SETTINGS, decay: 2.5 },
+  delay: { ...DEFAULT_DELAY_SETTINGS, feedback: 35 }
+};
+
+/**
+ * Fill in and clamp return bus settings read from a project
+ */
+export function normalizeReturnSettings(settings: Partial<ReturnSettings> | undefined): ReturnSettings {
+  return {
+    reverb: normalizeReverbSettings({ ...DEFAULT_RETURN_SETTINGS.reverb, ...settings?.reverb }),
+    delay: normalizeDelaySettings({ ...DEFAULT_RETURN_SETTINGS.delay, ...settings?.delay })
+  };
+}
+
+export const SIDECHAIN_CURVES: { id: SidechainCurve; label: string }[] = [
+  { id: 'linear', label: 'LIN' },
+  { id: 'exponential', label: 'EXP' },
+  { id: 'logarithmic', label: 'LOG' }
+];
+
+export const DEFAULT_SIDECHAIN: SidechainSettings = {
+  source: null,
+  depth: 80,
+  attack: 5,
+  release: 200,
+  curve: 'exponential'
+};
+
+// Sidechain source IDs for a drum sound or a track's notes
+export const drumSidechainSource = (sound: DrumSound) => `drum:${sound}`;
+export const trackSidechainSource = (trackId: string) => `track:${trackId}`;
+
+// Points in the release curve of a duck
+const RELEASE_POINTS = 32;
+
+export class Mixer {
+  private context: AudioContext;
+  private destination: AudioNode;
+  private strips: Map<string, ChannelStrip> = new Map();
+  private returnBuses: Map<string, ReturnBus> = new Map();
+  private returnSettings: ReturnSettings = DEFAULT_RETURN_SETTINGS;
+
+  // Master bus - strips, returns and drums meet here, then go through the EQ when it's on
+  private masterBus: GainNode;
+  private masterEQ: ParametricEQ;
+  private masterEQEnabled: boolean = false;
+  private masterAnalyser: AnalyserNode;
+
+  // Drum machine input - routed to the first percussion track's strip
+  private drumInput: GainNode;
+  private drumTrackId: string | null = null;
+
+  // Ducking settings of every track that has a sidechain source
+  private sidechains: Map<string, SidechainSettings> = new Map();
+
+  // Fader smoothing time constant (seconds) to avoid zipper noise and clicks
+  private smoothing: number = 0.01;
+
+  constructor(context: AudioContext, destination: AudioNode) {
+    this.context = context;
+    this.destination = destination;
+
+    this.masterBus = context.createGain();
+    this.masterEQ = new ParametricEQ(context);
+    this.masterEQ.output.connect(destination);
+    this.masterAnalyser = context.createAnalyser();
+    this.masterAnalyser.fftSize = 2048;
+    this.masterAnalyser.smoothingTimeConstant = 0.3;
+    this.routeMaster();
+
+    this.drumInput = context.createGain();
+    this.drumInput.connect(this.masterBus);
+
+    this.createReturnBuses();
+  }
+
+  /**
+   * Create the shared return buses: input -> effect (100% wet) -> output -> master bus
+   */
+  private createReturnBuses(): void {
+    for (const { id, name } of RETURN_BUSES) {
+      const bus: ReturnBus = {
+        id,
+        name,
+        input: this.context.createGain(),
+        output: this.context.createGain()
+      };
+
+      if (id === 'reverb') {
+        const preDelay = this.context.createDelay(MAX_REVERB_PRE_DELAY / 1000);
+        const convolver = this.context.createConvolver();
+        preDelay.delayTime.value = this.returnSettings.reverb.preDelay / 1000;
+        convolver.buffer = generateReverbImpulse(this.context, this.returnSettings.reverb);
+        bus.input.connect(preDelay);
+        preDelay.connect(convolver);
+        convolver.connect(bus.output);
+        bus.preDelay = preDelay;
+        bus.convolver = convolver;
+      } else if (id === 'delay') {
+        const stereoDelay = new StereoDelay(this.context);
+        stereoDelay.setSettings(this.returnSettings.delay);
+        bus.input.connect(stereoDelay.input);
+        stereoDelay.output.connect(bus.output);
+        bus.stereoDelay = stereoDelay;
+      }
+
+      bus.output.connect(this.masterBus);
+      this.returnBuses.set(id, bus);
+    }
+  }
+
+  /**
+   * Create, update and remove channel strips to match the given tracks
+   */
+  syncTracks(tracks: Track[]): void {
+    const trackIds = new Set(tracks.map(t => t.id));
+
+    // Remove strips of deleted tracks
+    for (const [trackId, strip] of this.strips) {
+      if (!trackIds.has(trackId)) {
+        strip.input.disconnect();
+        strip.duck.disconnect();
+        strip.fader.disconnect();
+        strip.panner.disconnect();
+        strip.sends.forEach(send => send.disconnect());
+        this.strips.delete(trackId);
+      }
+    }
+
+    // Any soloed track silences every track that is not soloed
+    const anySoloed = tracks.some(t => t.soloed);
+
+    for (const track of tracks) {
+      const strip = this.strips.get(track.id) ?? this.createStrip(track.id);
+      const audible = !track.muted && (!anySoloed || track.soloed);
+      const now = this.context.currentTime;
+
+      strip.fader.gain.setTargetAtTime(audible ? track.volume : 0, now, this.smoothing);
+      strip.panner.pan.setTargetAtTime(Math.max(-1, Math.min(1, track.pan)), now, this.smoothing);
+
+      for (const [busId, send] of strip.sends) {
+        send.gain.setTargetAtTime(track.sends?.[busId] ?? 0, now, this.smoothing);
+      }
+
+      if (track.sidechain?.source) {
+        this.sidechains.set(track.id, track.sidechain);
+      } else if (this.sidechains.delete(track.id)) {
+        // Let go of a duck in progress when the source is removed
+        strip.duck.gain.cancelScheduledValues(now);
+        strip.duck.gain.setTargetAtTime(1, now, this.smoothing);
+        strip.duckRamp = [];
+      }
+    }
+
+    for (const trackId of this.sidechains.keys()) {
+      if (!trackIds.has(trackId)) this.sidechains.delete(trackId);
+    }
+
+    this.routeDrums(tracks.find(t => t.type === 'percussion')?.id ?? null);
+  }
+
+  /**
+   * Create a channel strip: input -> duck -> fader -> panner -> master bus
+   * Sends tap the panner output so they follow fader, pan and mute
+   */
+  private createStrip(trackId: string): ChannelStrip {
+    const strip: ChannelStrip = {
+      input: this.context.createGain(),
+      duck: this.context.createGain(),
+      duckRamp: [],
+      fader: this.context.createGain(),
+      panner: this.context.createStereoPanner(),
+      sends: new Map()
+    };
+
+    strip.fader.gain.value = 0;
+    strip.input.connect(strip.duck);
+    strip.duck.connect(strip.fader);
+    strip.fader.connect(strip.panner);
+    strip.panner.connect(this.masterBus);
+
+    for (const [busId, bus] of this.returnBuses) {
+      const send = this.context.createGain();
+      send.gain.value = 0;
+      strip.panner.connect(send);
+      send.connect(bus.input);
+      strip.sends.set(busId, send);
+    }
+
+    this.strips.set(trackId, strip);
+    return strip;
+  }
+
+  /**
+   * Route the drum machine through a percussion track's strip, or straight to master
+   */
+  private routeDrums(trackId: string | null): void {
+    if (trackId === this.drumTrackId) return;
+
+    this.drumInput.disconnect();
+    const strip = trackId ? this.strips.get(trackId) : null;
+    this.drumInput.connect(strip ? strip.input : this.masterBus);
+    this.drumTrackId = strip ? trackId : null;
+  }
+
+  /**
+   * Duck every track keyed from the given source, at the given time or now
+   */
+  triggerSidechain(source: string, time: number = 0): void {
+    for (const [trackId, settings] of this.sidechains) {
+      if (settings.source !== source) continue;
+      const strip = this.strips.get(trackId);
+      if (strip) this.duck(strip, settings, Math.max(this.context.currentTime, time));
+    }
+  }
+
+  /**
+   * Duck from a drum hit - keys both the sound itself and the track the drums play through
+   */
+  triggerDrumSidechain(sound: DrumSound, time: number = 0): void {
+    this.triggerSidechain(drumSidechainSource(sound), time);
+    if (this.drumTrackId) {
+      this.triggerSidechain(trackSidechainSource(this.drumTrackId), time);
+    }
+  }
+
+  /**
+   * Pull a strip's level down over the attack, then bring it back along the release curve
+   * Hits during a duck carry on from wherever the level has got to
+   */
+  private duck(strip: ChannelStrip, settings: SidechainSettings, time: number): void {
+    const gain = strip.duck.gain;
+    const floor = 1 - Math.max(0, Math.min(100, settings.depth)) / 100;
+    const attack = Math.max(1, settings.attack) / 1000;
+    const release = Math.max(1, settings.release) / 1000;
+
+    const level = this.duckLevelAt(strip, time);
+    if (typeof gain.cancelAndHoldAtTime === 'function') {
+      gain.cancelAndHoldAtTime(time);
+    } else {
+      // Cancelling drops the ramp in flight, ramping to its level at the hit puts the same line back
+      gain.cancelScheduledValues(time);
+      gain.linearRampToValueAtTime(level, time);
+    }
+
+    // Points before the last one already passed can't affect the level any more
+    const now = this.context.currentTime;
+    const passed = strip.duckRamp.filter(point => point.time <= now).length;
+    const ramp = strip.duckRamp.slice(Math.max(0, passed - 1)).filter(point => point.time < time);
+    ramp.push({ time, value: level }, { time: time + attack, value: floor });
+
+    // The release is a run of short ramps rather than a value curve - a curve that has already
+    // started can't be cancelled, so the next hit's setValueAtTime would throw without cancelAndHoldAtTime
+    const values = this.releaseCurve(floor, settings.curve);
+    for (let i = 1; i < values.length; i++) {
+      ramp.push({ time: time + attack + (release * i) / (values.length - 1), value: values[i] });
+    }
+    for (const point of ramp.slice(ramp.length - values.length)) {
+      gain.linearRampToValueAtTime(point.value, point.time);
+    }
+    strip.duckRamp = ramp;
+  }
+
+  /**
+   * Level of a strip's duck gain at a time, following the ramps scheduled so far
+   */
+  private duckLevelAt(strip: ChannelStrip, time: number): number {
+    const ramp = strip.duckRamp;
+    if (ramp.length === 0) return strip.duck.gain.value;
+
+    const next = ramp.findIndex(point => point.time > time);
+    if (next === -1) return ramp[ramp.length - 1].value;
+    if (next === 0) return ramp[0].value;
+    const from = ramp[next - 1];
+    const to = ramp[next];
+    return from.value + (to.value - from.value) * (time - from.time) / (to.time - from.time);
+  }
+
+  /**
+   * Gain values from the ducked level back up to unity
+   */
+  private releaseCurve(floor: number, curve: SidechainCurve): Float32Array {
+    const values = new Float32Array(RELEASE_POINTS);
+    for (let i = 0; i < RELEASE_POINTS; i++) {
+      const x = i / (RELEASE_POINTS - 1);
+      const shaped = curve === 'exponential' ? 1 - Math.pow(1 - x, 3)
+        : curve === 'logarithmic' ? Math.pow(x, 3)
+        : x;
+      values[i] = floor + (1 - floor) * shaped;
+    }
+    return values;
+  }
+
+  /**
+   * Set the tempo the delay return's synced time follows
+   */
+  setBpm(bpm: number): void {
+    this.returnBuses.get('delay')?.stereoDelay?.setBpm(bpm);
+  }
+
+  /**
+   * Set the reverb return's room and the delay return's echoes
+   * The impulse is only regenerated when a setting that shapes it changes
+   */
+  setReturnSettings(settings: ReturnSettings): void {
+    const previous = this.returnSettings.reverb;
+    this.returnSettings = settings;
+
+    const reverb = this.returnBuses.get('reverb');
+    if (reverb) {
+      reverb.preDelay!.delayTime.setTargetAtTime(settings.reverb.preDelay / 1000, this.context.currentTime, 0.01);
+      const changed = previous.size !== settings.reverb.size ||
+        previous.decay !== settings.reverb.decay ||
+        previous.damping !== settings.reverb.damping ||
+        previous.width !== settings.reverb.width;
+      if (changed) {
+        reverb.convolver!.buffer = generateReverbImpulse(this.context, settings.reverb);
+      }
+    }
+
+    this.returnBuses.get('delay')?.stereoDelay?.setSettings(settings.delay);
+  }
+
+  /**
+   * Get the input node of a track's channel strip
+   */
+  getChannelInput(trackId: string): AudioNode | null {
+    return this.strips.get(trackId)?.input ?? null;
+  }
+
+  /**
+   * Get the input node the drum machine should connect to
+   */
+  getDrumInput(): AudioNode {
+    return this.drumInput;
+  }
+
+  /**
+   * Get the master bus the strips feed
+   */
+  getDestination(): AudioNode {
+    return this.masterBus;
+  }
+
+  /**
+   * Set the master EQ's bands and whether the master bus goes through it
+   */
+  setMasterEQ(settings: EQSettings, enabled: boolean): void {
+    this.masterEQ.setSettings(settings);
+    if (enabled !== this.masterEQEnabled) {
+      this.masterEQEnabled = enabled;
+      this.routeMaster();
+    }
+  }
+
+  /**
+   * Send the master bus through the EQ or straight to the destination - the analyser always sees it before the EQ
+   */
+  private routeMaster(): void {
+    this.masterBus.disconnect();
+    this.masterBus.connect(this.masterAnalyser);
+    this.masterBus.connect(this.masterEQEnabled ? this.masterEQ.input : this.destination);
+  }
+
+  /**
+   * Combined master EQ response in dB at each frequency, for drawing the curve
+   */
+  getMasterEQResponse(frequencies: Float32Array<ArrayBuffer>): Float32Array {
+    return this.masterEQ.getResponse(frequencies);
+  }
+
+  /**
+   * Sample rate the master spectrum's bins are spread over
+   */
+  getSampleRate(): number {
+    return this.context.sampleRate;
+  }
+
+  /**
+   * Spectrum of the master bus, one byte per analyser bin
+   */
+  getMasterFrequencyData(): Uint8Array {
+    const data = new Uint8Array(this.masterAnalyser.frequencyBinCount);
+    this.masterAnalyser.getByteFrequencyData(data);
+    return data;
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * Modulation Matrix - Routes LFOs and envelopes to engine parameters
+ * LFOs run continuously for the whole instrument, envelopes restart with every note
+ * Each slot connects one source to one destination with its own depth and polarity
+ */
+
+import type {
+  ModMatrix,
+  ModSlot,
+  ModDestination,
+  ModTarget,
+  ModTargets,
+  ModConnection,
+  VoiceModulation
+} from './types';
+import { LFOSource, DEFAULT_LFO_TIMING } from './LFOSource';
+
+// Destination ranges at 100% depth, in the units of the modulated AudioParam
+export const MOD_DESTINATION_RANGES: Record<ModDestination, number> = {
+  cutoff: 4800, // cents (4 octaves)
+  resonance: 10, // Q
+  pitch: 1200, // cents
+  amplitude: 1, // gain
+  pan: 1,
+  unisonDetune: 50, // cents at the outer unison voices
+  wavetablePosition: 1, // full table
+  noise: 1, // gain
+  chorus: 1, // wet gain
+  delay: 1, // wet gain
+  reverb: 1 // wet gain
+};
+
+export const MOD_DESTINATIONS: { id: ModDestination; label: string }[] = [
+  { id: 'cutoff', label: 'CUTOFF' },
+  { id: 'resonance', label: 'RES' },
+  { id: 'pitch', label: 'PITCH' },
+  { id: 'amplitude', label: 'AMP' },
+  { id: 'pan', label: 'PAN' },
+  { id: 'unisonDetune', label: 'DETUNE' },
+  { id: 'wavetablePosition', label: 'WT POS' },
+  { id: 'noise', label: 'NOISE' },
+  { id: 'chorus', label: 'CHORUS' },
+  { id: 'delay', label: 'DELAY' },
+  { id: 'reverb', label: 'REVERB' }
+];
+
+export const MAX_MOD_SLOTS = 8;
+
+export const DEFAULT_MOD_MATRIX: ModMatrix = {
+  lfos: [
+    { ...DEFAULT_LFO_TIMING, id: 'lfo1', shape: 'sine', rate: 1 },
+    { ...DEFAULT_LFO_TIMING, id: 'lfo2', shape: 'triangle', rate: 0.25 },
+    { ...DEFAULT_LFO_TIMING, id: 'lfo3', shape: 'square', rate: 4 }
+  ],
+  envelopes: [
+    { id: 'env1', attack: 10, decay: 300, sustain: 0, release: 200 },
+    { id: 'env2', attack: 500, decay: 500, sustain: 0.5, release: 500 }
+  ],
+  slots: []
+};
+
+interface MatrixLFO {
+  source: LFOSource;
+  // Output shifted into 0 to 1
+  unipolar: GainNode;
+}
+
+export class ModulationMatrix {
+  private context: AudioContext;
+  private config: ModMatrix = DEFAULT_MOD_MATRIX;
+  private enabled: boolean = true;
+
+  // Constant 1, used to shift LFOs into their unipolar range
+  private one: ConstantSourceNode;
+
+  private lfos: Map<string, MatrixLFO> = new Map();
+  private bpm: number = 120;
+
+  // Effect parameters shared by all notes
+  private globalTargets: ModTargets = {};
+  private globalConnections: ModConnection[] = [];
+
+  // Notes currently attached to the matrix
+  private voices: Set<VoiceModulation> = new Set();
+
+  constructor(context: AudioContext) {
+    this.context = context;
+
+    this.one = context.createConstantSource();
+    this.one.offset.value = 1;
+    this.one.start();
+
+    this.syncLFOs();
+  }
+
+  /**
+   * Replace the matrix configuration
+   * LFOs are updated in place so their phase carries on
+   */
+  setConfig(config: ModMatrix): void {
+    if (config === this.config) return;
+    this.config = config;
+    this.syncLFOs();
+    this.rerouteAll();
+  }
+
+  getConfig(): ModMatrix {
+    return this.config;
+  }
+
+  /**
+   * Set the tempo synced LFOs follow
+   */
+  setBpm(bpm: number): void {
+    this.bpm = bpm;
+    for (const lfo of this.lfos.values()) {
+      lfo.source.setBpm(bpm);
+    }
+  }
+
+  /**
+   * Enable or disable every slot without losing the configuration
+   */
+  setEnabled(enabled: boolean): void {
+    if (enabled === this.enabled) return;
+    this.enabled = enabled;
+    this.rerouteAll();
+  }
+
+  /**
+   * Set the effect parameters available as destinations
+   */
+  setGlobalTargets(targets: ModTargets): void {
+    this.globalTargets = targets;
+    this.routeGlobal();
+  }
+
+  /**
+   * Attach a new note, start its envelopes and retrigger LFOs that follow notes
+   */
+  attachVoice(targets: ModTargets, time: number): VoiceModulation {
+    for (const lfo of this.lfos.values()) {
+      lfo.source.noteOn(time);
+    }
+
+    const voice: VoiceModulation = {
+      targets,
+      envelopes: new Map(),
+      connections: []
+    };
+    this.voices.add(voice);
+    this.routeVoice(voice, time);
+    return voice;
+  }
+
+  /**
+   * Start the release stage of a note's envelopes
+   */
+  releaseVoice(voice: VoiceModulation, time: number): void {
+    for (const [key, source] of voice.envelopes) {
+      const [envelopeId, polarity] = key.split(':');
+      const envelope = this.config.envelopes.find(e => e.id === envelopeId);
+      const release = envelope ? envelope.release / 1000 : 0.01;
+      const current = source.offset.value;
+      source.offset.cancelScheduledValues(time);
+      source.offset.setValueAtTime(current, time);
+      source.offset.linearRampToValueAtTime(polarity === 'bipolar' ? -1 : 0, time + release);
+    }
+  }
+
+  /**
+   * Detach a note and free its nodes
+   */
+  detachVoice(voice: VoiceModulation): void {
+    this.disconnectAll(voice.connections);
+    voice.connections = [];
+    for (const source of voice.envelopes.values()) {
+      try {
+        source.stop();
+      } catch (e) { }
+      source.disconnect();
+    }
+    voice.envelopes.clear();
+    this.voices.delete(voice);
+  }
+
+  /**
+   * Stop all sources
+   */
+  dispose(): void {
+    for (const voice of Array.from(this.voices)) {
+      this.detachVoice(voice);
+    }
+    this.disconnectAll(this.globalConnections);
+    this.globalConnections = [];
+
+    for (const lfo of this.lfos.values()) {
+      lfo.source.stop();
+      lfo.unipolar.disconnect();
+    }
+    this.lfos.clear();
+
+    this.one.stop();
+    this.one.disconnect();
+  }
+
+  /**
+   * Create, update and remove LFO oscillators to match the config
+   */
+  private syncLFOs(): void {
+    const ids = new Set(this.config.lfos.map(l => l.id));
+
+    for (const [id, lfo] of this.lfos) {
+      if (!ids.has(id)) {
+        lfo.source.stop();
+        lfo.unipolar.disconnect();
+        this.one.disconnect(lfo.unipolar);
+        this.lfos.delete(id);
+      }
+    }
+
+    for (const config of this.config.lfos) {
+      let lfo = this.lfos.get(config.id);
+      if (!lfo) {
+        const source = new LFOSource(this.context);
+        source.setBpm(this.bpm);
+        const unipolar = this.context.createGain();
+        unipolar.gain.value = 0.5;
+        source.output.connect(unipolar);
+        this.one.connect(unipolar);
+        lfo = { source, unipolar };
+        this.lfos.set(config.id, lfo);
+      }
+      // Fill in timing fields missing from older configs
+      lfo.source.setTiming({ ...DEFAULT_LFO_TIMING, ...config });
+    }
+  }
+
+  private rerouteAll(): void {
+    this.routeGlobal();
+    const now = this.context.currentTime;
+    for (const voice of this.voices) {
+      this.routeVoice(voice, now);
+    }
+  }
+
+  /**
+   * Route LFO slots to effect destinations
+   * Envelopes belong to single notes, so they can't drive shared effect parameters
+   */
+  private routeGlobal(): void {
+    this.disconnectAll(this.globalConnections);
+    this.globalConnections = [];
+    if (!this.enabled) return;
+
+    for (const slot of this.config.slots) {
+      const targets = this.globalTargets[slot.destination];
+      const lfo = this.lfos.get(slot.source);
+      if (!targets || !lfo) continue;
+
+      const source = slot.bipolar ? lfo.source.output : lfo.unipolar;
+      this.connectSlot(slot, source, targets, this.globalConnections);
+    }
+  }
+
+  /**
+   * Route every slot with a per-note destination for one note
+   * Envelopes used by a slot are started the first time they're needed
+   */
+  private routeVoice(voice: VoiceModulation, time: number): void {
+    this.disconnectAll(voice.connections);
+    voice.connections = [];
+    if (!this.enabled) return;
+
+    for (const slot of this.config.slots) {
+      const targets = voice.targets[slot.destination];
+      if (!targets || targets.length === 0) continue;
+
+      const source = this.getVoiceSource(voice, slot, time);
+      if (!source) continue;
+
+      this.connectSlot(slot, source, targets, voice.connections);
+    }
+  }
+
+  /**
+   * Resolve a slot's source node for a note, in the slot's polarity
+   */
+  private getVoiceSource(voice: VoiceModulation, slot: ModSlot, time: number): AudioNode | null {
+    const lfo = this.lfos.get(slot.source);
+    if (lfo) {
+      return slot.bipolar ? lfo.source.output : lfo.unipolar;
+    }
+
+    const envelope = this.config.envelopes.find(e => e.id === slot.source);
+    if (!envelope) return null;
+
+    // Bipolar envelopes run their own curve from -1 through 1
+    const key = `${envelope.id}:${slot.bipolar ? 'bipolar' : 'unipolar'}`;
+    let source = voice.envelopes.get(key);
+    if (!source) {
+      const toPolarity = (value: number) => slot.bipolar ? value * 2 - 1 : value;
+      source = this.context.createConstantSource();
+      source.offset.setValueAtTime(toPolarity(0), time);
+      source.offset.linearRampToValueAtTime(toPolarity(1), time + envelope.attack / 1000);
+      source.offset.linearRampToValueAtTime(
+        toPolarity(envelope.sustain),
+        time + (envelope.attack + envelope.decay) / 1000
+      );
+      source.start(time);
+      voice.envelopes.set(key, source);
+    }
+
+    return source;
+  }
+
+  /**
+   * Connect a source to each target through a depth gain
+   */
+  private connectSlot(slot: ModSlot, source: AudioNode, targets: ModTarget[], connections: ModConnection[]): void {
+    const depth = (Math.max(-100, Math.min(100, slot.depth)) / 100) * MOD_DESTINATION_RANGES[slot.destination];
+    if (depth === 0) return;
+
+    for (const target of targets) {
+      const gain = this.context.createGain();
+      gain.gain.value = depth * target.scale;
+      source.connect(gain);
+      gain.connect(target.param);
+      connections.push({ source, gain });
+    }
+  }
+
+  /**
+   * Remove depth gains on both sides so long-running LFOs don't hold on to them
+   */
+  private disconnectAll(connections: ModConnection[]): void {
+    for (const { source, gain } of connections) {
+      try {
+        source.disconnect(gain);
+      } catch (e) { }
+      gain.disconnect();
+    }
+  }
+}
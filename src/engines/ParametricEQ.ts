@@ -0,0 +1,137 @@
+/**
+ * Parametric EQ - A high-pass, low shelf, three peaking bands, high shelf and low-pass in series
+ * Used as an instrument insert and on the mixer's master bus
+ */
+
+import type { EQBand, EQBandType, EQSettings } from './types';
+
+// Band layout, lowest first - settings always have one band per entry
+export const EQ_BANDS: { type: EQBandType; label: string }[] = [
+  { type: 'highpass', label: 'HP' },
+  { type: 'lowshelf', label: 'LOW' },
+  { type: 'peaking', label: 'P1' },
+  { type: 'peaking', label: 'P2' },
+  { type: 'peaking', label: 'P3' },
+  { type: 'highshelf', label: 'HIGH' },
+  { type: 'lowpass', label: 'LP' }
+];
+
+export const DEFAULT_EQ_SETTINGS: EQSettings = {
+  bands: [
+    { type: 'highpass', enabled: false, frequency: 30, gain: 0, q: 0.7 },
+    { type: 'lowshelf', enabled: true, frequency: 100, gain: 0, q: 0.7 },
+    { type: 'peaking', enabled: true, frequency: 300, gain: 0, q: 1 },
+    { type: 'peaking', enabled: true, frequency: 1000, gain: 0, q: 1 },
+    { type: 'peaking', enabled: true, frequency: 3500, gain: 0, q: 1 },
+    { type: 'highshelf', enabled: true, frequency: 8000, gain: 0, q: 0.7 },
+    { type: 'lowpass', enabled: false, frequency: 18000, gain: 0, q: 0.7 }
+  ]
+};
+
+export const EQ_MIN_FREQUENCY = 20;
+export const EQ_MAX_FREQUENCY = 20000;
+export const EQ_MAX_GAIN = 24;
+
+// Smoothing for band changes, so dragging the curve doesn't click
+const SMOOTHING = 0.02;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Whether a band type has a gain - the pass filters only have frequency and Q
+ */
+export function eqBandHasGain(type: EQBandType): boolean {
+  return type !== 'highpass' && type !== 'lowpass';
+}
+
+/**
+ * Fill in and clamp EQ settings read from module parameters or a saved project
+ */
+export function normalizeEQSettings(parameters: Partial<EQSettings> | undefined): EQSettings {
+  return {
+    bands: DEFAULT_EQ_SETTINGS.bands.map((fallback, i): EQBand => {
+      const band = { ...fallback, ...parameters?.bands?.[i] };
+      return {
+        type: fallback.type,
+        enabled: !!band.enabled,
+        frequency: clamp(band.frequency, EQ_MIN_FREQUENCY, EQ_MAX_FREQUENCY),
+        gain: clamp(band.gain, -EQ_MAX_GAIN, EQ_MAX_GAIN),
+        q: clamp(band.q, 0.1, 18)
+      };
+    })
+  };
+}
+
+export class ParametricEQ {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private context: BaseAudioContext;
+  private filters: BiquadFilterNode[];
+  private enabled: boolean[] = [];
+
+  constructor(context: BaseAudioContext) {
+    this.context = context;
+    this.input = context.createGain();
+    this.output = context.createGain();
+
+    this.filters = EQ_BANDS.map(({ type }) => {
+      const filter = context.createBiquadFilter();
+      filter.type = type;
+      return filter;
+    });
+
+    this.setSettings(DEFAULT_EQ_SETTINGS);
+  }
+
+  setSettings(settings: EQSettings): void {
+    const now = this.context.currentTime;
+    settings.bands.forEach((band, i) => {
+      const filter = this.filters[i];
+      if (!filter) return;
+      filter.frequency.setTargetAtTime(band.frequency, now, SMOOTHING);
+      filter.gain.setTargetAtTime(band.gain, now, SMOOTHING);
+      filter.Q.setTargetAtTime(band.q, now, SMOOTHING);
+    });
+
+    const enabled = this.filters.map((_, i) => settings.bands[i]?.enabled ?? false);
+    if (enabled.some((on, i) => on !== this.enabled[i])) {
+      this.enabled = enabled;
+      this.connectBands();
+    }
+  }
+
+  /**
+   * Chain the enabled bands between input and output - switched-off bands are left out entirely
+   */
+  private connectBands(): void {
+    this.input.disconnect();
+    this.filters.forEach(filter => filter.disconnect());
+
+    let current: AudioNode = this.input;
+    this.filters.forEach((filter, i) => {
+      if (!this.enabled[i]) return;
+      current.connect(filter);
+      current = filter;
+    });
+    current.connect(this.output);
+  }
+
+  /**
+   * Combined response of the enabled bands in dB at each frequency
+   */
+  getResponse(frequencies: Float32Array<ArrayBuffer>): Float32Array {
+    const response = new Float32Array(frequencies.length);
+    const magnitude = new Float32Array(frequencies.length);
+    const phase = new Float32Array(frequencies.length);
+
+    this.filters.forEach((filter, i) => {
+      if (!this.enabled[i]) return;
+      filter.getFrequencyResponse(frequencies, magnitude, phase);
+      for (let j = 0; j < frequencies.length; j++) {
+        response[j] += 20 * Math.log10(Math.max(magnitude[j], 1e-6));
+      }
+    });
+
+    return response;
+  }
+}
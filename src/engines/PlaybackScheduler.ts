@@ -4,8 +4,13 @@
  */
 
 import type { Transport } from './Transport';
-import type { AudioEngine } from './AudioEngine';
-import type { MidiRecorder } from './MidiRecorder';
+import { AudioEngine } from './AudioEngine';
+import type { TrackEngines } from './TrackEngines';
+import type { RecordedMidiEvent } from './MidiRecorder';
+import type { MidiTrack } from '../types/track';
+
+// Note keys of clip playback start with this, telling them apart from live input
+export const PLAYBACK_NOTE_PREFIX = 'playback-';
 
 interface ScheduledEvent {
   scheduled: boolean;
@@ -14,13 +19,15 @@ interface ScheduledEvent {
 
 interface ActivePlaybackNote {
   startTime: number;
-  event: any;
+  event: RecordedMidiEvent;
+  engine: AudioEngine;
 }
 
 export class PlaybackScheduler {
   private transport: Transport;
   private synthEngine: AudioEngine;
-  private midiRecorder: MidiRecorder;
+  private trackEngines: TrackEngines | null = null;
+  private tracks: MidiTrack[] = [];
   
   // Scheduling state
   private scheduledEvents: Map<string, ScheduledEvent> = new Map();
@@ -34,10 +41,31 @@ export class PlaybackScheduler {
   // Track last scheduled time to prevent double-scheduling
   private lastScheduledTime: number = 0;
   
-  constructor(transport: Transport, synthEngine: AudioEngine, midiRecorder: MidiRecorder) {
+  constructor(transport: Transport, synthEngine: AudioEngine) {
     this.transport = transport;
     this.synthEngine = synthEngine;
-    this.midiRecorder = midiRecorder;
+  }
+
+  /**
+   * Set the per-track engines used to play each track's clips
+   */
+  setTrackEngines(trackEngines: TrackEngines): void {
+    this.trackEngines = trackEngines;
+  }
+
+  /**
+   * Set the MIDI tracks whose clips are played back
+   */
+  setTracks(tracks: MidiTrack[]): void {
+    this.tracks = tracks;
+  }
+
+  /**
+   * Resolve the engine for a track - the default synth only without track engines,
+   * null while the track's engine is still initialising
+   */
+  private getEngineForTrack(trackId: string): AudioEngine | null {
+    return this.trackEngines ? this.trackEngines.getEngine(trackId) : this.synthEngine;
   }
   
   /**
@@ -64,10 +92,7 @@ export class PlaybackScheduler {
     }
     
     // Stop all active playback notes
-    for (const noteKey of this.activePlaybackNotes.keys()) {
-      this.synthEngine.releaseNote(noteKey);
-    }
-    this.activePlaybackNotes.clear();
+    this.releaseActiveNotes();
     this.scheduledEvents.clear();
     this.lastScheduledTime = 0;
   }
@@ -87,65 +112,72 @@ export class PlaybackScheduler {
     // Only schedule events we haven't scheduled yet
     const scheduleStart = Math.max(this.lastScheduledTime, currentTime);
     
-    // Get all events from clips
-    const clips = this.midiRecorder.getClips();
     const now = audioContext.currentTime;
     
-    // Process each clip
-    for (const clip of clips) {
-      // Calculate clip's position on timeline
-      const clipStartTime = clip.startTime;
-      
-      // Handle looping - check if clip overlaps with current playback window (including loops)
-      const loopLength = this.transport.getLoopLengthBars() * 4 * (60 / this.transport.getBpm());
-      
-      // Calculate which loop iteration we're in
-      const currentLoopStart = Math.floor(currentTime / loopLength) * loopLength;
-      
-      // Check if clip overlaps with current loop iteration
-      const clipInLoopStart = clipStartTime % loopLength;
-      
-      // Process events in this clip
-      for (const event of clip.events) {
-        // Calculate absolute time of event within the loop
-        const eventTimeInLoop = clipInLoopStart + event.time;
-        
-        // Normalize event time to be within [0, loopLength)
-        let normalizedEventTime = eventTimeInLoop % loopLength;
-        if (normalizedEventTime < 0) {
-          normalizedEventTime += loopLength;
-        }
-        
-        // Calculate absolute timeline time
-        let eventAbsoluteTime = currentLoopStart + normalizedEventTime;
-        
-        // If event is before current time, it's in the next loop iteration
-        if (eventAbsoluteTime < currentTime) {
-          eventAbsoluteTime += loopLength;
-        }
+    // Handle looping - check if clip overlaps with current playback window (including loops)
+    const loopLength = this.transport.getLoopLengthBars() * 4 * (60 / this.transport.getBpm());
+    
+    // Calculate which loop iteration we're in
+    const currentLoopStart = Math.floor(currentTime / loopLength) * loopLength;
+    
+    // Process each clip of each track, routed to that track's engine
+    for (const track of this.tracks) {
+      const engine = this.getEngineForTrack(track.id);
+      if (!engine) continue;
+
+      for (const clip of track.clips) {
+        // Check if clip overlaps with current loop iteration
+        const clipInLoopStart = clip.startTime % loopLength;
         
-        // Check if event is in lookahead window
-        if (eventAbsoluteTime >= scheduleStart && eventAbsoluteTime < lookAheadEnd) {
-          const eventId = `${clip.id}-${event.time}-${event.note}-${Math.floor(eventAbsoluteTime / loopLength)}`;
+        // Process events in this clip - note-offs go before note-ons at the same time,
+        // so back-to-back notes don't overlap and slide in legato mode
+        const events = [...clip.events].sort((a, b) =>
+          a.time - b.time || (a.type === b.type ? 0 : a.type === 'noteOff' ? -1 : 1)
+        );
+        for (const event of events) {
+          // Calculate absolute time of event within the loop
+          const eventTimeInLoop = clipInLoopStart + event.time;
           
-          // Check if already scheduled
-          if (this.scheduledEvents.has(eventId)) {
-            continue;
+          // Normalize event time to be within [0, loopLength)
+          let normalizedEventTime = eventTimeInLoop % loopLength;
+          if (normalizedEventTime < 0) {
+            normalizedEventTime += loopLength;
           }
           
-          // Calculate when to schedule (relative to audioContext.currentTime)
-          const scheduleTime = now + (eventAbsoluteTime - currentTime);
+          // Calculate absolute timeline time
+          let eventAbsoluteTime = currentLoopStart + normalizedEventTime;
           
-          if (event.type === 'noteOn') {
-            this.scheduleNoteOn(event, scheduleTime, eventId);
-          } else if (event.type === 'noteOff') {
-            this.scheduleNoteOff(event, scheduleTime, eventId);
+          // If event is before current time, it's in the next loop iteration
+          if (eventAbsoluteTime < currentTime) {
+            eventAbsoluteTime += loopLength;
           }
           
-          this.scheduledEvents.set(eventId, {
-            scheduled: true,
-            noteKey: event.noteKey
-          });
+          // Check if event is in lookahead window
+          if (eventAbsoluteTime >= scheduleStart && eventAbsoluteTime < lookAheadEnd) {
+            const eventId = `${track.id}-${clip.id}-${event.type}-${event.time}-${event.note}-${Math.floor(eventAbsoluteTime / loopLength)}`;
+            
+            // Check if already scheduled
+            if (this.scheduledEvents.has(eventId)) {
+              continue;
+            }
+            
+            // Calculate when to schedule (relative to audioContext.currentTime)
+            const scheduleTime = now + (eventAbsoluteTime - currentTime);
+
+            // Note-on and note-off of the same note share a playback key
+            const playbackNoteKey = `${PLAYBACK_NOTE_PREFIX}${track.id}-${clip.id}-${event.noteKey}`;
+            
+            if (event.type === 'noteOn') {
+              this.scheduleNoteOn(event, engine, scheduleTime, playbackNoteKey);
+            } else if (event.type === 'noteOff') {
+              this.scheduleNoteOff(scheduleTime, playbackNoteKey);
+            }
+            
+            this.scheduledEvents.set(eventId, {
+              scheduled: true,
+              noteKey: event.noteKey
+            });
+          }
         }
       }
     }
@@ -158,87 +190,68 @@ export class PlaybackScheduler {
   }
   
   /**
-   * Schedule a note-on event using Web Audio timing
+   * Schedule a note-on event on the owning track's engine
    */
-  private scheduleNoteOn(event: any, scheduleTime: number, eventId: string): void {
+  private scheduleNoteOn(event: RecordedMidiEvent, engine: AudioEngine, scheduleTime: number, playbackNoteKey: string): void {
     const audioContext = this.synthEngine.getContext();
     if (!audioContext) return;
 
-    // Use a unique noteKey for playback
-    const playbackNoteKey = `playback-${eventId}`;
-
-    // Schedule note using Web Audio timing - more precise than setTimeout
-    // Note: We need to delay the actual playNote call slightly to account for
-    // envelope scheduling, but we track it immediately
+    // The note number is authoritative - piano roll edits change it without touching frequency
+    // Keys the engine's keyboard map leaves unmapped stay silent
+    const frequency = engine.noteToFrequency(event.note);
+    if (frequency === null) return;
     const delay = Math.max(0, scheduleTime - audioContext.currentTime);
 
-    if (delay < 0.01) {
-      // Play immediately
-      this.synthEngine.playNote(event.frequency, playbackNoteKey);
+    const play = () => {
+      if (!this.transport.getIsPlaying()) return;
+      engine.playNote(frequency, playbackNoteKey, event.velocity);
       this.activePlaybackNotes.set(playbackNoteKey, {
         startTime: scheduleTime,
-        event: event
-      });
-    } else if (delay < 0.1) {
-      // For very short delays, use setTimeout but minimize work in callback
-      setTimeout(() => {
-        if (this.transport.getIsPlaying()) {
-          this.synthEngine.playNote(event.frequency, playbackNoteKey);
-        }
-      }, delay * 1000);
-      this.activePlaybackNotes.set(playbackNoteKey, {
-        startTime: scheduleTime,
-        event: event
+        event,
+        engine
       });
+    };
+
+    if (delay < 0.01) {
+      // Play immediately
+      play();
     } else {
-      // For longer delays, schedule normally
-      setTimeout(() => {
-        if (this.transport.getIsPlaying()) {
-          this.synthEngine.playNote(event.frequency, playbackNoteKey);
-        }
-      }, delay * 1000);
-      this.activePlaybackNotes.set(playbackNoteKey, {
-        startTime: scheduleTime,
-        event: event
-      });
+      // Minimize work in setTimeout callback
+      setTimeout(play, delay * 1000);
     }
   }
   
   /**
-   * Schedule a note-off event
+   * Schedule a note-off event on the engine that started the note
    */
-  private scheduleNoteOff(_event: any, scheduleTime: number, eventId: string): void {
+  private scheduleNoteOff(scheduleTime: number, playbackNoteKey: string): void {
     const audioContext = this.synthEngine.getContext();
     if (!audioContext) return;
 
-    // Find the corresponding note-on
-    // Extract the base eventId (without the loop iteration)
-    const baseEventId = eventId.replace(/-\d+$/, '');
-    const playbackNoteKey = `playback-${baseEventId.replace('noteOff', 'noteOn')}`;
-
     const delay = Math.max(0, scheduleTime - audioContext.currentTime);
 
-    if (delay < 0.01) {
-      if (this.activePlaybackNotes.has(playbackNoteKey)) {
-        this.synthEngine.releaseNote(playbackNoteKey);
-        this.activePlaybackNotes.delete(playbackNoteKey);
-      }
-    } else if (delay < 0.1) {
-      // Minimize work in setTimeout callback
-      setTimeout(() => {
-        if (this.activePlaybackNotes.has(playbackNoteKey)) {
-          this.synthEngine.releaseNote(playbackNoteKey);
-        }
-      }, delay * 1000);
+    const release = () => {
+      const activeNote = this.activePlaybackNotes.get(playbackNoteKey);
+      if (!activeNote) return;
+      activeNote.engine.releaseNote(playbackNoteKey);
       this.activePlaybackNotes.delete(playbackNoteKey);
+    };
+
+    if (delay < 0.01) {
+      release();
     } else {
-      setTimeout(() => {
-        if (this.activePlaybackNotes.has(playbackNoteKey)) {
-          this.synthEngine.releaseNote(playbackNoteKey);
-          this.activePlaybackNotes.delete(playbackNoteKey);
-        }
-      }, delay * 1000);
+      setTimeout(release, delay * 1000);
+    }
+  }
+
+  /**
+   * Release every playing note on the engine that started it
+   */
+  private releaseActiveNotes(): void {
+    for (const [noteKey, activeNote] of this.activePlaybackNotes) {
+      activeNote.engine.releaseNote(noteKey);
     }
+    this.activePlaybackNotes.clear();
   }
   
   /**
@@ -254,10 +267,7 @@ export class PlaybackScheduler {
    */
   reset(): void {
     // Stop all active notes
-    for (const noteKey of this.activePlaybackNotes.keys()) {
-      this.synthEngine.releaseNote(noteKey);
-    }
-    this.activePlaybackNotes.clear();
+    this.releaseActiveNotes();
     
     // Clear scheduled events (will reschedule on next cycle)
     this.scheduledEvents.clear();
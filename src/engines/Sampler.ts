@@ -0,0 +1,221 @@
+/**
+ * Sampler - Key and velocity zones mapped to user-loaded samples
+ * Samples play through the normal voice chain, so the ADSR, filter, LFOs and effects all apply
+ */
+
+import type { VoiceOscillator, SamplerConfig, SamplerSample, SampleZone } from './types';
+
+export const DEFAULT_SAMPLER_CONFIG: SamplerConfig = {
+  samples: [],
+  zones: [],
+  roundRobin: true
+};
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Root note for files without a note name in them
+const DEFAULT_ROOT_NOTE = 60;
+
+export function midiNoteToName(note: number): string {
+  return `${NOTE_NAMES[note % 12]}${Math.floor(note / 12) - 1}`;
+}
+
+export function midiNoteToFrequency(note: number): number {
+  return 440 * Math.pow(2, (note - 69) / 12);
+}
+
+/**
+ * Root note from a file name such as "Piano_C#4.wav" or "strings-a3.wav"
+ */
+function parseRootNote(fileName: string): number | null {
+  const match = fileName.replace(/\.[^.]+$/, '').match(/(?:^|[^A-Za-z])([A-Ga-g])([#b]?)(-?\d)(?!\d)/);
+  if (!match) return null;
+
+  const base = NOTE_NAMES.indexOf(match[1].toUpperCase());
+  const accidental = match[2] === '#' ? 1 : match[2] === 'b' ? -1 : 0;
+  const note = (parseInt(match[3], 10) + 1) * 12 + base + accidental;
+  return note >= 0 && note <= 127 ? note : null;
+}
+
+export function encodeBase64(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  // Chunked so large files don't overflow the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function decodeBase64(data: string): ArrayBuffer {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+/**
+ * Load audio files as samples with one zone each
+ * Roots come from note names in the file names, and the key range is split between the new roots
+ * so a folder of multisamples maps across the keyboard. Files sharing a root share a range for round-robin
+ */
+export async function createSamplerZones(files: File[]): Promise<{ samples: SamplerSample[]; zones: SampleZone[] }> {
+  const samples: SamplerSample[] = [];
+  const zones: SampleZone[] = [];
+  const context = new OfflineAudioContext(1, 1, 44100);
+
+  for (const file of files) {
+    const data = await file.arrayBuffer();
+    // Decode once up front so unreadable files are rejected here rather than at playback
+    await context.decodeAudioData(data.slice(0));
+
+    const id = `sample_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    samples.push({ id, name: file.name.replace(/\.[^.]+$/, ''), data: encodeBase64(data) });
+    zones.push({
+      id: `zone_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      sampleId: id,
+      rootNote: parseRootNote(file.name) ?? DEFAULT_ROOT_NOTE,
+      lowNote: 0,
+      highNote: 127,
+      lowVelocity: 1,
+      highVelocity: 127,
+      loop: false,
+      loopStart: 0,
+      loopEnd: 1
+    });
+  }
+
+  // Split the keyboard halfway between neighbouring roots
+  const roots = Array.from(new Set(zones.map(zone => zone.rootNote))).sort((a, b) => a - b);
+  zones.forEach(zone => {
+    const index = roots.indexOf(zone.rootNote);
+    zone.lowNote = index === 0 ? 0 : Math.floor((roots[index - 1] + zone.rootNote) / 2) + 1;
+    zone.highNote = index === roots.length - 1 ? 127 : Math.floor((zone.rootNote + roots[index + 1]) / 2);
+  });
+
+  return { samples, zones };
+}
+
+// Sample and zone chosen for one note
+export interface SamplerNote {
+  buffer: AudioBuffer;
+  zone: SampleZone;
+}
+
+export class Sampler {
+  private context: BaseAudioContext;
+  private config: SamplerConfig = DEFAULT_SAMPLER_CONFIG;
+  // Decoded samples by ID - notes skip a sample until it has decoded
+  private buffers: Map<string, AudioBuffer> = new Map();
+  private decoding: Set<string> = new Set();
+  // Next round-robin position per set of matching zones
+  private roundRobinPositions: Map<string, number> = new Map();
+
+  constructor(context: BaseAudioContext) {
+    this.context = context;
+  }
+
+  /**
+   * Set zones and samples - new samples decode in the background
+   */
+  setConfig(config: SamplerConfig): void {
+    if (config === this.config) return;
+    this.config = config;
+
+    const sampleIds = new Set(config.samples.map(sample => sample.id));
+    for (const id of this.buffers.keys()) {
+      if (!sampleIds.has(id)) this.buffers.delete(id);
+    }
+
+    config.samples.forEach(sample => {
+      if (this.buffers.has(sample.id) || this.decoding.has(sample.id)) return;
+      this.decoding.add(sample.id);
+      this.context.decodeAudioData(decodeBase64(sample.data))
+        .then(buffer => {
+          if (this.config.samples.some(s => s.id === sample.id)) {
+            this.buffers.set(sample.id, buffer);
+          }
+        })
+        .catch(e => console.warn(`Failed to decode sample ${sample.name}:`, e))
+        .finally(() => this.decoding.delete(sample.id));
+    });
+  }
+
+  /**
+   * Pick the zone for a note - null when no decoded zone covers it
+   */
+  pickNote(note: number, velocity: number): SamplerNote | null {
+    const matches = this.config.zones.filter(zone =>
+      note >= zone.lowNote && note <= zone.highNote &&
+      velocity >= zone.lowVelocity && velocity <= zone.highVelocity &&
+      this.buffers.has(zone.sampleId)
+    );
+    if (matches.length === 0) return null;
+
+    let zone = matches[0];
+    if (this.config.roundRobin && matches.length > 1) {
+      const key = matches.map(m => m.id).join(',');
+      const position = this.roundRobinPositions.get(key) ?? 0;
+      zone = matches[position % matches.length];
+      this.roundRobinPositions.set(key, position + 1);
+    }
+
+    return { buffer: this.buffers.get(zone.sampleId)!, zone };
+  }
+}
+
+/**
+ * One sample playback for a voice - the frequency param sets the playback rate relative to the root note
+ * The root frequency is the root note's frequency in the instrument's tuning
+ */
+export class SampleOscillator implements VoiceOscillator {
+  readonly frequency: AudioParam;
+  readonly detune: AudioParam;
+  private frequencySource: ConstantSourceNode;
+  private rate: GainNode;
+  private source: AudioBufferSourceNode;
+
+  constructor(context: BaseAudioContext, note: SamplerNote, rootFrequency: number) {
+    const { buffer, zone } = note;
+
+    this.source = context.createBufferSource();
+    this.source.buffer = buffer;
+    this.source.playbackRate.value = 0;
+    if (zone.loop && zone.loopEnd > zone.loopStart) {
+      this.source.loop = true;
+      this.source.loopStart = zone.loopStart * buffer.duration;
+      this.source.loopEnd = zone.loopEnd * buffer.duration;
+    }
+
+    this.frequencySource = context.createConstantSource();
+    this.rate = context.createGain();
+    this.rate.gain.value = 1 / rootFrequency;
+    this.frequencySource.connect(this.rate);
+    this.rate.connect(this.source.playbackRate);
+
+    this.frequency = this.frequencySource.offset;
+    this.detune = this.source.detune;
+  }
+
+  start(when: number = 0): void {
+    this.frequencySource.start(when);
+    this.source.start(when);
+  }
+
+  stop(when: number = 0): void {
+    this.frequencySource.stop(when);
+    this.source.stop(when);
+  }
+
+  connect(destination: AudioNode): AudioNode {
+    return this.source.connect(destination);
+  }
+
+  disconnect(): void {
+    this.frequencySource.disconnect();
+    this.rate.disconnect();
+    this.source.disconnect();
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Stereo Delay - Two delay lines with filtered feedback, in stereo or ping-pong
+ * The output is the echoes only - the engine mixes it with the dry signal
+ */
+
+import type { DelayMode, DelaySettings } from './types';
+import { NOTE_DIVISIONS, divisionToBeats } from './LFOSource';
+
+export const DELAY_MODES: { id: DelayMode; label: string }[] = [
+  { id: 'stereo', label: 'STEREO' },
+  { id: 'pingPong', label: 'PING-PONG' }
+];
+
+export const MAX_DELAY_TIME = 2000;
+
+export const DEFAULT_DELAY_SETTINGS: DelaySettings = {
+  mode: 'stereo',
+  sync: true,
+  division: '1/8',
+  modifier: 'straight',
+  time: 250,
+  feedback: 30,
+  mix: 0,
+  lowCut: 20,
+  highCut: 20000
+};
+
+// Smoothing for time and filter changes, so knob turns don't click
+const SMOOTHING = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Fill in and clamp delay settings read from module parameters
+ */
+export function normalizeDelaySettings(parameters: Partial<DelaySettings> | undefined): DelaySettings {
+  const settings = { ...DEFAULT_DELAY_SETTINGS, ...parameters };
+  return {
+    mode: DELAY_MODES.some(m => m.id === settings.mode) ? settings.mode : DEFAULT_DELAY_SETTINGS.mode,
+    sync: !!settings.sync,
+    division: NOTE_DIVISIONS.includes(settings.division) ? settings.division : DEFAULT_DELAY_SETTINGS.division,
+    modifier: ['straight', 'dotted', 'triplet'].includes(settings.modifier) ? settings.modifier : DEFAULT_DELAY_SETTINGS.modifier,
+    time: clamp(settings.time, 1, MAX_DELAY_TIME),
+    feedback: clamp(settings.feedback, 0, 95),
+    mix: clamp(settings.mix, 0, 100),
+    lowCut: clamp(settings.lowCut, 20, 2000),
+    highCut: clamp(settings.highCut, 1000, 20000)
+  };
+}
+
+interface DelayChannel {
+  delay: DelayNode;
+  lowCut: BiquadFilterNode;
+  highCut: BiquadFilterNode;
+  feedback: GainNode;
+  // Feedback back into this channel (stereo) or across to the other one (ping-pong)
+  self: GainNode;
+  cross: GainNode;
+  // This side of the source, muted in ping-pong mode
+  input: GainNode;
+}
+
+export class StereoDelay {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private context: BaseAudioContext;
+  private left: DelayChannel;
+  private right: DelayChannel;
+  private pingPongInput: GainNode;
+
+  private settings: DelaySettings = DEFAULT_DELAY_SETTINGS;
+  private bpm: number = 120;
+
+  constructor(context: BaseAudioContext) {
+    this.context = context;
+
+    // Mono sources are upmixed so both sides get the signal
+    this.input = context.createGain();
+    this.input.channelCount = 2;
+    this.input.channelCountMode = 'explicit';
+    this.input.channelInterpretation = 'speakers';
+    this.output = context.createGain();
+
+    const splitter = context.createChannelSplitter(2);
+    const merger = context.createChannelMerger(2);
+    this.input.connect(splitter);
+
+    this.left = this.createChannel();
+    this.right = this.createChannel();
+
+    splitter.connect(this.left.input, 0);
+    splitter.connect(this.right.input, 1);
+
+    // Ping-pong feeds a mono sum into the left line only
+    this.pingPongInput = context.createGain();
+    this.pingPongInput.gain.value = 0;
+    splitter.connect(this.pingPongInput, 0);
+    splitter.connect(this.pingPongInput, 1);
+    this.pingPongInput.connect(this.left.delay);
+
+    this.left.self.connect(this.left.delay);
+    this.left.cross.connect(this.right.delay);
+    this.right.self.connect(this.right.delay);
+    this.right.cross.connect(this.left.delay);
+
+    this.left.delay.connect(merger, 0, 0);
+    this.right.delay.connect(merger, 0, 1);
+    merger.connect(this.output);
+
+    this.applySettings();
+  }
+
+  private createChannel(): DelayChannel {
+    const context = this.context;
+    const channel: DelayChannel = {
+      delay: context.createDelay(MAX_DELAY_TIME / 1000),
+      lowCut: context.createBiquadFilter(),
+      highCut: context.createBiquadFilter(),
+      feedback: context.createGain(),
+      self: context.createGain(),
+      cross: context.createGain(),
+      input: context.createGain()
+    };
+
+    channel.lowCut.type = 'highpass';
+    channel.highCut.type = 'lowpass';
+    channel.input.connect(channel.delay);
+    channel.delay.connect(channel.lowCut);
+    channel.lowCut.connect(channel.highCut);
+    channel.highCut.connect(channel.feedback);
+    channel.feedback.connect(channel.self);
+    channel.feedback.connect(channel.cross);
+    return channel;
+  }
+
+  setSettings(settings: DelaySettings): void {
+    this.settings = settings;
+    this.applySettings();
+  }
+
+  /**
+   * Set the tempo synced times follow
+   */
+  setBpm(bpm: number): void {
+    this.bpm = bpm;
+    if (this.settings.sync) this.applySettings();
+  }
+
+  /**
+   * Echo time in seconds for the current settings and tempo
+   */
+  getDelayTime(): number {
+    const { sync, division, modifier, time } = this.settings;
+    const ms = sync ? (60000 / this.bpm) * divisionToBeats(division, modifier) : time;
+    return clamp(ms, 1, MAX_DELAY_TIME) / 1000;
+  }
+
+  private applySettings(): void {
+    const now = this.context.currentTime;
+    const { mode, feedback, lowCut, highCut } = this.settings;
+    const pingPong = mode === 'pingPong';
+    const delayTime = this.getDelayTime();
+
+    for (const channel of [this.left, this.right]) {
+      channel.delay.delayTime.setTargetAtTime(delayTime, now, SMOOTHING);
+      channel.lowCut.frequency.setTargetAtTime(lowCut, now, SMOOTHING);
+      channel.highCut.frequency.setTargetAtTime(highCut, now, SMOOTHING);
+      channel.feedback.gain.setTargetAtTime(feedback / 100, now, SMOOTHING);
+      channel.self.gain.value = pingPong ? 0 : 1;
+      channel.cross.gain.value = pingPong ? 1 : 0;
+      channel.input.gain.value = pingPong ? 0 : 1;
+    }
+    this.pingPongInput.gain.value = pingPong ? 0.5 : 0;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Track Engines - One synth engine per MIDI track
+ * Every engine shares the root audio context and feeds its track's mixer channel
+ */
+
+import { AudioEngine } from './AudioEngine';
+import type { Mixer } from './Mixer';
+import type { Track, MidiTrack } from '../types/track';
+import type { InstrumentConfiguration } from '../types/instrument';
+import type { Tuning } from './types';
+import type { Transport } from './Transport';
+import { DEFAULT_TUNING } from './tuning';
+
+export class TrackEngines {
+  private context: AudioContext;
+  private mixer: Mixer;
+
+  // Engine and last loaded instrument per track ID
+  private engines: Map<string, AudioEngine> = new Map();
+  private loadedInstruments: Map<string, InstrumentConfiguration> = new Map();
+
+  // Engines still initialising - they aren't handed out until they're ready
+  private initializing: Map<string, Promise<void>> = new Map();
+
+  // Tempo for synced LFOs, applied to engines as they're created
+  private bpm: number = 120;
+
+  // Project tuning, applied to engines as they're created
+  private projectTuning: Tuning = DEFAULT_TUNING;
+
+  // Transport for arpeggiator timing, applied to engines as they're created
+  private transport: Transport | null = null;
+
+  // Told which track played whenever any engine starts a note
+  private noteListener: ((trackId: string) => void) | null = null;
+
+  constructor(context: AudioContext, mixer: Mixer) {
+    this.context = context;
+    this.mixer = mixer;
+  }
+
+  /**
+   * Create, update and dispose engines to match the given tracks
+   * An engine only reloads when its track's instrument config object changes
+   * The mixer must already have strips for these tracks
+   */
+  async syncTracks(tracks: Track[]): Promise<void> {
+    const midiTracks = tracks.filter((t): t is MidiTrack => t.type === 'midi');
+    const trackIds = new Set(midiTracks.map(t => t.id));
+
+    // Dispose engines of removed tracks
+    for (const [trackId, engine] of this.engines) {
+      if (!trackIds.has(trackId)) {
+        engine.dispose();
+        this.engines.delete(trackId);
+        this.loadedInstruments.delete(trackId);
+      }
+    }
+
+    for (const track of midiTracks) {
+      let engine = this.engines.get(track.id);
+      if (!engine) {
+        engine = new AudioEngine();
+        this.engines.set(track.id, engine);
+        this.initializing.set(track.id, this.initEngine(track.id, engine));
+      }
+
+      // An overlapping sync waits on the same init, then loads in call order
+      await this.initializing.get(track.id);
+      if (this.engines.get(track.id) !== engine) continue; // Removed meanwhile
+
+      if (this.loadedInstruments.get(track.id) !== track.instrumentConfig) {
+        engine.loadInstrument(track.instrumentConfig);
+        this.loadedInstruments.set(track.id, track.instrumentConfig);
+      }
+    }
+  }
+
+  /**
+   * Connect a new engine to its track's channel and bring it up to the shared settings
+   */
+  private async initEngine(trackId: string, engine: AudioEngine): Promise<void> {
+    const destination = this.mixer.getChannelInput(trackId) ?? this.mixer.getDestination();
+    await engine.init(this.context, destination);
+    engine.setBpm(this.bpm);
+    engine.setProjectTuning(this.projectTuning);
+    engine.setTransport(this.transport);
+    engine.setNoteOnListener(() => this.noteListener?.(trackId));
+    this.initializing.delete(trackId);
+  }
+
+  /**
+   * Record a config the track's engine already plays, so the next sync doesn't reload it
+   * For edits applied live through the engine's setters
+   */
+  markLoaded(trackId: string, config: InstrumentConfiguration): void {
+    if (this.getEngine(trackId)) {
+      this.loadedInstruments.set(trackId, config);
+    }
+  }
+
+  /**
+   * Get the engine that plays a track, once it has finished initialising
+   */
+  getEngine(trackId: string): AudioEngine | null {
+    if (this.initializing.has(trackId)) return null;
+    return this.engines.get(trackId) ?? null;
+  }
+
+  /**
+   * Get all engines keyed by track ID
+   */
+  getEngines(): Map<string, AudioEngine> {
+    return this.engines;
+  }
+
+  /**
+   * Set the tempo on every engine
+   */
+  setBpm(bpm: number): void {
+    this.bpm = bpm;
+    for (const engine of this.engines.values()) {
+      engine.setBpm(bpm);
+    }
+  }
+
+  /**
+   * Set the tuning every instrument without its own tuning plays in
+   */
+  setProjectTuning(tuning: Tuning): void {
+    this.projectTuning = tuning;
+    for (const engine of this.engines.values()) {
+      engine.setProjectTuning(tuning);
+    }
+  }
+
+  /**
+   * Set the transport every engine's arpeggiator lines up with
+   */
+  setTransport(transport: Transport | null): void {
+    this.transport = transport;
+    for (const engine of this.engines.values()) {
+      engine.setTransport(transport);
+    }
+  }
+
+  /**
+   * Listen to the notes every track's engine starts, or pass null to stop
+   */
+  setNoteListener(listener: ((trackId: string) => void) | null): void {
+    this.noteListener = listener;
+  }
+
+  /**
+   * Stop all notes on every track
+   */
+  stopAllNotes(): void {
+    for (const engine of this.engines.values()) {
+      engine.stopAllNotes();
+    }
+  }
+
+  /**
+   * Dispose every engine
+   */
+  dispose(): void {
+    for (const engine of this.engines.values()) {
+      engine.dispose();
+    }
+    this.engines.clear();
+    this.loadedInstruments.clear();
+  }
+}
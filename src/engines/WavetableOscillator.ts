@@ -0,0 +1,75 @@
+/// <reference types="vite/client" />
+
+/**
+ * Wavetable Oscillator - AudioWorklet-backed voice oscillator
+ * Drop-in for an OscillatorNode in a voice, with an extra position param for sweeping the table
+ */
+
+import type { VoiceOscillator } from './types';
+import processorUrl from './worklets/wavetableProcessor.ts?worker&url';
+
+// Worklet module loads per context - track engines share one
+const workletLoads = new WeakMap<BaseAudioContext, Promise<void>>();
+
+// Tables already handed to each context's audio thread
+const sentTables = new WeakMap<BaseAudioContext, Set<string>>();
+
+/**
+ * Load the wavetable processor into a context, once
+ */
+export function loadWavetableWorklet(context: BaseAudioContext): Promise<void> {
+  let load = workletLoads.get(context);
+  if (!load) {
+    load = context.audioWorklet.addModule(processorUrl);
+    workletLoads.set(context, load);
+  }
+  return load;
+}
+
+export class WavetableOscillator implements VoiceOscillator {
+  readonly frequency: AudioParam;
+  readonly detune: AudioParam;
+  readonly position: AudioParam;
+  private node: AudioWorkletNode;
+
+  /**
+   * Frames are only sent to the audio thread the first time a table ID is used in the context,
+   * so table IDs must change whenever their frames do
+   * Phase is where in the cycle the oscillator starts, 0 to 1
+   */
+  constructor(context: BaseAudioContext, tableId: string, frames: Float32Array[], phase: number = 0) {
+    let sent = sentTables.get(context);
+    if (!sent) {
+      sent = new Set();
+      sentTables.set(context, sent);
+    }
+
+    this.node = new AudioWorkletNode(context, 'wavetable-oscillator', {
+      numberOfInputs: 0,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      processorOptions: { tableId, frames: sent.has(tableId) ? undefined : frames, phase }
+    });
+    sent.add(tableId);
+
+    this.frequency = this.node.parameters.get('frequency')!;
+    this.detune = this.node.parameters.get('detune')!;
+    this.position = this.node.parameters.get('position')!;
+  }
+
+  start(when: number = 0): void {
+    this.node.port.postMessage({ type: 'start', time: when });
+  }
+
+  stop(when: number = 0): void {
+    this.node.port.postMessage({ type: 'stop', time: when });
+  }
+
+  connect(destination: AudioNode): AudioNode {
+    return this.node.connect(destination);
+  }
+
+  disconnect(): void {
+    this.node.disconnect();
+  }
+}
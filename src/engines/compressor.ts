@@ -0,0 +1,51 @@
+/**
+ * Compressor settings - the instrument compressor is a DynamicsCompressorNode followed by makeup gain
+ */
+
+import type { CompressorSettings } from './types';
+
+export const DEFAULT_COMPRESSOR_SETTINGS: CompressorSettings = {
+  threshold: -24,
+  ratio: 4,
+  knee: 30,
+  attack: 3,
+  release: 250,
+  makeup: 0
+};
+
+// Smoothing for knob turns, so changes don't click
+const SMOOTHING = 0.02;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Fill in and clamp compressor settings read from module parameters
+ */
+export function normalizeCompressorSettings(parameters: Partial<CompressorSettings> | undefined): CompressorSettings {
+  const settings = { ...DEFAULT_COMPRESSOR_SETTINGS, ...parameters };
+  return {
+    threshold: clamp(settings.threshold, -60, 0),
+    ratio: clamp(settings.ratio, 1, 20),
+    knee: clamp(settings.knee, 0, 40),
+    attack: clamp(settings.attack, 0, 1000),
+    release: clamp(settings.release, 10, 1000),
+    makeup: clamp(settings.makeup, 0, 24)
+  };
+}
+
+/**
+ * Set a compressor and its makeup gain from the settings
+ */
+export function applyCompressorSettings(
+  compressor: DynamicsCompressorNode,
+  makeup: GainNode,
+  settings: CompressorSettings
+): void {
+  const now = compressor.context.currentTime;
+  compressor.threshold.setTargetAtTime(settings.threshold, now, SMOOTHING);
+  compressor.ratio.setTargetAtTime(settings.ratio, now, SMOOTHING);
+  compressor.knee.setTargetAtTime(settings.knee, now, SMOOTHING);
+  compressor.attack.setTargetAtTime(settings.attack / 1000, now, SMOOTHING);
+  compressor.release.setTargetAtTime(settings.release / 1000, now, SMOOTHING);
+  makeup.gain.setTargetAtTime(Math.pow(10, settings.makeup / 20), now, SMOOTHING);
+}
@@ -0,0 +1,69 @@
+/**
+ * Effect chain - the order instruments run their effects in, after the voices are summed
+ * A chain can hold an effect more than once - a copy follows that effect's settings until it's given its own
+ * The per-voice filter isn't part of the chain, every slot comes after it
+ */
+
+import type { EffectSlot, EffectType } from './types';
+import { normalizeDistortionSettings } from './Distortion';
+import { normalizeEQSettings } from './ParametricEQ';
+import { normalizeCompressorSettings } from './compressor';
+import { normalizeDelaySettings } from './StereoDelay';
+import { normalizeReverbSettings } from './reverbImpulse';
+
+export const EFFECT_TYPES: { type: EffectType; label: string }[] = [
+  { type: 'distortion', label: 'DISTORTION' },
+  { type: 'eq', label: 'EQ' },
+  { type: 'compressor', label: 'COMPRESSOR' },
+  { type: 'chorus', label: 'CHORUS' },
+  { type: 'delay', label: 'DELAY' },
+  { type: 'reverb', label: 'REVERB' }
+];
+
+// The standard order - slot IDs are the effect types so older instruments line up with it
+export const DEFAULT_EFFECT_CHAIN: EffectSlot[] = EFFECT_TYPES.map(({ type }) => ({ id: type, type }));
+
+export function createEffectSlot(type: EffectType, settings?: Record<string, any>): EffectSlot {
+  return {
+    id: `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    type,
+    settings
+  };
+}
+
+const clampAmount = (value: unknown): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(0, Math.min(100, value)) : 0;
+
+/**
+ * Fill in and clamp a slot's own settings - the effect's module parameters, plus the wet
+ * level for the effects whose level is otherwise one of the instrument's knobs
+ */
+export function normalizeSlotSettings(type: EffectType, settings: Record<string, any>): Record<string, any> {
+  switch (type) {
+    case 'distortion':
+      return { ...normalizeDistortionSettings(settings), amount: clampAmount(settings.amount) };
+    case 'eq':
+      return normalizeEQSettings(settings);
+    case 'compressor':
+      return normalizeCompressorSettings(settings);
+    case 'chorus':
+      return { amount: clampAmount(settings.amount) };
+    case 'delay':
+      return normalizeDelaySettings(settings);
+    case 'reverb':
+      return { ...normalizeReverbSettings(settings), amount: clampAmount(settings.amount) };
+  }
+}
+
+/**
+ * Drop slots of unknown effects and repeated IDs from a saved chain
+ */
+export function normalizeEffectChain(chain: EffectSlot[] | null | undefined): EffectSlot[] {
+  if (!Array.isArray(chain)) return DEFAULT_EFFECT_CHAIN;
+  const ids = new Set<string>();
+  return chain.filter(slot => {
+    if (!slot || !EFFECT_TYPES.some(e => e.type === slot.type) || ids.has(slot.id)) return false;
+    ids.add(slot.id);
+    return true;
+  });
+}
@@ -0,0 +1,88 @@
+/**
+ * Harmonic (additive) waveforms for the oscillator's custom wave type
+ * Amplitudes and phases of the first 64 harmonics are built into a PeriodicWave
+ */
+
+export const HARMONIC_COUNT = 64;
+
+const harmonicRange = (amplitude: (n: number) => number): number[] =>
+  Array.from({ length: HARMONIC_COUNT }, (_, i) => amplitude(i + 1));
+
+// Organ drawbar footages from 8' up, as harmonic numbers
+const DRAWBAR_HARMONICS = [1, 2, 3, 4, 5, 6, 8];
+
+const drawbars = (levels: number[]): number[] =>
+  harmonicRange(n => {
+    const index = DRAWBAR_HARMONICS.indexOf(n);
+    return index >= 0 ? (levels[index] ?? 0) / 8 : 0;
+  });
+
+export const HARMONIC_PRESETS: { id: string; label: string; amplitudes: number[] }[] = [
+  { id: 'sine', label: 'SINE', amplitudes: harmonicRange(n => n === 1 ? 1 : 0) },
+  // Drawbars 8', 4', 2 2/3', 2', 1 3/5', 1 1/3', 1' from 0 to 8
+  { id: 'organ', label: 'ORGAN', amplitudes: drawbars([8, 8, 8, 0, 0, 0, 0]) },
+  { id: 'fullOrgan', label: 'FULL', amplitudes: drawbars([8, 8, 8, 8, 8, 8, 8]) },
+  { id: 'odd', label: 'ODD', amplitudes: harmonicRange(n => n % 2 === 1 ? 1 / n : 0) },
+  { id: 'hollow', label: 'HOLLOW', amplitudes: harmonicRange(n => n % 2 === 1 ? 1 / (n * n) : 0) },
+  { id: 'saw8', label: 'SAW 8', amplitudes: harmonicRange(n => n <= 8 ? 1 / n : 0) },
+  { id: 'saw16', label: 'SAW 16', amplitudes: harmonicRange(n => n <= 16 ? 1 / n : 0) },
+  { id: 'saw64', label: 'SAW 64', amplitudes: harmonicRange(n => 1 / n) }
+];
+
+export const DEFAULT_HARMONIC_AMPLITUDES: number[] = HARMONIC_PRESETS[1].amplitudes;
+
+// Phases in degrees
+export const DEFAULT_HARMONIC_PHASES: number[] = harmonicRange(() => 0);
+
+/**
+ * Build a PeriodicWave from harmonic amplitudes (0 to 1) and phases (degrees)
+ * Index 0 of each array is the fundamental - the wave is normalized, so only relative levels matter
+ * At least HARMONIC_COUNT harmonics are used, more when the arrays are longer
+ */
+export function createHarmonicWave(context: BaseAudioContext, amplitudes: number[], phases: number[]): PeriodicWave {
+  const count = Math.max(HARMONIC_COUNT, amplitudes.length);
+  // Index 0 of the real and imaginary arrays is DC
+  const real = new Float32Array(count + 1);
+  const imag = new Float32Array(count + 1);
+
+  for (let i = 0; i < count; i++) {
+    const amplitude = Math.max(0, Math.min(1, amplitudes[i] ?? 0));
+    const phase = ((phases[i] ?? 0) * Math.PI) / 180;
+    // a * sin(x + phase) = a * cos(phase) * sin(x) + a * sin(phase) * cos(x)
+    imag[i + 1] = amplitude * Math.cos(phase);
+    real[i + 1] = amplitude * Math.sin(phase);
+  }
+
+  return context.createPeriodicWave(real, imag);
+}
+
+// Harmonics used to rebuild the built-in shapes - enough that low notes keep their top end
+const BUILT_IN_HARMONIC_COUNT = 256;
+
+/**
+ * Harmonics of a built-in oscillator shape, as amplitudes and phases (degrees) for createHarmonicWave
+ * Negative Fourier terms are a half-cycle phase turn
+ */
+export function getWaveTypeHarmonics(type: 'sine' | 'square' | 'sawtooth' | 'triangle'): { amplitudes: number[]; phases: number[] } {
+  const terms = Array.from({ length: BUILT_IN_HARMONIC_COUNT }, (_, i) => {
+    const n = i + 1;
+    switch (type) {
+      case 'sine': return n === 1 ? 1 : 0;
+      case 'square': return n % 2 === 1 ? 1 / n : 0;
+      case 'sawtooth': return (n % 2 === 1 ? 1 : -1) / n;
+      case 'triangle': return n % 2 === 1 ? Math.sin((n * Math.PI) / 2) / (n * n) : 0;
+    }
+  });
+  return {
+    amplitudes: terms.map(Math.abs),
+    phases: terms.map(term => term < 0 ? 180 : 0)
+  };
+}
+
+/**
+ * Start a wave part way through its cycle - each harmonic turns by its number times the offset
+ * The offset is a fraction of a cycle, 0 to 1
+ */
+export function rotateHarmonicPhases(phases: number[], offset: number): number[] {
+  return phases.map((phase, i) => phase + (i + 1) * offset * 360);
+}
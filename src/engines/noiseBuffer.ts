@@ -0,0 +1,49 @@
+/**
+ * Noise buffer generation
+ * Looped per voice as the noise source, one buffer per color
+ */
+
+import type { NoiseColor } from './types';
+
+/**
+ * Generate a mono noise buffer of the given color
+ * Pink uses Paul Kellet's filter, brown integrates white noise with leakage
+ */
+export function generateNoiseBuffer(context: BaseAudioContext, color: NoiseColor, duration: number = 2): AudioBuffer {
+  const length = Math.floor(context.sampleRate * duration);
+  const buffer = context.createBuffer(1, length, context.sampleRate);
+  const data = buffer.getChannelData(0);
+
+  switch (color) {
+    case 'pink': {
+      let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+      for (let i = 0; i < length; i++) {
+        const white = Math.random() * 2 - 1;
+        b0 = 0.99886 * b0 + white * 0.0555179;
+        b1 = 0.99332 * b1 + white * 0.0750759;
+        b2 = 0.96900 * b2 + white * 0.1538520;
+        b3 = 0.86650 * b3 + white * 0.3104856;
+        b4 = 0.55000 * b4 + white * 0.5329522;
+        b5 = -0.7616 * b5 - white * 0.0168980;
+        data[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+        b6 = white * 0.115926;
+      }
+      break;
+    }
+    case 'brown': {
+      let last = 0;
+      for (let i = 0; i < length; i++) {
+        const white = Math.random() * 2 - 1;
+        last = (last + 0.02 * white) / 1.02;
+        data[i] = last * 3.5;
+      }
+      break;
+    }
+    default:
+      for (let i = 0; i < length; i++) {
+        data[i] = Math.random() * 2 - 1;
+      }
+  }
+
+  return buffer;
+}
@@ -0,0 +1,87 @@
+/**
+ * Reverb impulse generation and impulse response loading
+ * Shared by the per-instrument reverb insert and the mixer's reverb return bus
+ */
+
+import type { ReverbSettings, SamplerSample } from './types';
+import { encodeBase64 } from './Sampler';
+
+export const DEFAULT_REVERB_SETTINGS: ReverbSettings = {
+  size: 50,
+  decay: 2,
+  preDelay: 0,
+  damping: 30,
+  width: 100
+};
+
+// Longest pre-delay, also the size of the instrument reverb's delay line
+export const MAX_REVERB_PRE_DELAY = 200;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Fill in and clamp reverb settings read from module parameters
+ */
+export function normalizeReverbSettings(parameters: Partial<ReverbSettings> | undefined): ReverbSettings {
+  const settings = { ...DEFAULT_REVERB_SETTINGS, ...parameters };
+  return {
+    size: clamp(settings.size, 0, 100),
+    decay: clamp(settings.decay, 0.1, 10),
+    preDelay: clamp(settings.preDelay, 0, MAX_REVERB_PRE_DELAY),
+    damping: clamp(settings.damping, 0, 100),
+    width: clamp(settings.width, 0, 100)
+  };
+}
+
+/**
+ * Generate a stereo noise impulse that fades by 60 dB over the decay time
+ * Size sets how long the reflections take to build up, damping how much faster the highs fade,
+ * width how different the two channels are - pre-delay is left to a delay in front of the convolver
+ */
+export function generateReverbImpulse(context: BaseAudioContext, options: Partial<ReverbSettings> = {}): AudioBuffer {
+  const { size, decay, damping, width } = normalizeReverbSettings(options);
+  const sampleRate = context.sampleRate;
+  const length = Math.floor(sampleRate * decay * 1.2);
+  const impulse = context.createBuffer(2, length, sampleRate);
+  const left = impulse.getChannelData(0);
+  const right = impulse.getChannelData(1);
+
+  // Bigger rooms take longer for the reflections to build into a dense tail
+  const buildUp = (0.005 + (size / 100) * 0.08) * sampleRate;
+  const spread = width / 100;
+  let lowLeft = 0;
+  let lowRight = 0;
+
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const envelope = Math.exp(-6.9 * t / decay) * Math.min(1, i / buildUp);
+
+    // One-pole lowpass that closes as the tail goes on
+    const smoothing = Math.min(0.95, (damping / 100) * (t / decay) * 2);
+    const shared = Math.random() * 2 - 1;
+    const leftNoise = Math.random() * 2 - 1;
+    const rightNoise = Math.random() * 2 - 1;
+    lowLeft = lowLeft * smoothing + (shared * (1 - spread) + leftNoise * spread) * (1 - smoothing);
+    lowRight = lowRight * smoothing + (shared * (1 - spread) + rightNoise * spread) * (1 - smoothing);
+
+    left[i] = lowLeft * envelope;
+    right[i] = lowRight * envelope;
+  }
+
+  return impulse;
+}
+
+/**
+ * Turn a loaded impulse response file into a sample that can be saved with the instrument
+ */
+export async function createImpulseResponse(file: File): Promise<SamplerSample> {
+  const data = await file.arrayBuffer();
+  // Decode once up front so unreadable files are rejected here rather than in the engine
+  await new OfflineAudioContext(1, 1, 44100).decodeAudioData(data.slice(0));
+
+  return {
+    id: `ir_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    name: file.name.replace(/\.[^.]+$/, ''),
+    data: encodeBase64(data)
+  };
+}
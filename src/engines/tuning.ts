@@ -0,0 +1,190 @@
+/**
+ * Tunings - Built-in temperaments and Scala (.scl/.kbm) scales and keyboard maps
+ * Every MIDI note to frequency conversion goes through a tuning, 12-TET at A4 = 440 Hz by default
+ */
+
+import type { Tuning, KeyboardMap } from './types';
+
+const ratioCents = (ratio: number): number => 1200 * Math.log2(ratio);
+
+// Equal divisions of the octave
+const equalSteps = (divisions: number): number[] =>
+  Array.from({ length: divisions }, (_, i) => (1200 * (i + 1)) / divisions);
+
+const builtIn = (id: string, name: string, label: string, scale: number[]): { label: string; tuning: Tuning } => ({
+  label,
+  tuning: {
+    id,
+    name,
+    scale,
+    keyboardMap: null,
+    referenceNote: 69,
+    referenceFrequency: 440
+  }
+});
+
+export const BUILT_IN_TUNINGS: { label: string; tuning: Tuning }[] = [
+  builtIn('12tet', '12-TET', '12-TET', equalSteps(12)),
+  // 5-limit just intonation on C
+  builtIn('just', 'Just', 'JUST', [16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8, 2].map(ratioCents)),
+  // Pure fifths from Eb to G#
+  builtIn('pythagorean', 'Pythagorean', 'PYTH', [256 / 243, 9 / 8, 32 / 27, 81 / 64, 4 / 3, 729 / 512, 3 / 2, 128 / 81, 27 / 16, 16 / 9, 243 / 128, 2].map(ratioCents)),
+  // Quarter-comma meantone - fifths narrowed so major thirds are pure
+  builtIn('meantone', 'Meantone', 'MEAN', [76.049, 193.157, 310.265, 386.314, 503.422, 579.471, 696.578, 772.627, 889.735, 1006.843, 1082.892, 1200]),
+  builtIn('19edo', '19-EDO', '19-EDO', equalSteps(19)),
+  builtIn('31edo', '31-EDO', '31-EDO', equalSteps(31))
+];
+
+export const DEFAULT_TUNING: Tuning = BUILT_IN_TUNINGS[0].tuning;
+
+// Degree 0 sits on middle C when there's no keyboard map
+const DEFAULT_MIDDLE_NOTE = 60;
+
+/**
+ * Lines of a Scala file with comments and blank lines removed
+ */
+function scalaLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .filter(line => !line.trimStart().startsWith('!'))
+    .map(line => line.trim());
+}
+
+/**
+ * Cents of one .scl pitch line - values with a period are cents, others ratios such as 3/2 or 2
+ */
+function parsePitch(line: string): number {
+  const value = line.split(/\s+/)[0];
+  if (value.includes('.')) {
+    const cents = parseFloat(value);
+    if (isNaN(cents)) throw new Error(`Invalid pitch "${line}"`);
+    return cents;
+  }
+
+  const [numerator, denominator = '1'] = value.split('/');
+  const ratio = parseInt(numerator, 10) / parseInt(denominator, 10);
+  if (!(ratio > 0)) throw new Error(`Invalid pitch "${line}"`);
+  return ratioCents(ratio);
+}
+
+/**
+ * Read a Scala .scl scale - the tuning keeps the current reference and drops any keyboard map
+ */
+export function parseScala(text: string, fileName: string, current: Tuning = DEFAULT_TUNING): Tuning {
+  // The description line may be empty, so only drop comments before counting lines
+  const [description = '', ...rest] = scalaLines(text);
+  const [countLine = '', ...pitchLines] = rest.filter(line => line !== '');
+  const count = parseInt(countLine, 10);
+  if (!(count > 0)) throw new Error('Missing note count');
+  if (pitchLines.length < count) throw new Error(`Expected ${count} pitches, found ${pitchLines.length}`);
+
+  return {
+    id: 'scala',
+    name: description || fileName.replace(/\.[^.]+$/, ''),
+    scale: pitchLines.slice(0, count).map(parsePitch),
+    keyboardMap: null,
+    referenceNote: current.referenceNote,
+    referenceFrequency: current.referenceFrequency
+  };
+}
+
+/**
+ * Read a Scala .kbm keyboard map onto a tuning - the map also sets the reference note and frequency
+ */
+export function parseKeyboardMap(text: string, fileName: string, tuning: Tuning): Tuning {
+  const lines = scalaLines(text).filter(line => line !== '');
+  const values = lines.map(line => line.split(/\s+/)[0]);
+  if (values.length < 7) throw new Error('Missing keyboard map header');
+
+  const [size, firstNote, lastNote, middleNote, referenceNote] = values.slice(0, 5).map(v => parseInt(v, 10));
+  const referenceFrequency = parseFloat(values[5]);
+  const octaveDegree = parseInt(values[6], 10);
+  if ([size, firstNote, lastNote, middleNote, referenceNote, octaveDegree].some(isNaN) || !(referenceFrequency > 0)) {
+    throw new Error('Invalid keyboard map header');
+  }
+
+  // Keys past the listed entries are left silent
+  const mapping = Array.from({ length: size }, (_, i) => {
+    const value = values[7 + i];
+    if (value === undefined || value.toLowerCase() === 'x') return null;
+    const degree = parseInt(value, 10);
+    return isNaN(degree) ? null : degree;
+  });
+
+  const keyboardMap: KeyboardMap = {
+    name: fileName.replace(/\.[^.]+$/, ''),
+    size,
+    firstNote,
+    lastNote,
+    middleNote,
+    octaveDegree,
+    mapping
+  };
+
+  return { ...tuning, keyboardMap, referenceNote, referenceFrequency };
+}
+
+/**
+ * Scale degree a key plays, counted from the middle note - null for keys the map leaves silent
+ */
+function noteDegree(tuning: Tuning, note: number): number | null {
+  const map = tuning.keyboardMap;
+  if (!map) return note - DEFAULT_MIDDLE_NOTE;
+  if (note < map.firstNote || note > map.lastNote) return null;
+  if (map.size === 0) return note - map.middleNote;
+
+  const offset = note - map.middleNote;
+  const repeat = Math.floor(offset / map.size);
+  const degree = map.mapping[offset - repeat * map.size];
+  return degree === null || degree === undefined ? null : repeat * map.octaveDegree + degree;
+}
+
+/**
+ * Cents of a scale degree above degree 0, repeating the scale every period
+ */
+function degreeCents(scale: number[], degree: number): number {
+  const period = scale[scale.length - 1];
+  const repeat = Math.floor(degree / scale.length);
+  const step = degree - repeat * scale.length;
+  return repeat * period + (step === 0 ? 0 : scale[step - 1]);
+}
+
+/**
+ * Frequency a MIDI note plays in a tuning - null for keys the keyboard map leaves silent
+ */
+export function noteToFrequency(tuning: Tuning, note: number): number | null {
+  const degree = noteDegree(tuning, note);
+  if (degree === null) return null;
+
+  // An unmapped reference key still anchors the scale where a linear mapping would put it
+  const referenceDegree = noteDegree(tuning, tuning.referenceNote)
+    ?? tuning.referenceNote - (tuning.keyboardMap?.middleNote ?? DEFAULT_MIDDLE_NOTE);
+  const cents = degreeCents(tuning.scale, degree) - degreeCents(tuning.scale, referenceDegree);
+  return tuning.referenceFrequency * Math.pow(2, cents / 1200);
+}
+
+// Frequencies of every MIDI note, built once per tuning for reverse lookups
+const noteTables: WeakMap<Tuning, (number | null)[]> = new WeakMap();
+
+/**
+ * MIDI note whose tuned frequency is closest to a frequency
+ */
+export function frequencyToNote(tuning: Tuning, frequency: number): number {
+  let table = noteTables.get(tuning);
+  if (!table) {
+    table = Array.from({ length: 128 }, (_, note) => noteToFrequency(tuning, note));
+    noteTables.set(tuning, table);
+  }
+
+  let nearest = 69;
+  let nearestDistance = Infinity;
+  table.forEach((noteFrequency, note) => {
+    if (noteFrequency === null) return;
+    const distance = Math.abs(Math.log2(frequency / noteFrequency));
+    if (distance < nearestDistance) {
+      nearest = note;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
@@ -1,46 +1,363 @@
 // Type definitions for audio engine
 
+import type { StereoDelay } from './StereoDelay';
+import type { Distortion } from './Distortion';
+import type { ParametricEQ } from './ParametricEQ';
+
+// How velocity maps to its destinations - soft reaches full level sooner, hard needs firmer playing
+export type VelocityCurve = 'linear' | 'soft' | 'hard';
+
+// Poly plays every note, mono and legato play one note at a time
+export type VoiceMode = 'poly' | 'mono' | 'legato';
+
+// Which held note sounds in mono and legato modes
+export type NotePriority = 'last' | 'low' | 'high';
+
+// Glide on every note, or only between overlapping notes
+export type GlideMode = 'always' | 'legato';
+
+// Which voice a new note takes when the polyphony limit is reached
+export type VoiceStealing = 'oldest' | 'quietest' | 'sameNote' | 'released';
+
+export interface MonoNote {
+  noteKey: string | number;
+  frequency: number;
+  velocity: number;
+}
+
+// A wavetable - single-cycle frames swept through by the position param
+// Frames are plain arrays so user tables can be stored in instrument configs
+export interface Wavetable {
+  id: string;
+  name: string;
+  frames: number[][];
+}
+
+// A voice's sound source - an OscillatorNode or a worklet-backed oscillator with the same surface
+export interface VoiceOscillator {
+  frequency: AudioParam;
+  detune: AudioParam;
+  // Wavetable frame, 0 to 1
+  position?: AudioParam;
+  start(when?: number): void;
+  stop(when?: number): void;
+  // Per-source envelopes - restarted on mono retriggers and released with the note
+  noteOn?(when: number): void;
+  noteOff?(when: number): void;
+  connect(destination: AudioNode): AudioNode;
+  disconnect(): void;
+}
+
+// How FM operators modulate each other - see FM_ALGORITHMS
+export type FMAlgorithm = 'stack' | 'pairs' | 'branch' | 'fan' | 'additive';
+
+export interface FMOperator {
+  ratio: number; // Multiple of the note frequency
+  fine: number; // cents
+  level: number; // 0 to 1 - output level for carriers, modulation index for modulators
+  attack: number; // ms
+  decay: number; // ms
+  sustain: number; // 0 to 1
+  release: number; // ms
+}
+
+// FM module settings, stored as the module's parameters
+export interface FMSettings {
+  operatorCount: number; // 2 to 4
+  algorithm: FMAlgorithm;
+  operators: FMOperator[]; // Always 4, operators past the count are ignored
+}
+
+// An audio file loaded into the sampler, kept encoded so it can be saved with the instrument
+export interface SamplerSample {
+  id: string;
+  name: string;
+  data: string; // base64 of the original file
+}
+
+// Key and velocity range that plays a sample, repitched from its root note
+export interface SampleZone {
+  id: string;
+  sampleId: string;
+  rootNote: number; // MIDI note the sample was recorded at
+  lowNote: number;
+  highNote: number;
+  lowVelocity: number; // 1-127
+  highVelocity: number;
+  loop: boolean;
+  loopStart: number; // 0 to 1 of the sample length
+  loopEnd: number;
+}
+
+export interface SamplerConfig {
+  samples: SamplerSample[];
+  zones: SampleZone[];
+  // Cycle through zones that share a key and velocity instead of always playing the first
+  roundRobin: boolean;
+}
+
+// Grain envelope - HANN is smooth, TRAPEZOID is flat with short edges, PERC has a fast attack and decays
+export type GrainShape = 'hann' | 'triangle' | 'trapezoid' | 'perc';
+
+export interface GranularSettings {
+  position: number; // 0 to 1 of the source buffer
+  spray: number; // ms of random offset around the position
+  grainSize: number; // ms
+  density: number; // grains per second
+  pitch: number; // semitones, on top of the played note relative to C4
+  shape: GrainShape;
+}
+
+export type NoiseColor = 'white' | 'pink' | 'brown';
+
+// LFO shapes - the oscillator shapes plus stepped random, smoothed random and a drawn shape
+export type LFOShape = 'sine' | 'triangle' | 'square' | 'sawtooth' | 'sampleHold' | 'randomSmooth' | 'custom';
+
+// Tempo-synced LFO cycle length
+export type NoteDivision = '1/1' | '1/2' | '1/4' | '1/8' | '1/16' | '1/32';
+export type DivisionModifier = 'straight' | 'dotted' | 'triplet';
+
+// Arpeggiator note order - PLAYED keeps the order keys went down in
+export type ArpMode = 'up' | 'down' | 'upDown' | 'random' | 'played';
+
+export interface ArpSettings {
+  mode: ArpMode;
+  octaves: number; // 1 to 4
+  division: NoteDivision;
+  modifier: DivisionModifier;
+  gate: number; // 10 to 100, percent of a step
+  swing: number; // 0 to 75, percent of a step every second step is delayed by
+  latch: boolean; // Keep playing released notes until the next chord
+}
+
+// Reverb module settings, stored as the module's parameters - the wet level is reverbAmount
+export interface ReverbSettings {
+  size: number; // 0 to 100, how long the reflections take to build up
+  decay: number; // Seconds for the tail to fade by 60 dB
+  preDelay: number; // Milliseconds before the reverb starts
+  damping: number; // 0 to 100, how much faster high frequencies fade
+  width: number; // 0 to 100, from mono to fully decorrelated channels
+}
+
+// STEREO echoes each channel on its own, PING-PONG bounces a mono echo between the sides
+export type DelayMode = 'stereo' | 'pingPong';
+
+// Delay module settings, stored as the module's parameters
+export interface DelaySettings {
+  mode: DelayMode;
+  sync: boolean; // Time follows the tempo as a note division
+  division: NoteDivision;
+  modifier: DivisionModifier;
+  time: number; // ms, used when not synced
+  feedback: number; // 0 to 95, percent of each echo fed back
+  mix: number; // 0 to 100, wet level
+  lowCut: number; // Hz, highpass in the feedback path
+  highCut: number; // Hz, lowpass in the feedback path
+}
+
+// Waveshaping algorithm - BITCRUSH reduces bit depth and sample rate instead of shaping
+export type DistortionMode = 'soft' | 'tube' | 'hard' | 'foldback' | 'asymmetric' | 'bitcrush';
+
+// Distortion module settings, stored as the module's parameters - the drive is distortionAmount
+export interface DistortionSettings {
+  mode: DistortionMode;
+  tone: number; // Hz, lowpass cutoff
+  tonePosition: 'pre' | 'post'; // Filter before or after the shaper
+  mix: number; // 0 to 100, wet level
+  oversample: OverSampleType;
+  bits: number; // 1 to 16, bitcrush depth
+  downsample: number; // 1 to 32, bitcrush samples held
+}
+
+// Compressor module settings, stored as the module's parameters
+export interface CompressorSettings {
+  threshold: number; // dB level compression starts at, -60 to 0
+  ratio: number; // 1 to 20
+  knee: number; // dB range over which compression eases in, 0 to 40
+  attack: number; // ms, 0 to 1000
+  release: number; // ms, 10 to 1000
+  makeup: number; // dB of gain after compression, 0 to 24
+}
+
+// Filter type of each parametric EQ band
+export type EQBandType = 'highpass' | 'lowshelf' | 'peaking' | 'highshelf' | 'lowpass';
+
+export interface EQBand {
+  type: EQBandType;
+  enabled: boolean;
+  frequency: number; // Hz
+  gain: number; // dB, -24 to 24 - unused by the pass filters
+  q: number;
+}
+
+// Parametric EQ settings - the instrument EQ module's parameters, or the master bus EQ
+export interface EQSettings {
+  bands: EQBand[]; // Always the EQ_BANDS layout, lowest first
+}
+
+// Scala keyboard mapping - which scale degree each MIDI key plays
+export interface KeyboardMap {
+  name: string;
+  size: number; // Keys in one repeat of the mapping, 0 for a linear mapping
+  firstNote: number;
+  lastNote: number;
+  middleNote: number; // Key that plays degree 0
+  octaveDegree: number; // Scale degree the mapping repeats at
+  mapping: (number | null)[]; // Degree per key from the middle note, null for keys left silent
+}
+
+export interface Tuning {
+  id: string; // Built-in temperament ID, or 'scala' for imported scales
+  name: string;
+  scale: number[]; // Cents of degrees 1 to N - the last is the period, usually 1200
+  keyboardMap: KeyboardMap | null;
+  referenceNote: number; // MIDI key tuned to the reference frequency
+  referenceFrequency: number;
+}
+
+// Everything that shapes an LFO's cycle and timing
+export interface LFOTiming {
+  shape: LFOShape;
+  rate: number; // Hz, used when not synced
+  sync: boolean;
+  division: NoteDivision;
+  modifier: DivisionModifier;
+  retrigger: boolean; // Restart the cycle on every note instead of running freely
+  customShape: number[]; // -1 to 1 points drawn across one cycle
+}
+
+// Parameters the modulation matrix can drive
+// Voice destinations are per note, effect destinations are shared by the instrument
+export type ModDestination =
+  | 'cutoff'
+  | 'resonance'
+  | 'pitch'
+  | 'amplitude'
+  | 'pan'
+  | 'unisonDetune'
+  | 'wavetablePosition'
+  | 'noise'
+  | 'chorus'
+  | 'delay'
+  | 'reverb';
+
+export interface ModLFO extends LFOTiming {
+  id: string;
+}
+
+export interface ModEnvelope {
+  id: string;
+  attack: number; // ms
+  decay: number; // ms
+  sustain: number; // 0 to 1
+  release: number; // ms
+}
+
+export interface ModSlot {
+  id: string;
+  source: string; // LFO or envelope ID
+  destination: ModDestination;
+  depth: number; // -100 to 100, percent of the destination's range
+  bipolar: boolean; // Source swings -1 to 1 instead of 0 to 1
+}
+
+export interface ModMatrix {
+  lfos: ModLFO[];
+  envelopes: ModEnvelope[];
+  slots: ModSlot[];
+}
+
+// An AudioParam a destination drives, scaled per param (e.g. unison spread)
+export interface ModTarget {
+  param: AudioParam;
+  scale: number;
+}
+
+export type ModTargets = Partial<Record<ModDestination, ModTarget[]>>;
+
+// Depth gain between a source and one target param
+export interface ModConnection {
+  source: AudioNode;
+  gain: GainNode;
+}
+
+// Modulation state of one playing note
+export interface VoiceModulation {
+  targets: ModTargets;
+  // Per-note envelope sources keyed by envelope ID and polarity
+  envelopes: Map<string, ConstantSourceNode>;
+  // Slot routing, rebuilt when the matrix changes
+  connections: ModConnection[];
+}
+
 export interface Voice {
-  oscillator: OscillatorNode | null;
+  // One oscillator per unison voice, each with its own stereo position
+  oscillators: VoiceOscillator[];
+  panners: StereoPannerNode[];
+  unisonGain: GainNode | null;
+  // Looped noise buffer blended with the oscillators before the envelope
+  noiseSource: AudioBufferSourceNode | null;
+  noiseGain: GainNode | null;
+  // Per-voice filter - cutoff is key tracked, the filter envelope runs on its detune
+  filter: BiquadFilterNode | null;
   envelope: GainNode | null;
+  // Post-envelope gain and pan, modulated by the matrix
+  modGain: GainNode | null;
+  modPanner: StereoPannerNode | null;
+  modulation: VoiceModulation | null;
   isActive: boolean;
   noteKey: string | number;
   frequency: number;
+  // MIDI velocity the note was played with, 0-127
+  velocity: number;
   startTime: number;
+  // When the note was released, null while it's held
+  releasedAt: number | null;
 }
 
+// Effects that can go in an instrument's chain
+export type EffectType = 'distortion' | 'eq' | 'compressor' | 'chorus' | 'delay' | 'reverb';
+
+// One place in an instrument's effect chain
+export interface EffectSlot {
+  id: string;
+  type: EffectType;
+  // Settings of this slot alone - unset, it follows the effect's module and knobs
+  settings?: Record<string, any>;
+}
+
+// The nodes playing one effect slot
 export interface EffectNode {
+  type: EffectType;
   node: AudioNode;
-  bypassGain?: GainNode;
-  inputGain?: GainNode;
-  mixer?: GainNode;
+  // Splits into the effect and bypass paths, which meet again at the mixer
+  input: GainNode;
+  inputGain: GainNode;
+  bypassGain: GainNode;
+  mixer: GainNode;
   active: boolean;
+  // The slot's own settings - unset, the effect follows its module and knobs
+  settings?: Record<string, any>;
+  // Where the effect comes out, when it isn't the node itself (delay echoes, compressor makeup gain)
+  output?: AudioNode;
+  // Distortion-specific
+  distortion?: Distortion;
   // Chorus-specific
   lfo?: OscillatorNode;
   lfoGain?: GainNode;
   delayGain?: GainNode;
   dryGain?: GainNode;
   // Delay-specific
-  feedback?: GainNode;
+  stereoDelay?: StereoDelay;
   wetGain?: GainNode;
   // Reverb-specific
+  preDelay?: DelayNode;
+  reverbImpulse?: AudioBuffer; // Room generated from the slot's own settings
+  // EQ-specific
+  parametricEQ?: ParametricEQ;
 }
 
-export interface Effects {
-  distortion: EffectNode | null;
-  compressor: EffectNode | null;
-  chorus: EffectNode | null;
-  delay: EffectNode | null;
-  reverb: EffectNode | null;
-}
-
-export interface EffectBypassed {
-  distortion: boolean;
-  compressor: boolean;
-  chorus: boolean;
-  delay: boolean;
-  reverb: boolean;
-}
+export type EffectBypassed = Record<EffectType, boolean>;
 
 export interface AudioEngineParams {
   waveType: OscillatorType;
@@ -57,16 +374,42 @@ export interface AudioEngineParams {
   reverbAmount: number;
   lfoRate: number;
   lfoDepth: number;
-  lfoWaveType: OscillatorType;
+  lfoWaveType: LFOShape;
   lfoTarget: 'cutoff' | 'amplitude' | 'pitch';
+  lfoSync: boolean;
+  lfoDivision: NoteDivision;
+  lfoDivisionModifier: DivisionModifier;
+  lfoRetrigger: boolean;
+  lfoCustomShape: number[];
   unisonMode: boolean;
   unisonVoices: number;
   unisonDetune: number;
+  unisonWidth: number;
+  unisonRandomPhase: boolean;
   masterDetune: number;
   noiseAmount: number;
+  noiseColor: NoiseColor;
   filterEnvAttack: number;
   filterEnvDecay: number;
   filterEnvAmount: number;
+  filterEnvSustain: number;
+  filterEnvRelease: number;
+  filterEnvVelocity: number;
+  filterKeyTracking: number;
+  velocityCurve: VelocityCurve;
+  velocityToAmp: number;
+  velocityToCutoff: number;
+  velocityToAttack: number;
+  voiceMode: VoiceMode;
+  notePriority: NotePriority;
+  glideTime: number;
+  glideMode: GlideMode;
+  polyphony: number;
+  voiceStealing: VoiceStealing;
+  wavetable: string;
+  wavetablePosition: number;
+  harmonicAmplitudes: number[]; // 0 to 1 per harmonic, fundamental first
+  harmonicPhases: number[]; // degrees per harmonic
 }
 
 export interface ActiveFrequency {
@@ -74,3 +417,45 @@ export interface ActiveFrequency {
   amplitude: number;
 }
 
+
+// Shape of a ducked track's recovery - EXP comes back quickly at first, LOG stays down longer
+export type SidechainCurve = 'linear' | 'exponential' | 'logarithmic';
+
+// Ducking of a track, keyed from a drum sound ('drum:kick') or another track's notes ('track:<id>')
+export interface SidechainSettings {
+  source: string | null;
+  depth: number; // 0 to 100, percent of the level taken away on each hit
+  attack: number; // ms to reach full reduction
+  release: number; // ms to recover
+  curve: SidechainCurve;
+}
+
+export interface ChannelStrip {
+  input: GainNode;
+  // Sidechain ducking, between the input and the fader
+  duck: GainNode;
+  // Ramp points scheduled on the duck gain, for reading its level partway through a ramp
+  duckRamp: { time: number; value: number }[];
+  fader: GainNode;
+  panner: StereoPannerNode;
+  // Post-fader send gain per return bus ID
+  sends: Map<string, GainNode>;
+}
+
+export interface ReturnBus {
+  id: string;
+  name: string;
+  input: GainNode;
+  output: GainNode;
+  // Reverb-specific
+  convolver?: ConvolverNode;
+  preDelay?: DelayNode;
+  // Delay-specific
+  stereoDelay?: StereoDelay;
+}
+
+// Settings of the mixer's shared return buses, saved with the project
+export interface ReturnSettings {
+  reverb: ReverbSettings;
+  delay: DelaySettings; // mix is unused - each track's send sets how much it echoes
+}
@@ -0,0 +1,186 @@
+/**
+ * Wavetables for the wavetable oscillator
+ * Built-in tables are rendered additively so they stay band-limited, user tables come from WAV files
+ */
+
+import type { Wavetable } from './types';
+
+// Samples per frame (one single cycle)
+export const WAVETABLE_SIZE = 2048;
+
+// Most frames kept from an imported file
+export const MAX_WAVETABLE_FRAMES = 64;
+
+const HARMONICS = 64;
+
+export const BUILT_IN_WAVETABLES: { id: string; name: string }[] = [
+  { id: 'basic', name: 'BASIC' },
+  { id: 'pulse', name: 'PULSE' },
+  { id: 'bright', name: 'BRIGHT' },
+  { id: 'vowel', name: 'VOWEL' }
+];
+
+// Rendered built-in tables, shared by every engine
+const builtInCache = new Map<string, Float32Array[]>();
+
+/**
+ * Render one frame from harmonic amplitudes (index 0 is the fundamental), normalized to peak 1
+ */
+function renderHarmonics(amplitudes: number[]): Float32Array {
+  const frame = new Float32Array(WAVETABLE_SIZE);
+  amplitudes.forEach((amplitude, index) => {
+    if (amplitude === 0) return;
+    const harmonic = index + 1;
+    for (let i = 0; i < WAVETABLE_SIZE; i++) {
+      frame[i] += amplitude * Math.sin((2 * Math.PI * harmonic * i) / WAVETABLE_SIZE);
+    }
+  });
+  return normalizeFrame(frame);
+}
+
+function normalizeFrame(frame: Float32Array): Float32Array {
+  let peak = 0;
+  for (let i = 0; i < frame.length; i++) {
+    peak = Math.max(peak, Math.abs(frame[i]));
+  }
+  if (peak > 0) {
+    for (let i = 0; i < frame.length; i++) {
+      frame[i] /= peak;
+    }
+  }
+  return frame;
+}
+
+const harmonicRange = (count: number, amplitude: (n: number) => number): number[] =>
+  Array.from({ length: count }, (_, i) => amplitude(i + 1));
+
+/**
+ * Harmonic amplitudes for each frame of a built-in table
+ */
+function getBuiltInHarmonics(id: string): number[][] {
+  switch (id) {
+    case 'pulse':
+      // Pulse width from 50% down to 5%
+      return Array.from({ length: 8 }, (_, frame) => {
+        const width = 0.5 - (frame / 7) * 0.45;
+        return harmonicRange(HARMONICS, n => Math.sin(Math.PI * n * width) / n);
+      });
+    case 'bright':
+      // Saw opening up from the fundamental alone to all 64 harmonics
+      return [1, 2, 4, 8, 16, 32, 64].map(count =>
+        harmonicRange(HARMONICS, n => n <= count ? 1 / n : 0)
+      );
+    case 'vowel': {
+      // Formant peaks for A, E, I, O, U at a 110Hz fundamental
+      const formants = [[800, 1150], [400, 1600], [350, 2300], [450, 800], [325, 700]];
+      return formants.map(([f1, f2]) =>
+        harmonicRange(HARMONICS, n => {
+          const frequency = n * 110;
+          const peak = (center: number) => Math.exp(-Math.pow((frequency - center) / 120, 2));
+          return (peak(f1) + 0.6 * peak(f2) + 0.02) / Math.sqrt(n);
+        })
+      );
+    }
+    default:
+      // Sine, triangle, saw, square
+      return [
+        harmonicRange(HARMONICS, n => n === 1 ? 1 : 0),
+        harmonicRange(HARMONICS, n => n % 2 === 1 ? (((n - 1) / 2) % 2 === 0 ? 1 : -1) / (n * n) : 0),
+        harmonicRange(HARMONICS, n => 1 / n),
+        harmonicRange(HARMONICS, n => n % 2 === 1 ? 1 / n : 0)
+      ];
+  }
+}
+
+/**
+ * Frames of a built-in table, rendered on first use
+ */
+export function getBuiltInWavetable(id: string): Float32Array[] {
+  const known = BUILT_IN_WAVETABLES.some(table => table.id === id) ? id : 'basic';
+  let frames = builtInCache.get(known);
+  if (!frames) {
+    frames = getBuiltInHarmonics(known).map(renderHarmonics);
+    builtInCache.set(known, frames);
+  }
+  return frames;
+}
+
+/**
+ * Resample a single cycle to the table size, with DC removed and peak normalized
+ */
+function resampleCycle(samples: Float32Array): Float32Array {
+  const frame = new Float32Array(WAVETABLE_SIZE);
+  const ratio = samples.length / WAVETABLE_SIZE;
+  let mean = 0;
+
+  for (let i = 0; i < WAVETABLE_SIZE; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = samples[(index + 1) % samples.length];
+    frame[i] = samples[index] + (next - samples[index]) * (position - index);
+    mean += frame[i];
+  }
+
+  mean /= WAVETABLE_SIZE;
+  for (let i = 0; i < WAVETABLE_SIZE; i++) {
+    frame[i] -= mean;
+  }
+  return normalizeFrame(frame);
+}
+
+/**
+ * Sample rate from a WAV file's fmt chunk, so decoding doesn't resample and change the frame length
+ */
+function readWavSampleRate(data: ArrayBuffer): number | null {
+  const view = new DataView(data);
+  if (data.byteLength < 12 || view.getUint32(0, false) !== 0x52494646) return null; // 'RIFF'
+
+  let offset = 12;
+  while (offset + 8 <= data.byteLength) {
+    const chunkId = view.getUint32(offset, false);
+    const chunkSize = view.getUint32(offset + 4, true);
+    if (chunkId === 0x666d7420 && offset + 16 <= data.byteLength) { // 'fmt '
+      return view.getUint32(offset + 12, true);
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return null;
+}
+
+/**
+ * Build a wavetable from WAV files
+ * Each file is one single cycle, unless its length is a multiple of the table size,
+ * in which case it's read as a run of frames. Files become frames in the order given
+ */
+export async function decodeWavetableFiles(files: File[]): Promise<Wavetable> {
+  const frames: number[][] = [];
+
+  for (const file of files) {
+    const data = await file.arrayBuffer();
+    const sampleRate = Math.max(3000, Math.min(768000, readWavSampleRate(data) ?? 44100));
+    const context = new OfflineAudioContext(1, 1, sampleRate);
+    const audio = await context.decodeAudioData(data);
+    const samples = audio.getChannelData(0);
+
+    const cycles = samples.length > WAVETABLE_SIZE && samples.length % WAVETABLE_SIZE === 0
+      ? samples.length / WAVETABLE_SIZE
+      : 1;
+    const cycleLength = samples.length / cycles;
+
+    for (let cycle = 0; cycle < cycles && frames.length < MAX_WAVETABLE_FRAMES; cycle++) {
+      const cycleSamples = samples.subarray(cycle * cycleLength, (cycle + 1) * cycleLength);
+      frames.push(Array.from(resampleCycle(cycleSamples)));
+    }
+  }
+
+  if (frames.length === 0) {
+    throw new Error('No audio found in the selected files');
+  }
+
+  const baseName = files[0].name.replace(/\.[^.]+$/, '');
+  return {
+    id: `user-${Date.now()}`,
+    name: files.length > 1 ? `${baseName} +${files.length - 1}` : baseName,
+    frames
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Bitcrush processor - runs on the audio thread
+ * Holds each sample for a number of samples to lower the sample rate, then rounds it to a bit depth
+ */
+
+// AudioWorkletGlobalScope globals - not part of the DOM typings
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+
+class BitcrushProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'bits', defaultValue: 16, minValue: 1, maxValue: 16, automationRate: 'k-rate' },
+      { name: 'downsample', defaultValue: 1, minValue: 1, maxValue: 32, automationRate: 'k-rate' }
+    ];
+  }
+
+  // Per channel sample being held and how many more samples to hold it for
+  private held: number[] = [];
+  private remaining: number[] = [];
+  // Set once the owning distortion is disposed, so the processor can be collected
+  private stopped: boolean = false;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    this.port.onmessage = () => {
+      this.stopped = true;
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean {
+    if (this.stopped) return false;
+
+    const input = inputs[0];
+    const output = outputs[0];
+    const levels = Math.pow(2, Math.round(parameters.bits[0]) - 1);
+    const downsample = Math.max(1, Math.round(parameters.downsample[0]));
+
+    for (let channel = 0; channel < output.length; channel++) {
+      const source = input[channel];
+      const target = output[channel];
+      if (!source) {
+        target.fill(0);
+        continue;
+      }
+
+      let held = this.held[channel] ?? 0;
+      let remaining = this.remaining[channel] ?? 0;
+      for (let i = 0; i < target.length; i++) {
+        if (remaining <= 0) {
+          held = Math.round(source[i] * levels) / levels;
+          remaining = downsample;
+        }
+        target[i] = held;
+        remaining--;
+      }
+      this.held[channel] = held;
+      this.remaining[channel] = remaining;
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('bitcrush', BitcrushProcessor);
+
+// Keeps the declarations above local to this file rather than clashing with the other worklets
+export {};
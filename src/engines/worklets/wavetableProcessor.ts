@@ -0,0 +1,106 @@
+/**
+ * Wavetable oscillator processor - runs on the audio thread
+ * Reads a single cycle from a table of frames, crossfading between neighbouring frames by position
+ */
+
+// AudioWorkletGlobalScope globals - not part of the DOM typings
+declare const sampleRate: number;
+declare const currentTime: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+
+interface WavetableProcessorOptions {
+  tableId: string;
+  // Only sent the first time a table is used in this context
+  frames?: Float32Array[];
+  // Where in the cycle to start, 0 to 1
+  phase?: number;
+}
+
+type WavetableMessage =
+  | { type: 'start'; time: number }
+  | { type: 'stop'; time: number };
+
+// Tables shared by every wavetable voice in this audio context
+const tables = new Map<string, Float32Array[]>();
+
+class WavetableProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'frequency', defaultValue: 440, minValue: 0, maxValue: 20000, automationRate: 'a-rate' },
+      { name: 'detune', defaultValue: 0, automationRate: 'a-rate' },
+      { name: 'position', defaultValue: 0, minValue: 0, maxValue: 1, automationRate: 'a-rate' }
+    ];
+  }
+
+  private tableId: string;
+  private phase: number = 0;
+  private startTime: number = Infinity;
+  private stopTime: number = Infinity;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const processorOptions = options.processorOptions as WavetableProcessorOptions;
+    this.tableId = processorOptions.tableId;
+    this.phase = processorOptions.phase ?? 0;
+    if (processorOptions.frames) {
+      tables.set(this.tableId, processorOptions.frames);
+    }
+
+    this.port.onmessage = (event: MessageEvent<WavetableMessage>) => {
+      if (event.data.type === 'start') {
+        this.startTime = event.data.time;
+      } else {
+        this.stopTime = Math.min(this.stopTime, event.data.time);
+      }
+    };
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean {
+    const output = outputs[0][0];
+    if (currentTime >= this.stopTime) return false;
+
+    const frames = tables.get(this.tableId);
+    if (!output || !frames || frames.length === 0) return true;
+
+    const frequency = parameters.frequency;
+    const detune = parameters.detune;
+    const position = parameters.position;
+    const size = frames[0].length;
+    const lastFrame = frames.length - 1;
+
+    for (let i = 0; i < output.length; i++) {
+      const time = currentTime + i / sampleRate;
+      if (time < this.startTime || time >= this.stopTime) continue;
+
+      // Crossfade between the two frames either side of the position
+      const framePosition = Math.max(0, Math.min(1, position.length > 1 ? position[i] : position[0])) * lastFrame;
+      const frameIndex = Math.floor(framePosition);
+      const nextFrameIndex = Math.min(frameIndex + 1, lastFrame);
+      const frameMix = framePosition - frameIndex;
+
+      const samplePosition = this.phase * size;
+      const sampleIndex = Math.floor(samplePosition);
+      const nextSampleIndex = (sampleIndex + 1) % size;
+      const sampleMix = samplePosition - sampleIndex;
+
+      const frame = frames[frameIndex];
+      const nextFrame = frames[nextFrameIndex];
+      const a = frame[sampleIndex] + (frame[nextSampleIndex] - frame[sampleIndex]) * sampleMix;
+      const b = nextFrame[sampleIndex] + (nextFrame[nextSampleIndex] - nextFrame[sampleIndex]) * sampleMix;
+      output[i] = a + (b - a) * frameMix;
+
+      const hz = (frequency.length > 1 ? frequency[i] : frequency[0]) *
+        Math.pow(2, (detune.length > 1 ? detune[i] : detune[0]) / 1200);
+      this.phase += hz / sampleRate;
+      this.phase -= Math.floor(this.phase);
+    }
+
+    return true;
+  }
+}
+
+registerProcessor('wavetable-oscillator', WavetableProcessor);
@@ -5,6 +5,7 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { AudioEngine } from '../engines/AudioEngine';
 import type { DAWCore } from '../engines/DAWCore';
+import { PLAYBACK_NOTE_PREFIX } from '../engines/PlaybackScheduler';
 import { useKeyboardStore } from '../stores/keyboardStore';
 
 import { DrumMachine, DrumSound } from '../engines/DrumMachine';
@@ -24,7 +25,7 @@ export const useKeyboardController = (
 ) => {
   const pressedKeysRef = useRef<Set<string>>(new Set());
   const activeChordsRef = useRef<Set<string>>(new Set());
-  const { chordMap } = useKeyboardStore();
+  const { chordMap, velocity } = useKeyboardStore();
 
   const getQWERTYLayout = useCallback((): Record<string, KeyMapping> => {
     return {
@@ -152,21 +153,24 @@ export const useKeyboardController = (
 
       const chord = chordMap[keyCode];
       const rootMidi = octaveOffset * 12;
+      const origin = synthEngine.isArpeggiatorEnabled() ? 'held' : 'direct';
 
       chord.intervals.forEach((interval, index) => {
         const midiNote = rootMidi + interval;
-        const frequency = AudioEngine.midiToFrequency(midiNote);
+        const frequency = synthEngine.noteToFrequency(midiNote);
         const noteKey = `${keyCode}_${index}`;
+        // Keys the tuning's keyboard map leaves unmapped are silent
+        if (frequency === null) return;
 
-        synthEngine.playNote(frequency, noteKey);
+        synthEngine.playNote(frequency, noteKey, velocity);
 
         if (dawCore) {
           dawCore.recordMidiNote({
             frequency,
             noteKey,
             midiNote,
-            velocity: 100
-          });
+            velocity
+          }, origin);
         }
       });
 
@@ -185,19 +189,21 @@ export const useKeyboardController = (
 
     const mapping = keyMap[keyCode];
     const midiNote = (octaveOffset * 12) + mapping.offset;
-    const frequency = AudioEngine.midiToFrequency(midiNote);
+    const frequency = synthEngine.noteToFrequency(midiNote);
+    if (frequency === null) return;
 
-    synthEngine.playNote(frequency, keyCode);
+    const origin = synthEngine.isArpeggiatorEnabled() ? 'held' : 'direct';
+    synthEngine.playNote(frequency, keyCode, velocity);
 
     if (dawCore) {
       dawCore.recordMidiNote({
         frequency,
         noteKey: keyCode,
         midiNote,
-        velocity: 100
-      });
+        velocity
+      }, origin);
     }
-  }, [synthEngine, dawCore, octaveOffset, onOctaveChange, getQWERTYLayout, chordMap, isPercussionMode, drumMachine, getDrumMapping]);
+  }, [synthEngine, dawCore, octaveOffset, onOctaveChange, getQWERTYLayout, chordMap, velocity, isPercussionMode, drumMachine, getDrumMapping]);
 
   const handleKeyUp = useCallback((event: KeyboardEvent) => {
     if (!synthEngine) return;
@@ -237,6 +243,28 @@ export const useKeyboardController = (
     }
   }, [synthEngine, dawCore, chordMap]);
 
+  // Notes the arpeggiator plays from these keys are recorded when it's set to record its output
+  useEffect(() => {
+    if (!synthEngine || !dawCore) return;
+
+    synthEngine.setArpListener((event) => {
+      // Clip playback goes through the same arpeggiator
+      if (String(event.sourceKey).startsWith(PLAYBACK_NOTE_PREFIX)) return;
+
+      if (event.type === 'noteOn') {
+        dawCore.recordMidiNote({
+          frequency: event.frequency,
+          noteKey: event.noteKey,
+          velocity: event.velocity
+        }, 'arpeggiated');
+      } else {
+        dawCore.recordMidiNoteRelease(event.noteKey);
+      }
+    });
+
+    return () => synthEngine.setArpListener(null);
+  }, [synthEngine, dawCore]);
+
   useEffect(() => {
     if (!synthEngine) return;
 
@@ -3,7 +3,31 @@
  */
 
 import { create } from 'zustand';
-import type { AudioEngineParams } from '../engines/types';
+import type {
+  AudioEngineParams,
+  VoiceStealing,
+  VoiceMode,
+  NotePriority,
+  GlideMode,
+  NoiseColor,
+  VelocityCurve,
+  ModMatrix,
+  Wavetable,
+  SamplerConfig,
+  SamplerSample,
+  Tuning,
+  EffectSlot,
+  ModLFO,
+  ModEnvelope,
+  ModSlot,
+  LFOShape,
+  NoteDivision,
+  DivisionModifier
+} from '../engines/types';
+import { DEFAULT_MOD_MATRIX, MAX_MOD_SLOTS } from '../engines/ModulationMatrix';
+import { DEFAULT_LFO_TIMING } from '../engines/LFOSource';
+import { DEFAULT_SAMPLER_CONFIG } from '../engines/Sampler';
+import { DEFAULT_HARMONIC_AMPLITUDES, DEFAULT_HARMONIC_PHASES } from '../engines/harmonics';
 
 interface AudioStore {
   // Parameters
@@ -13,6 +37,27 @@ interface AudioStore {
   filterBypassed: boolean;
   distortionBypassed: boolean;
 
+  // Modulation matrix
+  modMatrix: ModMatrix;
+
+  // Wavetable imported from WAV files, kept with the instrument
+  userWavetable: Wavetable | null;
+
+  // Sampler samples and zones
+  sampler: SamplerConfig;
+
+  // Audio the granular module reads grains from
+  granularSample: SamplerSample | null;
+
+  // Impulse response loaded into the reverb module - null uses the generated one
+  reverbImpulse: SamplerSample | null;
+
+  // Tuning module's tuning - null follows the project tuning
+  tuning: Tuning | null;
+
+  // FX chain module's effect order - null is the standard order
+  effectChain: EffectSlot[] | null;
+
   // Actions
   setWaveType: (type: OscillatorType) => void;
   setMasterVolume: (volume: number) => void;
@@ -30,18 +75,56 @@ interface AudioStore {
   setChorusBypass: (bypassed: boolean) => void;
   setReverbAmount: (amount: number) => void;
   setReverbBypass: (bypassed: boolean) => void;
-  setCompressorBypass: (bypassed: boolean) => void;
-  setDelayBypass: (bypassed: boolean) => void;
   setLFORate: (rate: number) => void;
   setLFODepth: (depth: number) => void;
-  setLFOWaveType: (type: OscillatorType) => void;
+  setLFOWaveType: (type: LFOShape) => void;
   setLFOTarget: (target: 'cutoff' | 'amplitude' | 'pitch') => void;
+  setLFOSync: (sync: boolean) => void;
+  setLFODivision: (division: NoteDivision) => void;
+  setLFODivisionModifier: (modifier: DivisionModifier) => void;
+  setLFORetrigger: (retrigger: boolean) => void;
+  setLFOCustomShape: (points: number[]) => void;
   setMasterDetune: (cents: number) => void;
+  setUnisonMode: (enabled: boolean) => void;
+  setUnisonVoices: (count: number) => void;
   setUnisonDetune: (cents: number) => void;
+  setUnisonWidth: (width: number) => void;
+  setUnisonRandomPhase: (enabled: boolean) => void;
   setNoiseAmount: (amount: number) => void;
+  setNoiseColor: (color: NoiseColor) => void;
   setFilterEnvAttack: (time: number) => void;
   setFilterEnvDecay: (time: number) => void;
   setFilterEnvAmount: (amount: number) => void;
+  setFilterEnvSustain: (level: number) => void;
+  setFilterEnvRelease: (time: number) => void;
+  setFilterEnvVelocity: (amount: number) => void;
+  setFilterKeyTracking: (amount: number) => void;
+  setVelocityCurve: (curve: VelocityCurve) => void;
+  setVelocityToAmp: (amount: number) => void;
+  setVelocityToCutoff: (amount: number) => void;
+  setVelocityToAttack: (amount: number) => void;
+  setVoiceMode: (mode: VoiceMode) => void;
+  setNotePriority: (priority: NotePriority) => void;
+  setGlideTime: (time: number) => void;
+  setGlideMode: (mode: GlideMode) => void;
+  setPolyphony: (voices: number) => void;
+  setVoiceStealing: (mode: VoiceStealing) => void;
+  setWavetable: (id: string) => void;
+  setWavetablePosition: (position: number) => void;
+  setHarmonicAmplitudes: (amplitudes: number[]) => void;
+  setHarmonicPhases: (phases: number[]) => void;
+  setModMatrix: (matrix: ModMatrix) => void;
+  setUserWavetable: (table: Wavetable | null) => void;
+  setSampler: (config: SamplerConfig) => void;
+  setGranularSample: (sample: SamplerSample | null) => void;
+  setTuning: (tuning: Tuning | null) => void;
+  setReverbImpulse: (sample: SamplerSample | null) => void;
+  setEffectChain: (chain: EffectSlot[] | null) => void;
+  updateModLFO: (id: string, changes: Partial<Omit<ModLFO, 'id'>>) => void;
+  updateModEnvelope: (id: string, changes: Partial<Omit<ModEnvelope, 'id'>>) => void;
+  addModSlot: () => void;
+  updateModSlot: (id: string, changes: Partial<Omit<ModSlot, 'id'>>) => void;
+  removeModSlot: (id: string) => void;
 
   // State
   activeNoteCount: number;
@@ -50,7 +133,7 @@ interface AudioStore {
 
 // Audio Parameters Interface
 export interface AudioParams {
-  waveType: 'sine' | 'square' | 'sawtooth' | 'triangle';
+  waveType: 'sine' | 'square' | 'sawtooth' | 'triangle' | 'custom';
   masterVolume: number;
   attackTime: number;
   decayTime: number;
@@ -64,19 +147,45 @@ export interface AudioParams {
   reverbAmount: number;
   lfoRate: number;
   lfoDepth: number;
-  lfoWaveType: OscillatorType;
+  lfoWaveType: LFOShape;
   lfoTarget: 'cutoff' | 'amplitude' | 'pitch';
+  lfoSync: boolean;
+  lfoDivision: NoteDivision;
+  lfoDivisionModifier: DivisionModifier;
+  lfoRetrigger: boolean;
+  lfoCustomShape: number[];
   unisonMode: boolean;
   unisonVoices: number;
   unisonDetune: number;
+  unisonWidth: number;
+  unisonRandomPhase: boolean;
   masterDetune: number;
   noiseAmount: number;
+  noiseColor: NoiseColor;
   filterEnvAttack: number;
   filterEnvDecay: number;
   filterEnvAmount: number;
+  filterEnvSustain: number;
+  filterEnvRelease: number;
+  filterEnvVelocity: number;
+  filterKeyTracking: number;
+  velocityCurve: VelocityCurve;
+  velocityToAmp: number;
+  velocityToCutoff: number;
+  velocityToAttack: number;
+  voiceMode: VoiceMode;
+  notePriority: NotePriority;
+  glideTime: number;
+  glideMode: GlideMode;
+  polyphony: number;
+  voiceStealing: VoiceStealing;
+  wavetable: string;
+  wavetablePosition: number;
+  harmonicAmplitudes: number[];
+  harmonicPhases: number[];
 }
 
-const defaultParams: AudioEngineParams = {
+export const defaultParams: AudioEngineParams = {
   waveType: 'sine',
   masterVolume: 0.5,
   attackTime: 0.01,
@@ -93,20 +202,53 @@ const defaultParams: AudioEngineParams = {
   lfoDepth: 20,
   lfoWaveType: 'sine',
   lfoTarget: 'cutoff',
+  lfoSync: false,
+  lfoDivision: '1/4',
+  lfoDivisionModifier: 'straight',
+  lfoRetrigger: false,
+  lfoCustomShape: DEFAULT_LFO_TIMING.customShape,
   unisonMode: false,
   unisonVoices: 2,
   unisonDetune: 5,
+  unisonWidth: 50,
+  unisonRandomPhase: true,
   masterDetune: 0,
   noiseAmount: 0,
+  noiseColor: 'white',
   filterEnvAttack: 50,
   filterEnvDecay: 200,
-  filterEnvAmount: 3000
+  filterEnvAmount: 3000,
+  filterEnvSustain: 0,
+  filterEnvRelease: 200,
+  filterEnvVelocity: 0,
+  filterKeyTracking: 0,
+  velocityCurve: 'linear',
+  velocityToAmp: 100,
+  velocityToCutoff: 0,
+  velocityToAttack: 0,
+  voiceMode: 'poly',
+  notePriority: 'last',
+  glideTime: 0,
+  glideMode: 'legato',
+  polyphony: 32,
+  voiceStealing: 'released',
+  wavetable: 'basic',
+  wavetablePosition: 0,
+  harmonicAmplitudes: DEFAULT_HARMONIC_AMPLITUDES,
+  harmonicPhases: DEFAULT_HARMONIC_PHASES
 };
 
 export const useAudioStore = create<AudioStore>((set) => ({
   params: defaultParams,
   filterBypassed: false,
   distortionBypassed: true, // Distortion bypassed by default
+  modMatrix: DEFAULT_MOD_MATRIX,
+  userWavetable: null,
+  sampler: DEFAULT_SAMPLER_CONFIG,
+  granularSample: null,
+  tuning: null,
+  reverbImpulse: null,
+  effectChain: null,
 
   setWaveType: (type) => set((state) => ({ params: { ...state.params, waveType: type } })),
   setMasterVolume: (volume) => set((state) => ({ params: { ...state.params, masterVolume: volume / 100 } })),
@@ -124,18 +266,99 @@ export const useAudioStore = create<AudioStore>((set) => ({
   setChorusBypass: () => { }, // Will be handled by audio engine directly
   setReverbAmount: (amount) => set((state) => ({ params: { ...state.params, reverbAmount: Math.max(0, Math.min(100, amount)) } })),
   setReverbBypass: () => { }, // Will be handled by audio engine directly
-  setCompressorBypass: () => { }, // Will be handled by audio engine directly
-  setDelayBypass: () => { }, // Will be handled by audio engine directly
   setLFORate: (rate) => set((state) => ({ params: { ...state.params, lfoRate: Math.max(0.1, Math.min(20, rate)) } })),
   setLFODepth: (depth) => set((state) => ({ params: { ...state.params, lfoDepth: Math.max(0, Math.min(100, depth)) } })),
   setLFOWaveType: (type) => set((state) => ({ params: { ...state.params, lfoWaveType: type } })),
   setLFOTarget: (target) => set((state) => ({ params: { ...state.params, lfoTarget: target } })),
+  setLFOSync: (sync) => set((state) => ({ params: { ...state.params, lfoSync: sync } })),
+  setLFODivision: (division) => set((state) => ({ params: { ...state.params, lfoDivision: division } })),
+  setLFODivisionModifier: (modifier) => set((state) => ({ params: { ...state.params, lfoDivisionModifier: modifier } })),
+  setLFORetrigger: (retrigger) => set((state) => ({ params: { ...state.params, lfoRetrigger: retrigger } })),
+  setLFOCustomShape: (points) => set((state) => ({ params: { ...state.params, lfoCustomShape: points.map(p => Math.max(-1, Math.min(1, p))) } })),
   setMasterDetune: (cents) => set((state) => ({ params: { ...state.params, masterDetune: Math.max(-100, Math.min(100, cents)) } })),
+  setUnisonMode: (enabled) => set((state) => ({ params: { ...state.params, unisonMode: enabled } })),
+  setUnisonVoices: (count) => set((state) => ({ params: { ...state.params, unisonVoices: Math.max(1, Math.min(8, Math.round(count))) } })),
   setUnisonDetune: (cents) => set((state) => ({ params: { ...state.params, unisonDetune: Math.max(0, Math.min(50, cents)) } })),
+  setUnisonWidth: (width) => set((state) => ({ params: { ...state.params, unisonWidth: Math.max(0, Math.min(100, width)) } })),
+  setUnisonRandomPhase: (enabled) => set((state) => ({ params: { ...state.params, unisonRandomPhase: enabled } })),
   setNoiseAmount: (amount) => set((state) => ({ params: { ...state.params, noiseAmount: Math.max(0, Math.min(1, amount)) } })),
+  setNoiseColor: (color) => set((state) => ({ params: { ...state.params, noiseColor: color } })),
   setFilterEnvAttack: (time) => set((state) => ({ params: { ...state.params, filterEnvAttack: Math.max(0, Math.min(1000, time)) } })),
   setFilterEnvDecay: (time) => set((state) => ({ params: { ...state.params, filterEnvDecay: Math.max(0, Math.min(1000, time)) } })),
   setFilterEnvAmount: (amount) => set((state) => ({ params: { ...state.params, filterEnvAmount: Math.max(0, Math.min(5000, amount)) } })),
+  setFilterEnvSustain: (level) => set((state) => ({ params: { ...state.params, filterEnvSustain: Math.max(0, Math.min(1, level)) } })),
+  setFilterEnvRelease: (time) => set((state) => ({ params: { ...state.params, filterEnvRelease: Math.max(0, Math.min(2000, time)) } })),
+  setFilterEnvVelocity: (amount) => set((state) => ({ params: { ...state.params, filterEnvVelocity: Math.max(0, Math.min(100, amount)) } })),
+  setFilterKeyTracking: (amount) => set((state) => ({ params: { ...state.params, filterKeyTracking: Math.max(0, Math.min(100, amount)) } })),
+  setVelocityCurve: (curve) => set((state) => ({ params: { ...state.params, velocityCurve: curve } })),
+  setVelocityToAmp: (amount) => set((state) => ({ params: { ...state.params, velocityToAmp: Math.max(0, Math.min(100, amount)) } })),
+  setVelocityToCutoff: (amount) => set((state) => ({ params: { ...state.params, velocityToCutoff: Math.max(0, Math.min(100, amount)) } })),
+  setVelocityToAttack: (amount) => set((state) => ({ params: { ...state.params, velocityToAttack: Math.max(-100, Math.min(100, amount)) } })),
+  setVoiceMode: (mode) => set((state) => ({ params: { ...state.params, voiceMode: mode } })),
+  setNotePriority: (priority) => set((state) => ({ params: { ...state.params, notePriority: priority } })),
+  setGlideTime: (time) => set((state) => ({ params: { ...state.params, glideTime: Math.max(0, Math.min(2000, time)) } })),
+  setGlideMode: (mode) => set((state) => ({ params: { ...state.params, glideMode: mode } })),
+  setPolyphony: (voices) => set((state) => ({ params: { ...state.params, polyphony: Math.max(1, Math.min(32, Math.round(voices))) } })),
+  setVoiceStealing: (mode) => set((state) => ({ params: { ...state.params, voiceStealing: mode } })),
+  setWavetable: (id) => set((state) => ({ params: { ...state.params, wavetable: id } })),
+  setWavetablePosition: (position) => set((state) => ({ params: { ...state.params, wavetablePosition: Math.max(0, Math.min(1, position)) } })),
+  setHarmonicAmplitudes: (amplitudes) => set((state) => ({ params: { ...state.params, harmonicAmplitudes: amplitudes } })),
+  setHarmonicPhases: (phases) => set((state) => ({ params: { ...state.params, harmonicPhases: phases } })),
+
+  setModMatrix: (matrix) => set({ modMatrix: matrix }),
+  setUserWavetable: (table) => set({ userWavetable: table }),
+  setSampler: (config) => set({ sampler: config }),
+  setGranularSample: (sample) => set({ granularSample: sample }),
+  setTuning: (tuning) => set({ tuning }),
+  setReverbImpulse: (sample) => set({ reverbImpulse: sample }),
+  setEffectChain: (chain) => set({ effectChain: chain }),
+  updateModLFO: (id, changes) => set((state) => ({
+    modMatrix: {
+      ...state.modMatrix,
+      lfos: state.modMatrix.lfos.map(lfo => lfo.id === id ? {
+        ...lfo,
+        ...changes,
+        rate: Math.max(0.01, Math.min(20, changes.rate ?? lfo.rate)),
+        customShape: (changes.customShape ?? lfo.customShape).map(p => Math.max(-1, Math.min(1, p)))
+      } : lfo)
+    }
+  })),
+  updateModEnvelope: (id, changes) => set((state) => ({
+    modMatrix: {
+      ...state.modMatrix,
+      envelopes: state.modMatrix.envelopes.map(env => env.id === id ? {
+        ...env,
+        attack: Math.max(0, Math.min(5000, changes.attack ?? env.attack)),
+        decay: Math.max(0, Math.min(5000, changes.decay ?? env.decay)),
+        sustain: Math.max(0, Math.min(1, changes.sustain ?? env.sustain)),
+        release: Math.max(0, Math.min(5000, changes.release ?? env.release))
+      } : env)
+    }
+  })),
+  addModSlot: () => set((state) => {
+    if (state.modMatrix.slots.length >= MAX_MOD_SLOTS) return state;
+    const slot: ModSlot = {
+      id: `slot_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      source: state.modMatrix.lfos[0]?.id ?? '',
+      destination: 'cutoff',
+      depth: 0,
+      bipolar: true
+    };
+    return { modMatrix: { ...state.modMatrix, slots: [...state.modMatrix.slots, slot] } };
+  }),
+  updateModSlot: (id, changes) => set((state) => ({
+    modMatrix: {
+      ...state.modMatrix,
+      slots: state.modMatrix.slots.map(slot => slot.id === id ? {
+        ...slot,
+        ...changes,
+        depth: Math.max(-100, Math.min(100, changes.depth ?? slot.depth))
+      } : slot)
+    }
+  })),
+  removeModSlot: (id) => set((state) => ({
+    modMatrix: { ...state.modMatrix, slots: state.modMatrix.slots.filter(slot => slot.id !== id) }
+  })),
 
   activeNoteCount: 0,
   setActiveNoteCount: (count) => set({ activeNoteCount: count }),
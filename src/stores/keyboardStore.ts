@@ -4,8 +4,11 @@ import { ChordDefinition, ChordMap } from '../types/keyboard';
 
 interface KeyboardState {
   chordMap: ChordMap;
+  // Velocity for notes played from the computer keyboard, 1-127
+  velocity: number;
   setChord: (keyCode: string, chord: ChordDefinition) => void;
   resetChords: () => void;
+  setVelocity: (velocity: number) => void;
 }
 
 export const DEFAULT_CHORD_MAP: ChordMap = {
@@ -25,10 +28,12 @@ export const useKeyboardStore = create<KeyboardState>()(
   persist(
     (set) => ({
       chordMap: DEFAULT_CHORD_MAP,
+      velocity: 100,
       setChord: (keyCode, chord) => set((state) => ({
         chordMap: { ...state.chordMap, [keyCode]: chord }
       })),
-      resetChords: () => set({ chordMap: DEFAULT_CHORD_MAP })
+      resetChords: () => set({ chordMap: DEFAULT_CHORD_MAP }),
+      setVelocity: (velocity) => set({ velocity: Math.round(Math.max(1, Math.min(127, velocity))) })
     }),
     {
       name: 'keyboard-storage',
@@ -3,6 +3,10 @@ import { Project } from '../types/project';
 import { useTrackStore } from './trackStore';
 import { useSequencerStore } from './sequencerStore';
 import { useTransportStore } from './transportStore';
+import type { EQSettings, ReturnSettings, Tuning } from '../engines/types';
+import { DEFAULT_TUNING } from '../engines/tuning';
+import { DEFAULT_EQ_SETTINGS, normalizeEQSettings } from '../engines/ParametricEQ';
+import { DEFAULT_RETURN_SETTINGS, normalizeReturnSettings } from '../engines/Mixer';
 
 interface ProjectStoreAction {
     // Project Management
@@ -12,6 +16,20 @@ interface ProjectStoreAction {
 
     // Metadata
     setProjectName: (name: string) => void;
+
+    // Tuning shared by instruments without their own
+    tuning: Tuning;
+    setTuning: (tuning: Tuning) => void;
+
+    // EQ on the mixer's master bus
+    masterEQ: EQSettings;
+    masterEQEnabled: boolean;
+    setMasterEQ: (settings: EQSettings) => void;
+    setMasterEQEnabled: (enabled: boolean) => void;
+
+    // The mixer's shared reverb and delay returns
+    returnSettings: ReturnSettings;
+    setReturnSettings: (settings: ReturnSettings) => void;
 }
 
 // Helper to gather current state from all stores
@@ -31,6 +49,10 @@ const gatherProjectState = (): Project => {
         state: {
             bpm: transportState.bpm,
             timeSignature: [4, 4], // Todo: add to transport store if needed
+            tuning: useProjectStore.getState().tuning,
+            masterEQ: useProjectStore.getState().masterEQ,
+            masterEQEnabled: useProjectStore.getState().masterEQEnabled,
+            returnSettings: useProjectStore.getState().returnSettings,
             tracks: trackState.tracks,
             activeTrackId: trackState.activeTrackId,
             sequencer: {
@@ -43,12 +65,18 @@ const gatherProjectState = (): Project => {
     };
 };
 
-export const useProjectStore = create<ProjectStoreAction>(() => ({
+export const useProjectStore = create<ProjectStoreAction>((set) => ({
     loadProject: (project) => {
         console.log('Loading project...', project.metadata.name);
 
         // 1. Load Transport
         useTransportStore.getState().setBpm(project.state.bpm);
+        set({
+            tuning: project.state.tuning ?? DEFAULT_TUNING,
+            masterEQ: normalizeEQSettings(project.state.masterEQ),
+            masterEQEnabled: project.state.masterEQEnabled ?? false,
+            returnSettings: normalizeReturnSettings(project.state.returnSettings)
+        });
 
         // 2. Load Tracks
         useTrackStore.getState().setTracks(project.state.tracks);
@@ -85,5 +113,16 @@ export const useProjectStore = create<ProjectStoreAction>(() => ({
     setProjectName: (name) => {
         console.log('Set project name:', name);
         // TODO: persist this
-    }
+    },
+
+    tuning: DEFAULT_TUNING,
+    setTuning: (tuning) => set({ tuning }),
+
+    masterEQ: DEFAULT_EQ_SETTINGS,
+    masterEQEnabled: false,
+    setMasterEQ: (masterEQ) => set({ masterEQ }),
+    setMasterEQEnabled: (masterEQEnabled) => set({ masterEQEnabled }),
+
+    returnSettings: DEFAULT_RETURN_SETTINGS,
+    setReturnSettings: (returnSettings) => set({ returnSettings })
 }));
@@ -10,6 +10,7 @@ export interface SequencerState {
     stepResolution: StepResolution; // Steps per beat (1=quarter, 2=8th, 4=16th, 8=32nd)
     muted: boolean;
     isFrozen: boolean;
+    frozenBuffer: AudioBuffer | null; // Rendered pattern while frozen, for the granular module
     savedPatterns: Record<string, {
         patterns: Record<DrumSound, boolean[]>;
         stepCount: number;
@@ -24,6 +25,7 @@ export interface SequencerState {
     setStepResolution: (resolution: StepResolution) => void;
     toggleMute: () => void;
     setIsFrozen: (frozen: boolean) => void;
+    setFrozenBuffer: (buffer: AudioBuffer | null) => void;
     savePattern: (name: string) => void;
     loadPattern: (name: string) => void;
     deletePattern: (name: string) => void;
@@ -101,6 +103,7 @@ export const useSequencerStore = create<SequencerState>((set) => ({
     stepResolution: 4, // Default to 16th notes (double speed)
     muted: false,
     isFrozen: false,
+    frozenBuffer: null,
     savedPatterns: {
         ...DEFAULT_PRESETS,
         ...JSON.parse(localStorage.getItem('fractinst_patterns') || '{}')
@@ -154,6 +157,7 @@ export const useSequencerStore = create<SequencerState>((set) => ({
     toggleMute: () => set((state) => ({ muted: !state.muted })),
 
     setIsFrozen: (frozen) => set({ isFrozen: frozen }),
+    setFrozenBuffer: (buffer) => set({ frozenBuffer: buffer }),
 
     savePattern: (name) => set((state) => {
         const newSavedPatterns = {
@@ -178,7 +182,8 @@ export const useSequencerStore = create<SequencerState>((set) => ({
             patterns: preset.patterns,
             stepCount: preset.stepCount,
             stepResolution: preset.stepResolution,
-            isFrozen: false // Reset freeze state on load
+            isFrozen: false, // Reset freeze state on load
+            frozenBuffer: null
         };
     }),
 
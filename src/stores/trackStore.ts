@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { Track } from '../types/track';
 import { MidiClip } from '../engines/MidiRecorder';
 import { PercussionClip } from '../types/percussion';
+import type { SidechainSettings } from '../engines/types';
 
 interface TrackStore {
   tracks: Track[];
@@ -17,6 +18,9 @@ interface TrackStore {
   removeClipFromTrack: (trackId: string, clipId: string) => void;
   updateClipInTrack: (trackId: string, clipId: string, updates: Partial<MidiClip | PercussionClip>) => void;
   setTrackVolume: (id: string, volume: number) => void;
+  setTrackPan: (id: string, pan: number) => void;
+  setTrackSend: (id: string, busId: string, level: number) => void;
+  setTrackSidechain: (id: string, sidechain: SidechainSettings | undefined) => void;
   setTrackMute: (id: string, muted: boolean) => void;
   setTrackSolo: (id: string, soloed: boolean) => void;
   setTracks: (tracks: Track[]) => void;
@@ -103,6 +107,20 @@ export const useTrackStore = create<TrackStore>((set) => ({
     tracks: state.tracks.map(t => t.id === id ? { ...t, volume } : t)
   })),
 
+  setTrackPan: (id, pan) => set((state) => ({
+    tracks: state.tracks.map(t => t.id === id ? { ...t, pan: Math.max(-1, Math.min(1, pan)) } : t)
+  })),
+
+  setTrackSend: (id, busId, level) => set((state) => ({
+    tracks: state.tracks.map(t => t.id === id
+      ? { ...t, sends: { ...t.sends, [busId]: Math.max(0, Math.min(1, level)) } }
+      : t)
+  })),
+
+  setTrackSidechain: (id, sidechain) => set((state) => ({
+    tracks: state.tracks.map(t => t.id === id ? { ...t, sidechain } : t)
+  })),
+
   setTrackMute: (id, muted) => set((state) => ({
     tracks: state.tracks.map(t => t.id === id ? { ...t, muted } : t)
   })),
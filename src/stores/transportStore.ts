@@ -3,6 +3,7 @@
  */
 
 import { create } from 'zustand';
+import type { ArpRecordMode } from '../engines/DAWCore';
 
 interface TransportStore {
   // Playback state
@@ -19,6 +20,9 @@ interface TransportStore {
   // Lead-in metronome
   leadInEnabled: boolean;
   leadInBeatCount: number;
+
+  // Record the held chord or the arpeggiated notes
+  arpRecordMode: ArpRecordMode;
   
   // Actions
   setIsPlaying: (playing: boolean) => void;
@@ -30,6 +34,7 @@ interface TransportStore {
   setLoopLengthBars: (bars: number) => void;
   setLeadInEnabled: (enabled: boolean) => void;
   setLeadInBeatCount: (beats: number) => void;
+  setArpRecordMode: (mode: ArpRecordMode) => void;
   
   // Formatted time display
   formattedTime: string;
@@ -46,6 +51,7 @@ export const useTransportStore = create<TransportStore>((set) => ({
   loopLengthBars: 4,
   leadInEnabled: true,
   leadInBeatCount: 4,
+  arpRecordMode: 'held',
   formattedTime: '01:01:0.0',
   
   setIsPlaying: (playing) => set({ isPlaying: playing }),
@@ -57,6 +63,7 @@ export const useTransportStore = create<TransportStore>((set) => ({
   setLoopLengthBars: (bars) => set({ loopLengthBars: Math.max(1, bars) }),
   setLeadInEnabled: (enabled) => set({ leadInEnabled: enabled }),
   setLeadInBeatCount: (beats) => set({ leadInBeatCount: Math.max(1, Math.min(16, beats)) }),
+  setArpRecordMode: (mode) => set({ arpRecordMode: mode }),
   setFormattedTime: (time) => set({ formattedTime: time }),
 }));
 
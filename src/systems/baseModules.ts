@@ -35,6 +35,8 @@ export const baseModuleDefinitions: Record<string, ModuleDefinition> = {
   'filter-env-base': createBaseModule('filter-env-base', 'FILTER ENV', 'base', '◆'),
   'filter-base': createBaseModule('filter-base', 'FILTER', 'base', '⚡'),
   'distortion-base': createBaseModule('distortion-base', 'DISTORTION', 'base', '⚠'),
-  'lfo-base': createBaseModule('lfo-base', 'LFO', 'base', '⟿')
+  'lfo-base': createBaseModule('lfo-base', 'LFO', 'base', '⟿'),
+  'mod-matrix-base': createBaseModule('mod-matrix-base', 'MOD MATRIX', 'base', '⊞'),
+  'velocity-base': createBaseModule('velocity-base', 'VELOCITY', 'base', '▮')
 };
 
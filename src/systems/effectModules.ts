@@ -0,0 +1,20 @@
+/**
+ * Effect Module Definitions
+ * Optional controls for the instrument's effects - added from the module browser,
+ * instruments without them keep the effect at its default settings
+ */
+
+import type { ModuleDefinition } from './ModuleManager';
+import { createModuleDefinition } from './moduleFactory';
+import { DEFAULT_REVERB_SETTINGS } from '../engines/reverbImpulse';
+import { DEFAULT_DELAY_SETTINGS } from '../engines/StereoDelay';
+import { DEFAULT_COMPRESSOR_SETTINGS } from '../engines/compressor';
+import { DEFAULT_EQ_SETTINGS } from '../engines/ParametricEQ';
+
+export const effectModuleDefinitions: Record<string, ModuleDefinition> = {
+  'reverb': createModuleDefinition('effect', 'reverb', 'REVERB', 'Room size, decay, pre-delay, damping, width and impulse responses', '◌', DEFAULT_REVERB_SETTINGS),
+  'delay': createModuleDefinition('effect', 'delay', 'DELAY', 'Tempo-synced stereo and ping-pong echoes with filtered feedback', '⋯', DEFAULT_DELAY_SETTINGS),
+  'compressor': createModuleDefinition('effect', 'compressor', 'COMPRESSOR', 'Threshold, ratio, knee, attack, release and makeup gain with gain reduction metering', '⊐', DEFAULT_COMPRESSOR_SETTINGS),
+  'eq': createModuleDefinition('effect', 'eq', 'EQ', 'Parametric EQ with shelves, peaking bands, high/low-pass and a draggable response curve', '∽', DEFAULT_EQ_SETTINGS),
+  'effect-chain': createModuleDefinition('effect', 'effect-chain', 'FX CHAIN', 'Reorder, duplicate and remove the effects in the instrument\'s chain', '⇅')
+};
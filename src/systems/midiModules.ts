@@ -0,0 +1,13 @@
+/**
+ * MIDI Module Definitions
+ * Optional note processors added from the module browser - they change which notes reach the voices and at what pitch
+ */
+
+import type { ModuleDefinition } from './ModuleManager';
+import { createModuleDefinition } from './moduleFactory';
+import { DEFAULT_ARP_SETTINGS } from '../engines/Arpeggiator';
+
+export const midiModuleDefinitions: Record<string, ModuleDefinition> = {
+  'arpeggiator': createModuleDefinition('midi', 'arpeggiator', 'ARPEGGIATOR', 'Tempo-synced arpeggios from held notes and chords', '⋰', DEFAULT_ARP_SETTINGS),
+  'tuning': createModuleDefinition('midi', 'tuning', 'TUNING', 'Scala scales, keyboard maps and historical temperaments', '♮')
+};
@@ -0,0 +1,36 @@
+/**
+ * Module Factory
+ * Builds the definitions of the optional modules added from the module browser
+ */
+
+import { SynthModule, ModuleDefinition } from './ModuleManager';
+
+export function createModuleDefinition(
+  category: string,
+  type: string,
+  name: string,
+  description: string,
+  icon: string,
+  defaultParameters: Record<string, any> = {}
+): ModuleDefinition {
+  return {
+    name,
+    description,
+    category,
+    icon,
+    createInstance: (options: any = {}) => {
+      const module: SynthModule = {
+        id: `${type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        type,
+        name: options.name || name,
+        enabled: options.enabled !== undefined ? options.enabled : true,
+        // Copied so instances never share nested settings
+        parameters: JSON.parse(JSON.stringify(defaultParameters)),
+        inputs: [],
+        outputs: [],
+        uiElement: null
+      };
+      return module;
+    }
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Source Module Definitions
+ * Optional sound sources added from the module browser - a source replaces the basic oscillator while it's enabled
+ */
+
+import type { ModuleDefinition } from './ModuleManager';
+import { createModuleDefinition } from './moduleFactory';
+import { DEFAULT_FM_SETTINGS } from '../engines/FMOscillator';
+import { DEFAULT_GRANULAR_SETTINGS } from '../engines/Granular';
+
+export const sourceModuleDefinitions: Record<string, ModuleDefinition> = {
+  'wavetable': createModuleDefinition('source', 'wavetable', 'WAVETABLE', 'Wavetable oscillator with a sweepable position', '≋'),
+  'fm': createModuleDefinition('source', 'fm', 'FM', 'Frequency modulation with 2 to 4 operators', '⊛', DEFAULT_FM_SETTINGS),
+  'sampler': createModuleDefinition('source', 'sampler', 'SAMPLER', 'Multi-sample zones with root repitching, loops and round-robin', '▤'),
+  'granular': createModuleDefinition('source', 'granular', 'GRANULAR', 'Overlapping grains from a loaded file or frozen drum pattern', '⁂', DEFAULT_GRANULAR_SETTINGS)
+};
@@ -2,7 +2,7 @@
  * Instrument Configuration Types
  */
 
-import type { AudioEngineParams } from '../engines/types';
+import type { AudioEngineParams, ModMatrix, Wavetable, SamplerConfig, SamplerSample, Tuning, EffectSlot } from '../engines/types';
 import type { ModulePosition } from '../systems/ModuleLayoutManager';
 
 export interface InstrumentConfiguration {
@@ -16,6 +16,27 @@ export interface InstrumentConfiguration {
   audioParams: AudioEngineParams;
   filterBypassed: boolean;
   distortionBypassed: boolean;
+
+  // LFOs, envelopes and routing slots - missing in configs saved before the matrix existed
+  modMatrix?: ModMatrix;
+
+  // Wavetable imported from WAV files, selected when audioParams.wavetable matches its ID
+  userWavetable?: Wavetable;
+
+  // Samples and zones for the sampler module
+  sampler?: SamplerConfig;
+
+  // Audio the granular module reads grains from
+  granularSample?: SamplerSample;
+
+  // Impulse response loaded into the reverb module, used instead of the generated one
+  reverbImpulse?: SamplerSample;
+
+  // Tuning the tuning module plays - instruments without one follow the project tuning
+  tuning?: Tuning;
+
+  // Effect order the FX chain module plays - instruments without one use the standard order
+  effectChain?: EffectSlot[];
   
   // Module configuration
   modules: {
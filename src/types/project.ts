@@ -1,5 +1,6 @@
 import { Track } from './track';
 import { SequencerState } from '../stores/sequencerStore';
+import type { EQSettings, ReturnSettings, Tuning } from '../engines/types';
 
 export interface ProjectMetadata {
     id: string;
@@ -14,6 +15,16 @@ export interface ProjectState {
     bpm: number;
     timeSignature: [number, number]; // [numerator, denominator]
 
+    // Tuning instruments play in unless their tuning module sets their own - missing in older projects
+    tuning?: Tuning;
+
+    // Master bus EQ - missing in older projects
+    masterEQ?: EQSettings;
+    masterEQEnabled?: boolean;
+
+    // Mixer reverb and delay returns - missing in older projects
+    returnSettings?: ReturnSettings;
+
     // Tracks and Instruments
     tracks: Track[];
     activeTrackId: string | null;
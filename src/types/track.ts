@@ -1,6 +1,7 @@
 import { InstrumentConfiguration } from './instrument';
 import { MidiClip } from '../engines/MidiRecorder';
 import { PercussionClip } from './percussion';
+import type { SidechainSettings } from '../engines/types';
 
 /**
  * Base properties shared by all track types
@@ -13,6 +14,8 @@ interface BaseTrack {
   pan: number; // -1 to 1
   muted: boolean;
   soloed: boolean;
+  sends?: Record<string, number>; // Post-fader send level per return bus ID, 0 to 1
+  sidechain?: SidechainSettings;
 }
 
 /**
@@ -4,6 +4,8 @@
  */
 
 import type { InstrumentConfiguration, InstrumentLibraryState } from '../types/instrument';
+import { DEFAULT_LFO_TIMING } from '../engines/LFOSource';
+import { DEFAULT_HARMONIC_AMPLITUDES, DEFAULT_HARMONIC_PHASES } from '../engines/harmonics';
 
 const STORAGE_KEY = 'fractinst_instrument_library';
 
@@ -73,14 +75,40 @@ export function getPresets(): InstrumentConfiguration[] {
         lfoDepth: 20,
         lfoWaveType: 'sine',
         lfoTarget: 'cutoff',
+        lfoSync: false,
+        lfoDivision: '1/4',
+        lfoDivisionModifier: 'straight',
+        lfoRetrigger: false,
+        lfoCustomShape: DEFAULT_LFO_TIMING.customShape,
         unisonMode: false,
         unisonVoices: 2,
         unisonDetune: 5,
+        unisonWidth: 50,
+        unisonRandomPhase: true,
         masterDetune: 0,
         noiseAmount: 0,
+        noiseColor: 'white',
         filterEnvAttack: 50,
         filterEnvDecay: 200,
-        filterEnvAmount: 3000
+        filterEnvAmount: 3000,
+        filterEnvSustain: 0,
+        filterEnvRelease: 200,
+        filterEnvVelocity: 0,
+        filterKeyTracking: 0,
+        velocityCurve: 'linear',
+        velocityToAmp: 100,
+        velocityToCutoff: 0,
+        velocityToAttack: 0,
+        voiceMode: 'poly',
+        notePriority: 'last',
+        glideTime: 0,
+        glideMode: 'legato',
+        polyphony: 32,
+        voiceStealing: 'released',
+        wavetable: 'basic',
+        wavetablePosition: 0,
+        harmonicAmplitudes: DEFAULT_HARMONIC_AMPLITUDES,
+        harmonicPhases: DEFAULT_HARMONIC_PHASES
       },
       filterBypassed: false,
       distortionBypassed: true,
@@ -117,14 +145,40 @@ export function getPresets(): InstrumentConfiguration[] {
         lfoDepth: 10,
         lfoWaveType: 'sine',
         lfoTarget: 'cutoff',
+        lfoSync: false,
+        lfoDivision: '1/4',
+        lfoDivisionModifier: 'straight',
+        lfoRetrigger: false,
+        lfoCustomShape: DEFAULT_LFO_TIMING.customShape,
         unisonMode: false,
         unisonVoices: 2,
         unisonDetune: 3,
+        unisonWidth: 50,
+        unisonRandomPhase: true,
         masterDetune: 0,
         noiseAmount: 0,
+        noiseColor: 'white',
         filterEnvAttack: 20,
         filterEnvDecay: 150,
-        filterEnvAmount: 2000
+        filterEnvAmount: 2000,
+        filterEnvSustain: 0,
+        filterEnvRelease: 200,
+        filterEnvVelocity: 0,
+        filterKeyTracking: 0,
+        velocityCurve: 'linear',
+        velocityToAmp: 100,
+        velocityToCutoff: 0,
+        velocityToAttack: 0,
+        voiceMode: 'poly',
+        notePriority: 'last',
+        glideTime: 0,
+        glideMode: 'legato',
+        polyphony: 32,
+        voiceStealing: 'released',
+        wavetable: 'basic',
+        wavetablePosition: 0,
+        harmonicAmplitudes: DEFAULT_HARMONIC_AMPLITUDES,
+        harmonicPhases: DEFAULT_HARMONIC_PHASES
       },
       filterBypassed: false,
       distortionBypassed: false,
@@ -161,14 +215,40 @@ export function getPresets(): InstrumentConfiguration[] {
         lfoDepth: 30,
         lfoWaveType: 'triangle',
         lfoTarget: 'cutoff',
+        lfoSync: false,
+        lfoDivision: '1/4',
+        lfoDivisionModifier: 'straight',
+        lfoRetrigger: false,
+        lfoCustomShape: DEFAULT_LFO_TIMING.customShape,
         unisonMode: true,
         unisonVoices: 3,
         unisonDetune: 8,
+        unisonWidth: 50,
+        unisonRandomPhase: true,
         masterDetune: 0,
         noiseAmount: 0,
+        noiseColor: 'white',
         filterEnvAttack: 30,
         filterEnvDecay: 100,
-        filterEnvAmount: 4000
+        filterEnvAmount: 4000,
+        filterEnvSustain: 0,
+        filterEnvRelease: 200,
+        filterEnvVelocity: 0,
+        filterKeyTracking: 0,
+        velocityCurve: 'linear',
+        velocityToAmp: 100,
+        velocityToCutoff: 0,
+        velocityToAttack: 0,
+        voiceMode: 'poly',
+        notePriority: 'last',
+        glideTime: 0,
+        glideMode: 'legato',
+        polyphony: 32,
+        voiceStealing: 'released',
+        wavetable: 'basic',
+        wavetablePosition: 0,
+        harmonicAmplitudes: DEFAULT_HARMONIC_AMPLITUDES,
+        harmonicPhases: DEFAULT_HARMONIC_PHASES
       },
       filterBypassed: false,
       distortionBypassed: true,
@@ -205,14 +285,40 @@ export function getPresets(): InstrumentConfiguration[] {
         lfoDepth: 15,
         lfoWaveType: 'sine',
         lfoTarget: 'cutoff',
+        lfoSync: false,
+        lfoDivision: '1/4',
+        lfoDivisionModifier: 'straight',
+        lfoRetrigger: false,
+        lfoCustomShape: DEFAULT_LFO_TIMING.customShape,
         unisonMode: true,
         unisonVoices: 4,
         unisonDetune: 12,
+        unisonWidth: 50,
+        unisonRandomPhase: true,
         masterDetune: 0,
         noiseAmount: 0,
+        noiseColor: 'white',
         filterEnvAttack: 200,
         filterEnvDecay: 400,
-        filterEnvAmount: 2500
+        filterEnvAmount: 2500,
+        filterEnvSustain: 0,
+        filterEnvRelease: 200,
+        filterEnvVelocity: 0,
+        filterKeyTracking: 0,
+        velocityCurve: 'linear',
+        velocityToAmp: 100,
+        velocityToCutoff: 0,
+        velocityToAttack: 0,
+        voiceMode: 'poly',
+        notePriority: 'last',
+        glideTime: 0,
+        glideMode: 'legato',
+        polyphony: 32,
+        voiceStealing: 'released',
+        wavetable: 'basic',
+        wavetablePosition: 0,
+        harmonicAmplitudes: DEFAULT_HARMONIC_AMPLITUDES,
+        harmonicPhases: DEFAULT_HARMONIC_PHASES
       },
       filterBypassed: false,
       distortionBypassed: true,
@@ -249,14 +355,40 @@ export function getPresets(): InstrumentConfiguration[] {
         lfoDepth: 0,
         lfoWaveType: 'sine',
         lfoTarget: 'cutoff',
+        lfoSync: false,
+        lfoDivision: '1/4',
+        lfoDivisionModifier: 'straight',
+        lfoRetrigger: false,
+        lfoCustomShape: DEFAULT_LFO_TIMING.customShape,
         unisonMode: false,
         unisonVoices: 2,
         unisonDetune: 5,
+        unisonWidth: 50,
+        unisonRandomPhase: true,
         masterDetune: 0,
         noiseAmount: 0,
+        noiseColor: 'white',
         filterEnvAttack: 5,
         filterEnvDecay: 300,
-        filterEnvAmount: 3500
+        filterEnvAmount: 3500,
+        filterEnvSustain: 0,
+        filterEnvRelease: 200,
+        filterEnvVelocity: 0,
+        filterKeyTracking: 0,
+        velocityCurve: 'linear',
+        velocityToAmp: 100,
+        velocityToCutoff: 0,
+        velocityToAttack: 0,
+        voiceMode: 'poly',
+        notePriority: 'last',
+        glideTime: 0,
+        glideMode: 'legato',
+        polyphony: 32,
+        voiceStealing: 'released',
+        wavetable: 'basic',
+        wavetablePosition: 0,
+        harmonicAmplitudes: DEFAULT_HARMONIC_AMPLITUDES,
+        harmonicPhases: DEFAULT_HARMONIC_PHASES
       },
       filterBypassed: false,
       distortionBypassed: true,
@@ -55,6 +55,84 @@ export const moduleAudioMappings: Record<string, ModuleAudioMapping['audioContro
     target: 'unisonMode',
     enabledValue: true,
     disabledValue: false
+  },
+  'mod-matrix-base': {
+    type: 'mute',
+    target: 'mod-matrix',
+    enabledValue: 1,
+    disabledValue: 0
+  },
+  'velocity-base': {
+    type: 'parameter',
+    target: 'velocity',
+    enabledValue: true,
+    disabledValue: false
+  },
+  'wavetable': {
+    type: 'parameter',
+    target: 'wavetable',
+    enabledValue: true,
+    disabledValue: false
+  },
+  'fm': {
+    type: 'parameter',
+    target: 'fm',
+    enabledValue: true,
+    disabledValue: false
+  },
+  'sampler': {
+    type: 'parameter',
+    target: 'sampler',
+    enabledValue: true,
+    disabledValue: false
+  },
+  'granular': {
+    type: 'parameter',
+    target: 'granular',
+    enabledValue: true,
+    disabledValue: false
+  },
+  'arpeggiator': {
+    type: 'parameter',
+    target: 'arpeggiator',
+    enabledValue: true,
+    disabledValue: false
+  },
+  'tuning': {
+    type: 'parameter',
+    target: 'tuning',
+    enabledValue: true,
+    disabledValue: false
+  },
+  'reverb': {
+    type: 'parameter',
+    target: 'reverb',
+    enabledValue: true,
+    disabledValue: false
+  },
+  'delay': {
+    type: 'parameter',
+    target: 'delay',
+    enabledValue: true,
+    disabledValue: false
+  },
+  'compressor': {
+    type: 'parameter',
+    target: 'compressor',
+    enabledValue: true,
+    disabledValue: false
+  },
+  'eq': {
+    type: 'parameter',
+    target: 'eq',
+    enabledValue: true,
+    disabledValue: false
+  },
+  'effect-chain': {
+    type: 'parameter',
+    target: 'effect-chain',
+    enabledValue: true,
+    disabledValue: false
   }
 };
 